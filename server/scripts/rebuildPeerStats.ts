@@ -0,0 +1,17 @@
+import { config } from 'dotenv'
+
+config()
+
+const [examId] = process.argv.slice(2)
+
+const { prisma } = await import('../src/db.js')
+const { rebuildPeerStats } = await import('../src/services/peerStatsService.js')
+
+try {
+  const result = await rebuildPeerStats(examId)
+  console.log(
+    `Rebuilt peer stats for ${result.questionCount} questions in ${result.examCount} exams.`,
+  )
+} finally {
+  await prisma.$disconnect()
+}
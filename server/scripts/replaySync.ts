@@ -0,0 +1,54 @@
+import { readdir } from 'fs/promises'
+import { resolve } from 'path'
+import { config } from 'dotenv'
+
+config()
+
+const [email, dirArg] = process.argv.slice(2)
+if (!email) {
+  throw new Error('Usage: npm run replay:sync -- <user email> [fixture dir]')
+}
+
+const fixtureDir = dirArg || process.env.SCRAPER_DEBUG_DIR
+if (!fixtureDir) {
+  throw new Error('Pass a fixture dir or set SCRAPER_DEBUG_DIR.')
+}
+const replayDir = resolve(process.cwd(), fixtureDir)
+
+const { prisma } = await import('../src/db.js')
+const { syncExternalAccount } = await import('../src/services/syncService.js')
+const { createTestZ7iReplayProvider } = await import(
+  '../src/scraper/testZ7iScraperV2.js'
+)
+
+const user = await prisma.user.findUnique({ where: { email } })
+if (!user) {
+  throw new Error(`No user with email ${email}.`)
+}
+
+const fixtureExamIds = (await readdir(replayDir))
+  .map((name) => name.match(/^question-wise-(.+)\.(?:json|txt)$/)?.[1])
+  .filter((value): value is string => Boolean(value))
+
+try {
+  const adapter = createTestZ7iReplayProvider(replayDir)
+  const result = await syncExternalAccount({
+    userId: user.id,
+    provider: adapter.id,
+    adapter,
+    username: 'replay',
+    password: 'replay',
+    forceAttemptExamIds: fixtureExamIds,
+    onProgress: (progress) => {
+      console.log(
+        `[${progress.completed}/${progress.total}] ${progress.currentTitle ?? ''}`,
+      )
+    },
+    onWarning: (message) => {
+      console.warn(`warning: ${message}`)
+    },
+  })
+  console.log(`Saved ${result.count} attempts from ${replayDir}.`)
+} finally {
+  await prisma.$disconnect()
+}
@@ -0,0 +1,23 @@
+import { config } from 'dotenv'
+
+config()
+
+const [email, role] = process.argv.slice(2)
+if (!email || (role !== 'USER' && role !== 'ADMIN')) {
+  throw new Error('Usage: npm run set:role -- <user email> <USER|ADMIN>')
+}
+
+const { prisma } = await import('../src/db.js')
+
+try {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+  })
+  if (!user) {
+    throw new Error(`No user with email ${email}.`)
+  }
+  await prisma.user.update({ where: { id: user.id }, data: { role } })
+  console.log(`${user.email} is now ${role}. The change applies to their next request.`)
+} finally {
+  await prisma.$disconnect()
+}
@@ -0,0 +1,17 @@
+import { config } from 'dotenv'
+
+config()
+
+const { prisma } = await import('../src/db.js')
+const { suggestTopics, trainTopicModel } = await import('../src/services/topicClassifier.js')
+
+try {
+  const model = await trainTopicModel()
+  console.log(
+    `Trained ${model.topics.length} topics from ${model.documentCount} tagged questions.`,
+  )
+  const suggested = await suggestTopics()
+  console.log(`Suggested topics for ${suggested} untagged questions.`)
+} finally {
+  await prisma.$disconnect()
+}
@@ -0,0 +1,6 @@
+export const userRoles = ['USER', 'ADMIN'] as const
+
+export type UserRole = (typeof userRoles)[number]
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (userRoles as readonly string[]).includes(value)
@@ -40,4 +40,6 @@ export const env = {
   scraperDebugDir: process.env.SCRAPER_DEBUG_DIR ?? '',
   scraperTrace: (process.env.SCRAPER_TRACE ?? 'false') === 'true',
   scraperPackageId: process.env.SCRAPER_PACKAGE_ID ?? '',
+  syncWorkerPollMs: parseNumber(process.env.SYNC_WORKER_POLL_MS ?? '', 2000),
+  topicModelPath: process.env.TOPIC_MODEL_PATH ?? './topic-model.json',
 }
@@ -1,10 +1,22 @@
 import express from 'express'
 import cors from 'cors'
 import { env } from './config.js'
+import adminRouter from './routes/admin.js'
+import analyticsRouter from './routes/analytics.js'
 import authRouter from './routes/auth.js'
+import challengesRouter from './routes/challenges.js'
+import discussionsRouter from './routes/discussions.js'
 import externalRouter from './routes/external.js'
+import journalRouter from './routes/journal.js'
+import notesRouter from './routes/notes.js'
+import notificationsRouter from './routes/notifications.js'
+import practiceRouter from './routes/practice.js'
+import questionNotesRouter from './routes/questionNotes.js'
+import revisionRouter from './routes/revision.js'
 import testsRouter from './routes/tests.js'
+import topicsRouter from './routes/topics.js'
 import { errorHandler } from './middleware/error.js'
+import { recoverSyncJobs, startSyncWorker } from './services/syncJobService.js'
 
 const app = express()
 
@@ -28,8 +40,19 @@ app.get('/health', (_req, res) => {
   res.json({ ok: true })
 })
 
+app.use('/api/admin', adminRouter)
+app.use('/api/analytics', analyticsRouter)
 app.use('/api/auth', authRouter)
 app.use('/api/external', externalRouter)
+app.use('/api/journal', journalRouter)
+app.use('/api/notes', notesRouter)
+app.use('/api/notifications', notificationsRouter)
+app.use('/api/practice', practiceRouter)
+app.use('/api/revision', revisionRouter)
+app.use('/api/topics', topicsRouter)
+app.use('/api/tests/:id/challenges', challengesRouter)
+app.use('/api/tests/:id/questions/:questionId/discussion', discussionsRouter)
+app.use('/api/tests/:id/questions/:questionId/notes', questionNotesRouter)
 app.use('/api/tests', testsRouter)
 
 app.use(errorHandler)
@@ -37,3 +60,16 @@ app.use(errorHandler)
 app.listen(env.port, env.serverHost, () => {
   console.log(`Server listening on http://${env.serverHost}:${env.port}`)
 })
+
+recoverSyncJobs()
+  .then(({ requeued, failed }) => {
+    if (requeued > 0 || failed > 0) {
+      console.log(`Recovered sync jobs: ${requeued} requeued, ${failed} failed`)
+    }
+  })
+  .catch((error) => {
+    console.error(error)
+  })
+  .finally(() => {
+    startSyncWorker()
+  })
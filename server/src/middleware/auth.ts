@@ -1,4 +1,6 @@
 import type { NextFunction, Response } from 'express'
+import { prisma } from '../db.js'
+import type { UserRole } from '../auth/roles.js'
 import { verifyToken, type TokenPayload } from '../auth/token.js'
 import type { Request } from 'express'
 
@@ -22,3 +24,30 @@ export const requireAuth = (
     return res.status(401).json({ error: 'Invalid auth token.' })
   }
 }
+
+// Roles can change while a token is still valid, so the token's copy is only
+// a hint and role checks read the user's current role.
+export const hasCurrentRole = async (userId: string, role: UserRole) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+  return user?.role === role
+}
+
+export const requireRole =
+  (role: UserRole) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+    try {
+      if (!(await hasCurrentRole(req.user.userId, role))) {
+        return res.status(403).json({ error: 'You do not have permission to do that.' })
+      }
+      req.user = { ...req.user, role }
+      return next()
+    } catch (error) {
+      return next(error)
+    }
+  }
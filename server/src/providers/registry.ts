@@ -0,0 +1,23 @@
+import { testZ7iProvider } from '../scraper/testZ7iScraperV2.js'
+import type { ProviderAdapter } from './types.js'
+
+export const DEFAULT_PROVIDER_ID = testZ7iProvider.id
+
+const providers = new Map<string, ProviderAdapter>()
+
+export const registerProvider = (adapter: ProviderAdapter) => {
+  if (providers.has(adapter.id)) {
+    throw new Error(`Provider already registered: ${adapter.id}`)
+  }
+  providers.set(adapter.id, adapter)
+}
+
+export const getProvider = (id: string) => providers.get(id) ?? null
+
+export const listProviders = () =>
+  Array.from(providers.values()).map((adapter) => ({
+    id: adapter.id,
+    label: adapter.label,
+  }))
+
+registerProvider(testZ7iProvider)
@@ -0,0 +1,84 @@
+import type { ScrapeProgress, ScrapeResult, ScrapedReport } from '../scraper/types.js'
+import type { ProviderAdapter, ProviderCredentials } from './types.js'
+
+export const scrapeProvider = async (
+  adapter: ProviderAdapter,
+  payload: ProviderCredentials & {
+    skipExamIds?: string[]
+    onlyExamIds?: string[]
+    onProgress?: (progress: ScrapeProgress) => Promise<void> | void
+    onWarning?: (message: string) => Promise<void> | void
+  },
+): Promise<ScrapeResult> => {
+  const warnings: string[] = []
+  const skipExamIds = new Set(payload.skipExamIds ?? [])
+  const warn = async (message: string) => {
+    warnings.push(message)
+    await payload.onWarning?.(message)
+  }
+
+  const session = await adapter.openSession({
+    username: payload.username,
+    password: payload.password,
+    verificationCode: payload.verificationCode,
+  })
+
+  try {
+    const tests = await session.listTests()
+    if (tests.length === 0) {
+      throw new Error(`No tests found on ${adapter.label}.`)
+    }
+
+    const onlyExamIds = new Set(payload.onlyExamIds ?? [])
+    const filteredTests =
+      onlyExamIds.size > 0
+        ? tests.filter((test) => onlyExamIds.has(test.externalExamId))
+        : tests
+    if (filteredTests.length === 0) {
+      throw new Error('No tests matched the requested filters.')
+    }
+
+    await payload.onProgress?.({ completed: 0, total: filteredTests.length })
+    const reports: ScrapedReport[] = []
+    let completed = 0
+
+    for (const test of filteredTests) {
+      if (skipExamIds.has(test.externalExamId)) {
+        await warn(`Skipping ${test.title} (already synced for this user).`)
+        completed += 1
+        await payload.onProgress?.({
+          completed,
+          total: filteredTests.length,
+          currentTitle: test.title,
+        })
+        continue
+      }
+
+      await payload.onProgress?.({
+        completed,
+        total: filteredTests.length,
+        currentTitle: test.title,
+      })
+
+      const report = await session.fetchReport(test, warn)
+      if (!report.questions || report.questions.length === 0) {
+        await warn(`No questions parsed for ${test.title}.`)
+      }
+      if (!report.answers || report.answers.length === 0) {
+        await warn(`No answers parsed for ${test.title}.`)
+      }
+      reports.push(report)
+
+      completed += 1
+      await payload.onProgress?.({
+        completed,
+        total: filteredTests.length,
+        currentTitle: test.title,
+      })
+    }
+
+    return { reports, warnings }
+  } finally {
+    await session.close()
+  }
+}
@@ -0,0 +1,29 @@
+import type { ScrapedReport } from '../scraper/types.js'
+
+export type ProviderCredentials = {
+  username: string
+  password: string
+  verificationCode?: string
+}
+
+export type ProviderTest = {
+  externalExamId: string
+  title: string
+  examDate: string
+}
+
+export type ProviderSession = {
+  listTests: () => Promise<ProviderTest[]>
+  fetchReport: (
+    test: ProviderTest,
+    warn: (message: string) => Promise<void>,
+  ) => Promise<ScrapedReport>
+  close: () => Promise<void>
+}
+
+export type ProviderAdapter = {
+  id: string
+  label: string
+  verifyLogin: (credentials: ProviderCredentials) => Promise<void>
+  openSession: (credentials: ProviderCredentials) => Promise<ProviderSession>
+}
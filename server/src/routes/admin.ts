@@ -0,0 +1,68 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { isUserRole } from '../auth/roles.js'
+import { requireAuth, requireRole, type AuthRequest } from '../middleware/auth.js'
+
+const router = Router()
+
+const serializeUser = (user: {
+  id: string
+  name: string
+  email: string
+  role: string
+}) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+})
+
+router.get(
+  '/users',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (_req: AuthRequest, res, next) => {
+    try {
+      const users = await prisma.user.findMany({ orderBy: { email: 'asc' } })
+      return res.json({ users: users.map(serializeUser) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+router.patch(
+  '/users/:id/role',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' })
+      }
+
+      const { role } = req.body as { role?: unknown }
+      if (!isUserRole(role)) {
+        return res.status(400).json({ error: 'role must be USER or ADMIN.' })
+      }
+      if (req.params.id === req.user.userId) {
+        return res.status(400).json({ error: 'You cannot change your own role.' })
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: req.params.id } })
+      if (!user) {
+        return res.status(404).json({ error: 'User not found.' })
+      }
+
+      const updated = await prisma.user.update({
+        where: { id: user.id },
+        data: { role },
+      })
+      return res.json({ user: serializeUser(updated) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+export default router
@@ -0,0 +1,72 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+import {
+  analysisQuestionSelect,
+  getAttemptAnalyses,
+  readKeySource,
+} from '../services/analysisService.js'
+
+const router = Router()
+
+// Per-test metrics for every attempt, without question content, so clients
+// can render dashboards and trends from a small payload.
+router.get('/summary', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const keySource = readKeySource(req.query.keySource)
+    if (!keySource) {
+      return res
+        .status(400)
+        .json({ error: 'keySource must be official, revised or personal.' })
+    }
+
+    const attempts = await prisma.attempt.findMany({
+      where: { userId: req.user.userId },
+      select: {
+        id: true,
+        rank: true,
+        answers: true,
+        timings: true,
+        keyOverrides: true,
+        exam: {
+          select: {
+            title: true,
+            examDate: true,
+            questions: { select: analysisQuestionSelect },
+          },
+        },
+      },
+    })
+    const analyses = await getAttemptAnalyses(attempts, keySource)
+
+    const tests = attempts
+      .flatMap((attempt) => {
+        const analysis = analyses.get(attempt.id)
+        if (!analysis) {
+          return []
+        }
+        return [
+          {
+            id: attempt.id,
+            title: attempt.exam.title,
+            examDate: attempt.exam.examDate,
+            rank: attempt.rank,
+            analysis,
+          },
+        ]
+      })
+      .sort(
+        (a, b) => new Date(a.examDate).getTime() - new Date(b.examDate).getTime(),
+      )
+
+    return res.json({ keySource, tests })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,295 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, requireRole, type AuthRequest } from '../middleware/auth.js'
+import {
+  isCurrentKey,
+  keyUpdateOperations,
+  normalizeKeyInput,
+} from '../services/answerKeyService.js'
+import { parseStoredJson } from '../services/attemptScoring.js'
+import { notifyExamChange } from '../services/notificationService.js'
+import { rescorePeerStats } from '../services/peerStatsService.js'
+import { validateAnswerKey } from '../../../shared/scoring.js'
+
+const router = Router({ mergeParams: true })
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0
+
+const challengeInclude = {
+  author: { select: { name: true } },
+  resolvedBy: { select: { name: true } },
+  votes: { select: { userId: true } },
+} as const
+
+const serializeChallenge = (
+  challenge: {
+    id: string
+    questionId: string
+    proposedKey: string
+    justification: string
+    status: string
+    resolutionNote: string | null
+    resolvedAt: Date | null
+    createdAt: Date
+    author: { name: string }
+    resolvedBy: { name: string } | null
+    votes: Array<{ userId: string }>
+  },
+  userId: string,
+) => ({
+  id: challenge.id,
+  questionId: challenge.questionId,
+  proposedKey: parseStoredJson(challenge.proposedKey),
+  justification: challenge.justification,
+  status: challenge.status.toLowerCase(),
+  authorName: challenge.author.name,
+  votes: challenge.votes.length,
+  hasVoted: challenge.votes.some((vote) => vote.userId === userId),
+  resolvedByName: challenge.resolvedBy?.name ?? null,
+  resolutionNote: challenge.resolutionNote,
+  resolvedAt: challenge.resolvedAt ? challenge.resolvedAt.toISOString() : null,
+  createdAt: challenge.createdAt.toISOString(),
+})
+
+const findAttemptExamId = async (attemptId: string, userId: string) => {
+  const attempt = await prisma.attempt.findFirst({
+    where: { id: attemptId, userId },
+    select: { examId: true },
+  })
+  return attempt?.examId ?? null
+}
+
+const listChallenges = async (examId: string, userId: string) => {
+  const challenges = await prisma.keyChallenge.findMany({
+    where: { question: { examId } },
+    include: challengeInclude,
+    orderBy: { createdAt: 'desc' },
+  })
+  return challenges.map((challenge) => serializeChallenge(challenge, userId))
+}
+
+const findExamChallenge = (examId: string, challengeId: string) =>
+  prisma.keyChallenge.findFirst({
+    where: { id: challengeId, question: { examId } },
+    include: { question: true },
+  })
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const examId = await findAttemptExamId(req.params.id, req.user.userId)
+    if (!examId) {
+      return res.status(404).json({ error: 'Test not found.' })
+    }
+
+    return res.json({ challenges: await listChallenges(examId, req.user.userId) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { questionId, proposedKey, justification } = req.body as {
+      questionId?: unknown
+      proposedKey?: unknown
+      justification?: unknown
+    }
+
+    if (!isNonEmptyString(questionId)) {
+      return res.status(400).json({ error: 'questionId is required.' })
+    }
+    if (!isNonEmptyString(justification)) {
+      return res.status(400).json({ error: 'justification is required.' })
+    }
+    const normalizedKey = normalizeKeyInput(proposedKey)
+    if (normalizedKey === undefined || normalizedKey === null || normalizedKey === '') {
+      return res.status(400).json({ error: 'proposedKey is required.' })
+    }
+
+    const examId = await findAttemptExamId(req.params.id, req.user.userId)
+    if (!examId) {
+      return res.status(404).json({ error: 'Test not found.' })
+    }
+
+    const question = await prisma.question.findFirst({
+      where: { id: questionId, examId },
+    })
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found.' })
+    }
+    const validated = validateAnswerKey(normalizedKey, question.qtype)
+    if (!validated.ok) {
+      return res.status(400).json({
+        error: `proposedKey is not a valid ${question.qtype} key: ${validated.message}.`,
+      })
+    }
+    // The validated key is the canonical form ("A,C" becomes ["A", "C"] and
+    // "BONUS" a bonus key), so equal keys compare and deduplicate as equal.
+    if (isCurrentKey(question, validated.key)) {
+      return res.status(400).json({ error: 'That is already the current key.' })
+    }
+
+    const storedKey = JSON.stringify(validated.key)
+    const duplicate = await prisma.keyChallenge.findFirst({
+      where: { questionId, status: 'OPEN', proposedKey: storedKey },
+    })
+    if (duplicate) {
+      return res
+        .status(409)
+        .json({ error: 'An open challenge already proposes this key. Upvote it instead.' })
+    }
+
+    await prisma.keyChallenge.create({
+      data: {
+        questionId,
+        authorId: req.user.userId,
+        proposedKey: storedKey,
+        justification: justification.trim(),
+        votes: { create: { userId: req.user.userId } },
+      },
+    })
+
+    return res
+      .status(201)
+      .json({ challenges: await listChallenges(examId, req.user.userId) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.put('/:challengeId/vote', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const examId = await findAttemptExamId(req.params.id, req.user.userId)
+    if (!examId) {
+      return res.status(404).json({ error: 'Test not found.' })
+    }
+
+    const challenge = await findExamChallenge(examId, req.params.challengeId)
+    if (!challenge) {
+      return res.status(404).json({ error: 'Challenge not found.' })
+    }
+    if (challenge.status !== 'OPEN') {
+      return res.status(400).json({ error: 'This challenge is already resolved.' })
+    }
+
+    const voteKey = {
+      challengeId_userId: { challengeId: challenge.id, userId: req.user.userId },
+    }
+    const existing = await prisma.keyChallengeVote.findUnique({ where: voteKey })
+    const voted =
+      typeof req.body?.voted === 'boolean' ? req.body.voted : !existing
+    if (voted && !existing) {
+      await prisma.keyChallengeVote.create({
+        data: { challengeId: challenge.id, userId: req.user.userId },
+      })
+    } else if (!voted && existing) {
+      await prisma.keyChallengeVote.delete({ where: voteKey })
+    }
+
+    return res.json({ challenges: await listChallenges(examId, req.user.userId) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post(
+  '/:challengeId/resolve',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' })
+      }
+
+      const { status, note } = req.body as { status?: unknown; note?: unknown }
+      if (status !== 'accepted' && status !== 'rejected') {
+        return res.status(400).json({ error: 'status must be accepted or rejected.' })
+      }
+      if (note !== undefined && note !== null && typeof note !== 'string') {
+        return res.status(400).json({ error: 'note must be a string.' })
+      }
+
+      const examId = await findAttemptExamId(req.params.id, req.user.userId)
+      if (!examId) {
+        return res.status(404).json({ error: 'Test not found.' })
+      }
+
+      const challenge = await findExamChallenge(examId, req.params.challengeId)
+      if (!challenge) {
+        return res.status(404).json({ error: 'Challenge not found.' })
+      }
+      if (challenge.status !== 'OPEN') {
+        return res.status(400).json({ error: 'This challenge is already resolved.' })
+      }
+
+      const resolutionNote = isNonEmptyString(note) ? note.trim() : null
+      // Challenges filed before keys were validated can still hold keys the
+      // question cannot score, so they can only be rejected.
+      const validated =
+        status === 'accepted'
+          ? validateAnswerKey(
+              parseStoredJson(challenge.proposedKey),
+              challenge.question.qtype,
+            )
+          : null
+      if (validated && !validated.ok) {
+        return res.status(400).json({
+          error: `The proposed key is not a valid ${challenge.question.qtype} key: ${validated.message}.`,
+        })
+      }
+      const resolve = prisma.keyChallenge.update({
+        where: { id: challenge.id },
+        data: {
+          status: status === 'accepted' ? 'ACCEPTED' : 'REJECTED',
+          resolvedById: req.user.userId,
+          resolutionNote,
+          resolvedAt: new Date(),
+        },
+      })
+
+      if (validated?.ok && !isCurrentKey(challenge.question, validated.key)) {
+        const previousQuestions = await prisma.question.findMany({
+          where: { examId },
+        })
+        await prisma.$transaction([
+          ...keyUpdateOperations({
+            question: challenge.question,
+            newKey: validated.key,
+            actorId: req.user.userId,
+            reason: resolutionNote ?? `Accepted challenge: ${challenge.justification}`,
+          }),
+          resolve,
+        ])
+        await notifyExamChange({
+          examId,
+          kind: 'KEY_UPDATE',
+          body: `Question ${challenge.question.questionNumber} has a new answer key after a challenge was accepted.`,
+          previousQuestions,
+        })
+        await rescorePeerStats(examId)
+      } else {
+        await resolve
+      }
+
+      return res.json({ challenges: await listChallenges(examId, req.user.userId) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+export default router
@@ -0,0 +1,278 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import {
+  hasCurrentRole,
+  requireAuth,
+  requireRole,
+  type AuthRequest,
+} from '../middleware/auth.js'
+import {
+  publishDiscussionEvent,
+  subscribeDiscussionEvents,
+  type DiscussionEvent,
+} from '../services/discussionEvents.js'
+
+const router = Router({ mergeParams: true })
+
+const MAX_POST_LENGTH = 4000
+const SSE_HEARTBEAT_MS = 25000
+
+const postInclude = { author: { select: { name: true } } } as const
+
+const serializePost = (post: {
+  id: string
+  questionId: string
+  parentId: string | null
+  authorId: string
+  body: string
+  pinned: boolean
+  deletedAt: Date | null
+  createdAt: Date
+  author: { name: string }
+}) => ({
+  id: post.id,
+  questionId: post.questionId,
+  parentId: post.parentId,
+  authorId: post.authorId,
+  authorName: post.author.name,
+  body: post.deletedAt ? '' : post.body,
+  pinned: post.pinned,
+  deleted: post.deletedAt !== null,
+  createdAt: post.createdAt.toISOString(),
+})
+
+const findAttemptQuestion = async (
+  attemptId: string,
+  questionId: string,
+  userId: string,
+) => {
+  const attempt = await prisma.attempt.findFirst({
+    where: { id: attemptId, userId },
+    select: { examId: true },
+  })
+  if (!attempt) {
+    return { error: 'Test not found.' } as const
+  }
+  const question = await prisma.question.findFirst({
+    where: { id: questionId, examId: attempt.examId },
+    select: { id: true },
+  })
+  if (!question) {
+    return { error: 'Question not found.' } as const
+  }
+  return { questionId: question.id } as const
+}
+
+const findQuestionPost = (questionId: string, postId: string) =>
+  prisma.discussionPost.findFirst({
+    where: { id: postId, questionId },
+  })
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    const posts = await prisma.discussionPost.findMany({
+      where: { questionId: found.questionId },
+      include: postInclude,
+      orderBy: { createdAt: 'asc' },
+    })
+    return res.json({ posts: posts.map(serializePost) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/events', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    res.status(200)
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache, no-transform')
+    res.setHeader('Connection', 'keep-alive')
+    res.setHeader('X-Accel-Buffering', 'no')
+    res.flushHeaders()
+    res.write('retry: 5000\n\n')
+
+    const unsubscribe = subscribeDiscussionEvents(
+      found.questionId,
+      (event: DiscussionEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      },
+    )
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n')
+    }, SSE_HEARTBEAT_MS)
+
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { body, parentId } = req.body as { body?: unknown; parentId?: unknown }
+    if (typeof body !== 'string' || body.trim().length === 0) {
+      return res.status(400).json({ error: 'body is required.' })
+    }
+    if (body.length > MAX_POST_LENGTH) {
+      return res
+        .status(400)
+        .json({ error: `Posts are limited to ${MAX_POST_LENGTH} characters.` })
+    }
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      return res.status(400).json({ error: 'parentId must be a string.' })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    let threadId: string | null = null
+    if (parentId) {
+      const parent = await findQuestionPost(found.questionId, parentId)
+      if (!parent) {
+        return res.status(404).json({ error: 'Post not found.' })
+      }
+      threadId = parent.parentId ?? parent.id
+    }
+
+    const post = await prisma.discussionPost.create({
+      data: {
+        questionId: found.questionId,
+        authorId: req.user.userId,
+        parentId: threadId,
+        body: body.trim(),
+      },
+      include: postInclude,
+    })
+    const serialized = serializePost(post)
+    publishDiscussionEvent({ type: 'post', post: serialized })
+
+    return res.status(201).json({ post: serialized })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.patch(
+  '/:postId',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' })
+      }
+
+      const { pinned } = req.body as { pinned?: unknown }
+      if (typeof pinned !== 'boolean') {
+        return res.status(400).json({ error: 'pinned must be a boolean.' })
+      }
+
+      const found = await findAttemptQuestion(
+        req.params.id,
+        req.params.questionId,
+        req.user.userId,
+      )
+      if ('error' in found) {
+        return res.status(404).json({ error: found.error })
+      }
+
+      const existing = await findQuestionPost(found.questionId, req.params.postId)
+      if (!existing || existing.deletedAt) {
+        return res.status(404).json({ error: 'Post not found.' })
+      }
+
+      const post = await prisma.discussionPost.update({
+        where: { id: existing.id },
+        data: { pinned },
+        include: postInclude,
+      })
+      const serialized = serializePost(post)
+      publishDiscussionEvent({ type: 'post', post: serialized })
+
+      return res.json({ post: serialized })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+router.delete('/:postId', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    const existing = await findQuestionPost(found.questionId, req.params.postId)
+    if (!existing || existing.deletedAt) {
+      return res.status(404).json({ error: 'Post not found.' })
+    }
+    if (
+      existing.authorId !== req.user.userId &&
+      !(await hasCurrentRole(req.user.userId, 'ADMIN'))
+    ) {
+      return res.status(403).json({ error: 'You do not have permission to do that.' })
+    }
+
+    const post = await prisma.discussionPost.update({
+      where: { id: existing.id },
+      data: { deletedAt: new Date(), pinned: false },
+      include: postInclude,
+    })
+    const serialized = serializePost(post)
+    publishDiscussionEvent({ type: 'post', post: serialized })
+
+    return res.json({ post: serialized })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -1,30 +1,48 @@
 import { Router } from 'express'
 import { prisma } from '../db.js'
 import { requireAuth, type AuthRequest } from '../middleware/auth.js'
-import type { ScrapeProgress } from '../scraper/types.js'
-import { verifyTestZ7iLogin } from '../scraper/testZ7iScraperV2.js'
-import { syncExternalAccount } from '../services/syncService.js'
-import { decryptSecret, encryptSecret } from '../utils/crypto.js'
+import {
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  listProviders,
+} from '../providers/registry.js'
+import {
+  enqueueSyncJob,
+  findActiveSyncJob,
+  findActiveSyncJobIds,
+  serializeSyncJob,
+} from '../services/syncJobService.js'
+import {
+  getSyncEventSnapshot,
+  subscribeSyncEvents,
+  type SyncEvent,
+} from '../services/syncEvents.js'
+import { encryptSecret } from '../utils/crypto.js'
 
 const router = Router()
 
+const SSE_HEARTBEAT_MS = 25000
+
 const isNonEmptyString = (value: unknown): value is string =>
   typeof value === 'string' && value.trim().length > 0
 
-const serializeAccount = (account: {
-  id: string
-  userId: string
-  provider: string
-  username: string
-  status: string
-  syncStatus: string
-  syncTotal: number
-  syncCompleted: number
-  syncStartedAt: Date | null
-  syncFinishedAt: Date | null
-  lastSyncAt: Date | null
-  statusMessage: string | null
-}) => ({
+const serializeAccount = (
+  account: {
+    id: string
+    userId: string
+    provider: string
+    username: string
+    status: string
+    syncStatus: string
+    syncTotal: number
+    syncCompleted: number
+    syncStartedAt: Date | null
+    syncFinishedAt: Date | null
+    lastSyncAt: Date | null
+    statusMessage: string | null
+  },
+  activeJobId: string | null = null,
+) => ({
   id: account.id,
   userId: account.userId,
   provider: account.provider,
@@ -37,6 +55,7 @@ const serializeAccount = (account: {
   syncFinishedAt: account.syncFinishedAt,
   lastSyncAt: account.lastSyncAt,
   statusMessage: account.statusMessage,
+  activeJobId,
 })
 
 router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
@@ -48,13 +67,24 @@ router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
     const accounts = await prisma.externalAccount.findMany({
       where: { userId: req.user.userId },
     })
+    const activeJobIds = await findActiveSyncJobIds(
+      accounts.map((account) => account.id),
+    )
 
-    return res.json({ accounts: accounts.map(serializeAccount) })
+    return res.json({
+      accounts: accounts.map((account) =>
+        serializeAccount(account, activeJobIds.get(account.id) ?? null),
+      ),
+    })
   } catch (error) {
     return next(error)
   }
 })
 
+router.get('/providers', requireAuth, (_req: AuthRequest, res) => {
+  return res.json({ providers: listProviders() })
+})
+
 router.post('/connect', requireAuth, async (req: AuthRequest, res, next) => {
   try {
     const { username, password, provider, verificationCode } = req.body as {
@@ -72,13 +102,14 @@ router.post('/connect', requireAuth, async (req: AuthRequest, res, next) => {
       return res.status(400).json({ error: 'Username and password are required.' })
     }
 
-    const providerValue = provider?.trim() || 'test.z7i.in'
-    if (providerValue !== 'test.z7i.in') {
+    const adapter = getProvider(provider?.trim() || DEFAULT_PROVIDER_ID)
+    if (!adapter) {
       return res.status(400).json({ error: 'Unsupported provider.' })
     }
+    const providerValue = adapter.id
 
     try {
-      await verifyTestZ7iLogin({
+      await adapter.verifyLogin({
         username: username.trim(),
         password,
         verificationCode:
@@ -143,7 +174,8 @@ router.post('/sync', requireAuth, async (req: AuthRequest, res, next) => {
       return res.status(401).json({ error: 'Unauthorized.' })
     }
 
-    const provider = (req.body?.provider as string | undefined)?.trim() || 'test.z7i.in'
+    const provider =
+      (req.body?.provider as string | undefined)?.trim() || DEFAULT_PROVIDER_ID
     const verificationCode =
       typeof req.body?.verificationCode === 'string'
         ? req.body.verificationCode.trim()
@@ -155,6 +187,7 @@ router.post('/sync', requireAuth, async (req: AuthRequest, res, next) => {
         )
       : undefined
     const attemptsOnly = Boolean(req.body?.attemptsOnly)
+    const forceAllAttempts = Boolean(req.body?.forceAllAttempts)
 
     const account = await prisma.externalAccount.findUnique({
       where: {
@@ -170,83 +203,100 @@ router.post('/sync', requireAuth, async (req: AuthRequest, res, next) => {
       return res.status(404).json({ error: 'External account not connected.' })
     }
 
-    if (account.syncStatus === 'SYNCING') {
-      return res.status(409).json({ error: 'Sync already in progress.' })
+    const activeJob = await findActiveSyncJob(account.id)
+    if (activeJob) {
+      return res.status(409).json({
+        error: 'Sync already in progress.',
+        job: serializeSyncJob(activeJob),
+      })
     }
 
-    const syncStartedAt = new Date()
-    await prisma.externalAccount.update({
-      where: { id: account.id },
-      data: {
-        status: 'CONNECTED',
-        statusMessage: null,
-        syncStatus: 'SYNCING',
-        syncTotal: 0,
-        syncCompleted: 0,
-        syncStartedAt,
-        syncFinishedAt: null,
-      },
-    })
+    // Clients only hold one page of tests, so "resync everything" is resolved
+    // here from the caller's attempts for this provider.
+    const forcedExamIds = forceAllAttempts
+      ? (
+          await prisma.attempt.findMany({
+            where: { userId: req.user.userId, exam: { provider } },
+            select: { exam: { select: { externalExamId: true } } },
+          })
+        ).flatMap((attempt) =>
+          attempt.exam.externalExamId ? [attempt.exam.externalExamId] : [],
+        )
+      : forceAttemptExamIds
+    if (forceAllAttempts && forcedExamIds?.length === 0) {
+      return res.status(400).json({ error: 'No external tests available to resync.' })
+    }
 
-    const password = decryptSecret({
-      encrypted: account.credential.encryptedPassword,
-      iv: account.credential.iv,
-      tag: account.credential.tag,
+    const queued = await enqueueSyncJob({
+      userId: req.user.userId,
+      accountId: account.id,
+      kind: 'SYNC',
+      options: { verificationCode, forceAttemptExamIds: forcedExamIds, attemptsOnly },
     })
 
-    const result = await syncExternalAccount({
-      userId: req.user.userId,
-      provider: account.provider,
-      username: account.username,
-      password,
-      verificationCode,
-      forceAttemptExamIds,
-      attemptsOnly,
-      onProgress: async (progress: ScrapeProgress) => {
-        try {
-          await prisma.externalAccount.update({
-            where: { id: account.id },
-            data: {
-              syncTotal: progress.total,
-              syncCompleted: progress.completed,
-            },
-          })
-        } catch (progressError) {
-          console.error(progressError)
-        }
-      },
+    return res.status(202).json({
+      account: serializeAccount(queued.account, queued.job.id),
+      job: serializeSyncJob(queued.job),
     })
+  } catch (error) {
+    return next(error)
+  }
+})
 
-    const now = new Date()
-    const updated = await prisma.externalAccount.update({
-      where: { id: account.id },
-      data: {
-        status: 'CONNECTED',
-        statusMessage: null,
-        lastSyncAt: now,
-        syncStatus: 'IDLE',
-        syncFinishedAt: now,
-      },
+router.get('/sync/events', requireAuth, (req: AuthRequest, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized.' })
+  }
+
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+  res.write('retry: 5000\n\n')
+
+  const send = (event: SyncEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+  }
+
+  getSyncEventSnapshot(req.user.userId).forEach(send)
+  const unsubscribe = subscribeSyncEvents(req.user.userId, send)
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n')
+  }, SSE_HEARTBEAT_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+})
+
+router.get('/jobs/:id', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const job = await prisma.syncJob.findFirst({
+      where: { id: req.params.id, userId: req.user.userId },
+      include: { account: true },
     })
 
+    if (!job) {
+      return res.status(404).json({ error: 'Sync job not found.' })
+    }
+
+    const isActive = job.status === 'QUEUED' || job.status === 'RUNNING'
+    const activeJobId = isActive
+      ? job.id
+      : ((await findActiveSyncJob(job.accountId))?.id ?? null)
+
     return res.json({
-      account: serializeAccount(updated),
-      result,
+      job: serializeSyncJob(job),
+      account: serializeAccount(job.account, activeJobId),
     })
   } catch (error) {
-    if (req.user && typeof req.body?.provider === 'string') {
-      const provider = req.body.provider.trim() || 'test.z7i.in'
-      await prisma.externalAccount.updateMany({
-        where: { userId: req.user.userId, provider },
-        data: {
-          status: 'ERROR',
-          statusMessage:
-            error instanceof Error ? error.message : 'Sync failed. Check logs.',
-          syncStatus: 'ERROR',
-          syncFinishedAt: new Date(),
-        },
-      })
-    }
     return next(error)
   }
 })
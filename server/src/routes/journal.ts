@@ -0,0 +1,66 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+import { parseStoredJson } from '../services/attemptScoring.js'
+import { parseAnnotations } from '../../../shared/mistakes.js'
+
+const router = Router()
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const attempts = await prisma.attempt.findMany({
+      where: { userId: req.user.userId },
+      select: {
+        id: true,
+        annotations: true,
+        exam: {
+          select: {
+            title: true,
+            examDate: true,
+            questions: {
+              select: { id: true, questionNumber: true, subject: true, qtype: true },
+            },
+          },
+        },
+      },
+    })
+
+    const entries = attempts.flatMap((attempt) => {
+      const annotations = parseAnnotations(parseStoredJson(attempt.annotations))
+      return attempt.exam.questions.flatMap((question) => {
+        const annotation = annotations[question.id]
+        if (!annotation) {
+          return []
+        }
+        return [
+          {
+            testId: attempt.id,
+            testTitle: attempt.exam.title,
+            examDate: attempt.exam.examDate,
+            questionId: question.id,
+            questionNumber: question.questionNumber,
+            subject: question.subject,
+            qtype: question.qtype,
+            ...annotation,
+          },
+        ]
+      })
+    })
+
+    entries.sort(
+      (a, b) =>
+        new Date(b.examDate).getTime() - new Date(a.examDate).getTime() ||
+        a.questionNumber - b.questionNumber,
+    )
+
+    return res.json({ entries })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,175 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+import { MAX_NOTE_LENGTH } from './questionNotes.js'
+
+const router = Router()
+
+const SEARCH_LIMIT = 50
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+    const notes = await prisma.questionNote.findMany({
+      where: {
+        userId: req.user.userId,
+        ...(query ? { body: { contains: query } } : {}),
+      },
+      include: {
+        question: {
+          select: {
+            questionNumber: true,
+            subject: true,
+            exam: {
+              select: {
+                title: true,
+                attempts: {
+                  where: { userId: req.user.userId },
+                  select: { id: true },
+                },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: SEARCH_LIMIT,
+    })
+
+    return res.json({
+      results: notes.flatMap((note) => {
+        const attempt = note.question.exam.attempts[0]
+        if (!attempt) {
+          return []
+        }
+        return [
+          {
+            id: note.id,
+            testId: attempt.id,
+            testTitle: note.question.exam.title,
+            questionId: note.questionId,
+            questionNumber: note.question.questionNumber,
+            subject: note.question.subject,
+            body: note.body,
+            updatedAt: note.updatedAt.toISOString(),
+          },
+        ]
+      }),
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/import', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { notes } = req.body as { notes?: unknown }
+    if (!Array.isArray(notes)) {
+      return res.status(400).json({ error: 'notes must be a list.' })
+    }
+
+    const entries = notes.filter(
+      (entry): entry is { testId: string; questionId: string; body: string } =>
+        Boolean(entry) &&
+        typeof entry.testId === 'string' &&
+        typeof entry.questionId === 'string' &&
+        typeof entry.body === 'string' &&
+        entry.body.trim().length > 0,
+    )
+    if (entries.length === 0) {
+      return res.json({ imported: 0, merged: 0, questionIds: [], skipped: [], conflicts: [] })
+    }
+
+    const attempts = await prisma.attempt.findMany({
+      where: {
+        userId: req.user.userId,
+        id: { in: Array.from(new Set(entries.map((entry) => entry.testId))) },
+      },
+      select: { id: true, exam: { select: { questions: { select: { id: true } } } } },
+    })
+    const questionIdsByAttempt = new Map(
+      attempts.map((attempt) => [
+        attempt.id,
+        new Set(attempt.exam.questions.map((question) => question.id)),
+      ]),
+    )
+    const existing = await prisma.questionNote.findMany({
+      where: { userId: req.user.userId },
+      select: { id: true, questionId: true, body: true },
+    })
+    const notesByQuestion = new Map(
+      existing.map((note) => [
+        note.questionId,
+        { id: note.id as string | null, body: note.body, changed: false },
+      ]),
+    )
+
+    // A local note is added below an existing server note unless the server
+    // note already holds it. Notes that are too long, or that would make the
+    // merged note too long, are reported so the client keeps its copy.
+    const handled = new Set<string>()
+    const skipped = new Set<string>()
+    const conflicts = new Set<string>()
+    for (const entry of entries) {
+      if (!questionIdsByAttempt.get(entry.testId)?.has(entry.questionId)) {
+        continue
+      }
+      if (entry.body.length > MAX_NOTE_LENGTH) {
+        skipped.add(entry.questionId)
+        continue
+      }
+      const current = notesByQuestion.get(entry.questionId)
+      if (!current) {
+        notesByQuestion.set(entry.questionId, { id: null, body: entry.body, changed: true })
+        handled.add(entry.questionId)
+        continue
+      }
+      if (current.body.includes(entry.body.trim())) {
+        handled.add(entry.questionId)
+        continue
+      }
+      const body = `${current.body.trimEnd()}\n\n${entry.body.trim()}`
+      if (body.length > MAX_NOTE_LENGTH) {
+        conflicts.add(entry.questionId)
+        continue
+      }
+      current.body = body
+      current.changed = true
+      handled.add(entry.questionId)
+    }
+
+    const { userId } = req.user
+    const writes = Array.from(notesByQuestion.entries()).filter(([, note]) => note.changed)
+    await prisma.$transaction(
+      writes.map(([questionId, note]) =>
+        note.id
+          ? prisma.questionNote.update({ where: { id: note.id }, data: { body: note.body } })
+          : prisma.questionNote.create({
+              data: { userId, questionId, body: note.body },
+            }),
+      ),
+    )
+
+    return res.json({
+      imported: writes.filter(([, note]) => !note.id).length,
+      merged: writes.filter(([, note]) => note.id).length,
+      questionIds: Array.from(handled).filter(
+        (questionId) => !skipped.has(questionId) && !conflicts.has(questionId),
+      ),
+      skipped: Array.from(skipped),
+      conflicts: Array.from(conflicts),
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
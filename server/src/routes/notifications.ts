@@ -0,0 +1,85 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+
+const router = Router()
+
+const NOTIFICATION_LIMIT = 50
+
+const serializeNotification = (notification: {
+  id: string
+  attemptId: string | null
+  kind: string
+  title: string
+  body: string
+  scoreDelta: number | null
+  readAt: Date | null
+  createdAt: Date
+}) => ({
+  id: notification.id,
+  testId: notification.attemptId,
+  kind: notification.kind.toLowerCase().replace('_', '-'),
+  title: notification.title,
+  body: notification.body,
+  scoreDelta: notification.scoreDelta,
+  read: notification.readAt !== null,
+  createdAt: notification.createdAt.toISOString(),
+})
+
+const listNotifications = async (userId: string) => {
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: NOTIFICATION_LIMIT,
+    }),
+    prisma.notification.count({ where: { userId, readAt: null } }),
+  ])
+  return {
+    notifications: notifications.map(serializeNotification),
+    unreadCount,
+  }
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    return res.json(await listNotifications(req.user.userId))
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.patch('/read', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { ids } = req.body as { ids?: unknown }
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string'))
+    ) {
+      return res.status(400).json({ error: 'ids must be a list of notification ids.' })
+    }
+
+    await prisma.notification.updateMany({
+      where: {
+        userId: req.user.userId,
+        readAt: null,
+        ...(ids ? { id: { in: ids as string[] } } : {}),
+      },
+      data: { readAt: new Date() },
+    })
+
+    return res.json(await listNotifications(req.user.userId))
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,324 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+import {
+  createPracticeExam,
+  isPracticeSource,
+  selectPracticeQuestions,
+} from '../services/practiceService.js'
+import { updatePeerStatsForAttempt } from '../services/peerStatsService.js'
+import { parseStoredJson } from '../services/attemptScoring.js'
+import {
+  isMultiSelectType,
+  normalizeNumericValue,
+  toOptionArray,
+} from '../../../shared/scoring.js'
+
+const router = Router()
+
+const MAX_PRACTICE_QUESTIONS = 90
+const MAX_PRACTICE_MINUTES = 300
+// Covers the last autosave and a submit sent as the clock hits zero.
+const DEADLINE_GRACE_MS = 30_000
+
+const serializeJson = (value: unknown) => JSON.stringify(value ?? null)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+const toRecord = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+
+const sessionInclude = {
+  exam: {
+    select: {
+      title: true,
+      questions: { orderBy: { questionNumber: 'asc' } },
+    },
+  },
+} as const
+
+type SessionWithExam = {
+  id: string
+  attemptId: string | null
+  source: string
+  durationSec: number
+  answers: string
+  timings: string
+  startedAt: Date
+  endsAt: Date
+  submittedAt: Date | null
+  exam: {
+    title: string
+    questions: Array<{
+      id: string
+      questionNumber: number
+      subject: string
+      qtype: string
+      questionContent: string
+      optionContentA: string | null
+      optionContentB: string | null
+      optionContentC: string | null
+      optionContentD: string | null
+    }>
+  }
+}
+
+const serializeSession = (session: SessionWithExam, withQuestions = false) => ({
+  id: session.id,
+  testId: session.attemptId,
+  title: session.exam.title,
+  source: session.source,
+  durationSec: session.durationSec,
+  questionCount: session.exam.questions.length,
+  startedAt: session.startedAt.toISOString(),
+  endsAt: session.endsAt.toISOString(),
+  submittedAt: session.submittedAt ? session.submittedAt.toISOString() : null,
+  ...(withQuestions
+    ? {
+        answers: toRecord(parseStoredJson(session.answers)),
+        timings: toRecord(parseStoredJson(session.timings)),
+        questions: session.exam.questions.map((question) => ({
+          id: question.id,
+          questionNumber: question.questionNumber,
+          subject: question.subject,
+          qtype: question.qtype,
+          questionContent: question.questionContent,
+          optionContentA: question.optionContentA,
+          optionContentB: question.optionContentB,
+          optionContentC: question.optionContentC,
+          optionContentD: question.optionContentD,
+        })),
+      }
+    : {}),
+})
+
+// Stores answers in the same shape synced attempts use, so scoring treats a
+// practice attempt like any other.
+const normalizeProgress = (
+  questions: Array<{ id: string; qtype: string }>,
+  body: { answers?: unknown; timings?: unknown },
+) => {
+  const rawAnswers = toRecord(body.answers)
+  const rawTimings = toRecord(body.timings)
+  const answers: Record<string, unknown> = {}
+  const timings: Record<string, number> = {}
+  questions.forEach((question) => {
+    const raw = rawAnswers[question.id]
+    if (question.qtype === 'NAT') {
+      answers[question.id] = normalizeNumericValue(raw)
+    } else {
+      const options = Array.from(new Set(toOptionArray(raw))).sort()
+      answers[question.id] =
+        options.length === 0 ? null : isMultiSelectType(question.qtype) ? options : options[0]
+    }
+    const time = rawTimings[question.id]
+    timings[question.id] =
+      typeof time === 'number' && Number.isFinite(time) && time > 0 ? Math.round(time) : 0
+  })
+  return { answers, timings }
+}
+
+const isPastDeadline = (session: { endsAt: Date }) =>
+  Date.now() > session.endsAt.getTime() + DEADLINE_GRACE_MS
+
+const findUserSession = (userId: string, sessionId: string) =>
+  prisma.practiceSession.findFirst({
+    where: { id: sessionId, userId },
+    include: sessionInclude,
+  })
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const sessions = await prisma.practiceSession.findMany({
+      where: { userId: req.user.userId },
+      include: sessionInclude,
+      orderBy: { startedAt: 'desc' },
+    })
+    return res.json({ sessions: sessions.map((session) => serializeSession(session)) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { subjects, qtypes, count, durationMinutes, source } = req.body as {
+      subjects?: unknown
+      qtypes?: unknown
+      count?: unknown
+      durationMinutes?: unknown
+      source?: unknown
+    }
+
+    if (subjects !== undefined && !isStringList(subjects)) {
+      return res.status(400).json({ error: 'subjects must be a list of strings.' })
+    }
+    if (qtypes !== undefined && !isStringList(qtypes)) {
+      return res.status(400).json({ error: 'qtypes must be a list of strings.' })
+    }
+    if (
+      typeof count !== 'number' ||
+      !Number.isInteger(count) ||
+      count < 1 ||
+      count > MAX_PRACTICE_QUESTIONS
+    ) {
+      return res
+        .status(400)
+        .json({ error: `count must be between 1 and ${MAX_PRACTICE_QUESTIONS}.` })
+    }
+    if (
+      typeof durationMinutes !== 'number' ||
+      !Number.isInteger(durationMinutes) ||
+      durationMinutes < 1 ||
+      durationMinutes > MAX_PRACTICE_MINUTES
+    ) {
+      return res.status(400).json({
+        error: `durationMinutes must be between 1 and ${MAX_PRACTICE_MINUTES}.`,
+      })
+    }
+    if (!isPracticeSource(source)) {
+      return res
+        .status(400)
+        .json({ error: 'source must be all, mine-wrong or peers-wrong.' })
+    }
+
+    const questions = await selectPracticeQuestions({
+      userId: req.user.userId,
+      subjects: subjects ?? [],
+      qtypes: qtypes ?? [],
+      count,
+      source,
+    })
+    if (questions.length === 0) {
+      return res.status(400).json({ error: 'No questions match those filters.' })
+    }
+
+    const created = await createPracticeExam({
+      userId: req.user.userId,
+      questions,
+      source,
+      durationSec: durationMinutes * 60,
+    })
+    const session = await findUserSession(req.user.userId, created.id)
+    if (!session) {
+      return res.status(404).json({ error: 'Practice test not found.' })
+    }
+
+    return res.status(201).json({ session: serializeSession(session, true) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/:id', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const session = await findUserSession(req.user.userId, req.params.id)
+    if (!session) {
+      return res.status(404).json({ error: 'Practice test not found.' })
+    }
+
+    return res.json({ session: serializeSession(session, true) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.put('/:id', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const session = await findUserSession(req.user.userId, req.params.id)
+    if (!session) {
+      return res.status(404).json({ error: 'Practice test not found.' })
+    }
+    if (session.submittedAt) {
+      return res.status(409).json({ error: 'This practice test is already submitted.' })
+    }
+    if (isPastDeadline(session)) {
+      return res.status(409).json({ error: 'Time is up for this practice test.' })
+    }
+
+    const { answers, timings } = normalizeProgress(session.exam.questions, req.body ?? {})
+    await prisma.practiceSession.update({
+      where: { id: session.id },
+      data: { answers: serializeJson(answers), timings: serializeJson(timings) },
+    })
+
+    return res.json({ ok: true })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/:id/submit', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const session = await findUserSession(req.user.userId, req.params.id)
+    if (!session) {
+      return res.status(404).json({ error: 'Practice test not found.' })
+    }
+    if (session.submittedAt) {
+      return res.status(409).json({
+        error: 'This practice test is already submitted.',
+        testId: session.attemptId,
+      })
+    }
+
+    // A late submit is still accepted so the test can be finished, but only
+    // the progress saved before time ran out is scored.
+    const late = isPastDeadline(session)
+    const { answers, timings } = normalizeProgress(
+      session.exam.questions,
+      late
+        ? { answers: parseStoredJson(session.answers), timings: parseStoredJson(session.timings) }
+        : req.body ?? {},
+    )
+    const storedAnswers = serializeJson(answers)
+    const storedTimings = serializeJson(timings)
+    const submitted = await prisma.practiceSession.update({
+      where: { id: session.id },
+      data: {
+        answers: storedAnswers,
+        timings: storedTimings,
+        submittedAt: new Date(),
+        attempt: {
+          create: {
+            user: { connect: { id: req.user.userId } },
+            exam: { connect: { id: session.examId } },
+            answers: storedAnswers,
+            timings: storedTimings,
+          },
+        },
+      },
+    })
+    if (submitted.attemptId) {
+      await updatePeerStatsForAttempt(submitted.attemptId)
+    }
+
+    return res.status(201).json({ testId: submitted.attemptId })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,141 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+
+const router = Router({ mergeParams: true })
+
+export const MAX_NOTE_LENGTH = 20000
+
+export const serializeNote = (note: {
+  id: string
+  questionId: string
+  body: string
+  updatedAt: Date
+}) => ({
+  id: note.id,
+  questionId: note.questionId,
+  body: note.body,
+  updatedAt: note.updatedAt.toISOString(),
+})
+
+const findAttemptQuestion = async (
+  attemptId: string,
+  questionId: string,
+  userId: string,
+) => {
+  const attempt = await prisma.attempt.findFirst({
+    where: { id: attemptId, userId },
+    select: { examId: true },
+  })
+  if (!attempt) {
+    return { error: 'Test not found.' } as const
+  }
+  const question = await prisma.question.findFirst({
+    where: { id: questionId, examId: attempt.examId },
+    select: { id: true },
+  })
+  if (!question) {
+    return { error: 'Question not found.' } as const
+  }
+  return { questionId: question.id } as const
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    const note = await prisma.questionNote.findUnique({
+      where: {
+        userId_questionId: {
+          userId: req.user.userId,
+          questionId: found.questionId,
+        },
+      },
+    })
+    return res.json({ note: note ? serializeNote(note) : null })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.put('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { body } = req.body as { body?: unknown }
+    if (typeof body !== 'string' || body.trim().length === 0) {
+      return res.status(400).json({ error: 'body is required.' })
+    }
+    if (body.length > MAX_NOTE_LENGTH) {
+      return res
+        .status(400)
+        .json({ error: `Notes are limited to ${MAX_NOTE_LENGTH} characters.` })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    const note = await prisma.questionNote.upsert({
+      where: {
+        userId_questionId: {
+          userId: req.user.userId,
+          questionId: found.questionId,
+        },
+      },
+      update: { body },
+      create: {
+        userId: req.user.userId,
+        questionId: found.questionId,
+        body,
+      },
+    })
+    return res.json({ note: serializeNote(note) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.delete('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const found = await findAttemptQuestion(
+      req.params.id,
+      req.params.questionId,
+      req.user.userId,
+    )
+    if ('error' in found) {
+      return res.status(404).json({ error: found.error })
+    }
+
+    await prisma.questionNote.deleteMany({
+      where: { userId: req.user.userId, questionId: found.questionId },
+    })
+    return res.json({ note: null })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,143 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, type AuthRequest } from '../middleware/auth.js'
+import {
+  parseKeyOverrides,
+  resolveQuestionKey,
+} from '../services/attemptScoring.js'
+import {
+  reviewQuality,
+  scheduleReview,
+  syncRevisionDeck,
+} from '../services/revisionService.js'
+import { scoreQuestion } from '../../../shared/scoring.js'
+
+const router = Router()
+
+const cardInclude = {
+  attempt: { select: { keyOverrides: true, exam: { select: { title: true } } } },
+  question: true,
+} as const
+
+const serializeCard = (card: {
+  id: string
+  attemptId: string
+  questionId: string
+  easeFactor: number
+  interval: number
+  repetitions: number
+  dueAt: Date
+  reviewCount: number
+  correctCount: number
+  lastStatus: string | null
+  lastReviewedAt: Date | null
+  attempt: { exam: { title: string } }
+  question: { questionNumber: number; subject: string; qtype: string }
+}) => ({
+  id: card.id,
+  testId: card.attemptId,
+  testTitle: card.attempt.exam.title,
+  questionId: card.questionId,
+  questionNumber: card.question.questionNumber,
+  subject: card.question.subject,
+  qtype: card.question.qtype,
+  easeFactor: card.easeFactor,
+  interval: card.interval,
+  repetitions: card.repetitions,
+  dueAt: card.dueAt.toISOString(),
+  reviewCount: card.reviewCount,
+  correctCount: card.correctCount,
+  lastStatus: card.lastStatus,
+  lastReviewedAt: card.lastReviewedAt ? card.lastReviewedAt.toISOString() : null,
+})
+
+const findUserCard = (userId: string, cardId: string) =>
+  prisma.reviewCard.findFirst({
+    where: { id: cardId, userId },
+    include: cardInclude,
+  })
+
+router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    await syncRevisionDeck(req.user.userId)
+    const cards = await prisma.reviewCard.findMany({
+      where: { userId: req.user.userId },
+      include: cardInclude,
+      orderBy: { dueAt: 'asc' },
+    })
+    return res.json({ cards: cards.map(serializeCard) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/:cardId', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const card = await findUserCard(req.user.userId, req.params.cardId)
+    if (!card) {
+      return res.status(404).json({ error: 'Card not found.' })
+    }
+
+    return res.json({
+      card: serializeCard(card),
+      question: {
+        questionContent: card.question.questionContent,
+        optionContentA: card.question.optionContentA,
+        optionContentB: card.question.optionContentB,
+        optionContentC: card.question.optionContentC,
+        optionContentD: card.question.optionContentD,
+      },
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/:cardId/review', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { answer } = req.body as { answer?: unknown }
+    const card = await findUserCard(req.user.userId, req.params.cardId)
+    if (!card) {
+      return res.status(404).json({ error: 'Card not found.' })
+    }
+
+    const key = resolveQuestionKey(
+      card.question,
+      parseKeyOverrides(card.attempt.keyOverrides),
+    )
+    const result = scoreQuestion(card.question, answer ?? null, key)
+    const now = new Date()
+    const updated = await prisma.reviewCard.update({
+      where: { id: card.id },
+      data: {
+        ...scheduleReview(card, reviewQuality[result.status], now),
+        reviewCount: { increment: 1 },
+        correctCount: result.status === 'correct' ? { increment: 1 } : undefined,
+        lastStatus: result.status,
+        lastReviewedAt: now,
+      },
+      include: cardInclude,
+    })
+
+    return res.json({
+      card: serializeCard(updated),
+      result: { status: result.status, mark: result.mark, key },
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
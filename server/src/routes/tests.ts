@@ -1,31 +1,48 @@
 ﻿import { Router } from 'express'
 import { prisma } from '../db.js'
-import { requireAuth, type AuthRequest } from '../middleware/auth.js'
-import type { ScrapeProgress } from '../scraper/types.js'
-import { syncExternalAccount } from '../services/syncService.js'
-import { decryptSecret } from '../utils/crypto.js'
+import { requireAuth, requireRole, type AuthRequest } from '../middleware/auth.js'
+import {
+  analysisQuestionSelect,
+  getAttemptAnalyses,
+  readKeySource,
+} from '../services/analysisService.js'
+import { parseKeyOverrides, parseStoredJson } from '../services/attemptScoring.js'
+import {
+  isCurrentKey,
+  keyUpdateOperations,
+  normalizeKeyInput,
+} from '../services/answerKeyService.js'
+import {
+  getPeerStats,
+  rescorePeerStats,
+  type PeerStats,
+} from '../services/peerStatsService.js'
+import { getScoreDistribution } from '../services/scoreDistributionService.js'
+import {
+  MANUAL_PROVIDER,
+  parseManualImport,
+} from '../services/importService.js'
+import {
+  enqueueSyncJob,
+  findActiveSyncJob,
+  serializeSyncJob,
+} from '../services/syncJobService.js'
+import { notifyExamChange } from '../services/notificationService.js'
+import { importReport } from '../services/syncService.js'
+import {
+  isMultiSelectType,
+  isPartialPolicy,
+  type PartialPolicy,
+} from '../../../shared/scoring.js'
+import {
+  MAX_ANNOTATION_REASON_LENGTH,
+  isMistakeTag,
+  parseAnnotations,
+} from '../../../shared/mistakes.js'
+import type { AnalysisKeySource } from '../../../shared/analysis.js'
 
 const router = Router()
 
-const parseStoredJson = (value: string | null) => {
-  if (value === null) {
-    return null
-  }
-  try {
-    return JSON.parse(value) as unknown
-  } catch {
-    return value
-  }
-}
-
-const resolveQuestionKey = (question: {
-  keyUpdate: string | null
-  correctAnswer: string
-}) => {
-  const updated = parseStoredJson(question.keyUpdate)
-  return updated ?? parseStoredJson(question.correctAnswer)
-}
-
 const serializeJson = (value: unknown) => JSON.stringify(value ?? null)
 
 const serializeAttempt = (
@@ -34,10 +51,12 @@ const serializeAttempt = (
     userId: string
     answers: string
     timings: string
-    bookmarks: string
+    annotations: string
+    keyOverrides: string
     rank: number | null
     exam: {
       id: string
+      provider: string
       externalExamId: string | null
       title: string
       examDate: string
@@ -56,46 +75,39 @@ const serializeAttempt = (
         correctMarking: number
         incorrectMarking: number
         unattemptedMarking: number
+        partialMarking: number
+        partialPolicy: string
         questionNumber: number
         lastKeyUpdateTime: Date | null
+        topicId: string | null
       }>
     }
   },
-  peerTimings: Record<string, number> = {},
-  peerAnswerStats: Record<
-    string,
-    {
-      total: number
-      unattempted: number
-      correct: number
-      incorrect: number
-      options: Record<string, number>
-    }
-  > = {},
+  peers: PeerStats = {
+    peerTimings: {},
+    peerAnswerStats: {},
+  },
 ) => {
   const sortedQuestions = [...attempt.exam.questions].sort(
     (a, b) => a.questionNumber - b.questionNumber,
   )
   const answers = parseStoredJson(attempt.answers) ?? {}
   const timings = parseStoredJson(attempt.timings) ?? {}
-  const rawBookmarks = parseStoredJson(attempt.bookmarks)
-  const bookmarks =
-    rawBookmarks && typeof rawBookmarks === 'object'
-      ? (rawBookmarks as Record<string, boolean>)
-      : {}
 
   return {
     id: attempt.id,
     userId: attempt.userId,
+    provider: attempt.exam.provider,
     externalExamId: attempt.exam.externalExamId ?? undefined,
     title: attempt.exam.title,
     examDate: attempt.exam.examDate,
     rank: attempt.rank ?? null,
     answers,
     timings,
-    peerTimings,
-    peerAnswerStats,
-    bookmarks,
+    peerTimings: peers.peerTimings,
+    peerAnswerStats: peers.peerAnswerStats,
+    annotations: parseAnnotations(parseStoredJson(attempt.annotations)),
+    keyOverrides: parseKeyOverrides(attempt.keyOverrides),
     questions: sortedQuestions.map((question) => ({
       id: question.id,
       subject: question.subject,
@@ -111,328 +123,131 @@ const serializeAttempt = (
       correctMarking: question.correctMarking,
       incorrectMarking: question.incorrectMarking,
       unattemptedMarking: question.unattemptedMarking,
+      partialMarking: question.partialMarking,
+      partialPolicy: question.partialPolicy,
       questionNumber: question.questionNumber,
       lastKeyUpdateTime: question.lastKeyUpdateTime
         ? question.lastKeyUpdateTime.toISOString()
         : null,
+      topicId: question.topicId,
     })),
   }
 }
 
-const buildPeerTimings = (attempts: Array<{ timings: string }>) => {
-  const totals = new Map<string, { sum: number; count: number }>()
-  attempts.forEach((attempt) => {
-    const parsed = parseStoredJson(attempt.timings)
-    if (!parsed || typeof parsed !== 'object') {
-      return
-    }
-    Object.entries(parsed as Record<string, unknown>).forEach(([questionId, value]) => {
-      const numeric = typeof value === 'number' && Number.isFinite(value) ? value : 0
-      const current = totals.get(questionId) ?? { sum: 0, count: 0 }
-      totals.set(questionId, {
-        sum: current.sum + numeric,
-        count: current.count + 1,
-      })
-    })
-  })
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
 
-  const result: Record<string, number> = {}
-  totals.forEach((data, questionId) => {
-    if (data.count > 0) {
-      result[questionId] = Math.round(data.sum / data.count)
-    }
-  })
-  return result
+const readPageParam = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'string' ? Number(value) : Number.NaN
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
 }
 
-const splitByOr = (value: string) =>
-  value
-    .split(/\s+(?:OR)\s+|\s*\|\s*/i)
-    .map((item) => item.trim())
-    .filter(Boolean)
-
-const isRangeValue = (value: unknown): value is { min: number; max: number } =>
-  Boolean(
-    value &&
-      typeof value === 'object' &&
-      'min' in value &&
-      'max' in value &&
-      typeof (value as { min?: unknown }).min === 'number' &&
-      typeof (value as { max?: unknown }).max === 'number',
-  )
-
-const normalizeNumericValue = (value: unknown): number | { min: number; max: number } | null => {
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    return value
-  }
-  if (isRangeValue(value)) {
-    return value.min === value.max ? value.min : value
-  }
-  if (typeof value === 'string') {
-    const trimmed = value.replace(/[---]/g, '-').trim()
-    if (!trimmed) {
-      return null
-    }
-    const rangeMatch = trimmed.match(
-      /(-?\d+(?:\.\d+)?)\s*(?:to|-)\s*(-?\d+(?:\.\d+)?)/i,
-    )
-    if (rangeMatch) {
-      const min = Number(rangeMatch[1])
-      const max = Number(rangeMatch[2])
-      if (!Number.isNaN(min) && !Number.isNaN(max)) {
-        return min === max ? min : { min, max }
-      }
-    }
-    const numeric = Number(trimmed)
-    if (!Number.isNaN(numeric)) {
-      return numeric
-    }
-  }
-  return null
-}
+const testSorts = [
+  'date-desc',
+  'date-asc',
+  'score-desc',
+  'score-asc',
+  'rank-asc',
+  'rank-desc',
+] as const
 
-const getKeyNumericAlternatives = (value: unknown) => {
-  if (typeof value === 'string') {
-    const segments = splitByOr(value)
-    return segments
-      .map((segment) => normalizeNumericValue(segment))
-      .filter((item): item is number | { min: number; max: number } => item !== null)
-  }
-  const normalized = normalizeNumericValue(value)
-  return normalized === null ? [] : [normalized]
-}
+type TestSort = (typeof testSorts)[number]
 
-const toOptionArray = (value: unknown): string[] => {
-  if (Array.isArray(value)) {
-    return value.map((item) => String(item).trim().toUpperCase()).filter(Boolean)
-  }
-  if (typeof value === 'string') {
-    const segments = splitByOr(value)
-    if (segments.length === 0) {
-      return []
-    }
-    return segments.flatMap((segment) => {
-      const normalized = segment.trim().toUpperCase()
-      if (!normalized) {
-        return []
-      }
-      if (normalized.includes(',')) {
-        return normalized
-          .split(',')
-          .map((item) => item.trim().toUpperCase())
-          .filter(Boolean)
-      }
-      if (/^[A-Z]+$/.test(normalized)) {
-        return normalized.split('')
-      }
-      return [normalized]
-    })
+const readTestSort = (value: unknown): TestSort | null => {
+  if (value === undefined || value === '') {
+    return 'date-desc'
   }
-  return []
+  return typeof value === 'string' && (testSorts as readonly string[]).includes(value)
+    ? (value as TestSort)
+    : null
 }
 
-const isBonusKey = (value: unknown) =>
-  Boolean(
-    value &&
-      typeof value === 'object' &&
-      !Array.isArray(value) &&
-      'bonus' in value &&
-      (value as { bonus?: unknown }).bonus === true,
-  )
-
-const isNumericCorrect = (selected: unknown, key: unknown) => {
-  if (isBonusKey(key)) {
-    return true
-  }
-  const selectedNumeric = normalizeNumericValue(selected)
-  if (selectedNumeric === null || typeof selectedNumeric !== 'number') {
-    return false
-  }
-  const keyAlternatives = getKeyNumericAlternatives(key)
-  if (keyAlternatives.length === 0) {
-    return false
+const readQueryText = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+const testListSelect = {
+  id: true,
+  userId: true,
+  rank: true,
+  answers: true,
+  timings: true,
+  keyOverrides: true,
+  exam: {
+    select: {
+      provider: true,
+      externalExamId: true,
+      title: true,
+      examDate: true,
+      questions: { select: analysisQuestionSelect },
+    },
+  },
+} as const
+
+// Scores are computed from the analyses rather than stored, so score sorts
+// page in memory; every other sort pages in the database.
+const testListOrder = (sort: Exclude<TestSort, 'score-desc' | 'score-asc'>) => {
+  switch (sort) {
+    case 'date-asc':
+      return [{ exam: { examDate: 'asc' as const } }, { id: 'asc' as const }]
+    case 'rank-asc':
+    case 'rank-desc':
+      return [
+        {
+          rank: {
+            sort: sort === 'rank-asc' ? ('asc' as const) : ('desc' as const),
+            nulls: 'last' as const,
+          },
+        },
+        { exam: { examDate: 'desc' as const } },
+        { id: 'asc' as const },
+      ]
+    default:
+      return [{ exam: { examDate: 'desc' as const } }, { id: 'asc' as const }]
   }
-  return keyAlternatives.some((option) => {
-    if (typeof option === 'number') {
-      return selectedNumeric === option
-    }
-    return selectedNumeric >= option.min && selectedNumeric <= option.max
-  })
 }
 
-const isUnattemptedAnswer = (value: unknown, qtype: string) => {
-  if (value === null || value === undefined) {
-    return true
-  }
-  if (qtype === 'MAQ' && Array.isArray(value) && value.length === 0) {
-    return true
+const listTestPage = async (payload: {
+  userId: string
+  query: string
+  subject: string
+  sort: TestSort
+  keySource: AnalysisKeySource
+  offset: number
+  limit: number
+}) => {
+  const { sort, keySource, offset, limit } = payload
+  const where = {
+    userId: payload.userId,
+    exam: {
+      ...(payload.query ? { title: { contains: payload.query } } : {}),
+      ...(payload.subject ? { questions: { some: { subject: payload.subject } } } : {}),
+    },
   }
-  return false
-}
-
-const buildPeerAnswerStatsByExam = (
-  attempts: Array<{ examId: string; answers: string }>,
-  questionsByExam: Map<
-    string,
-    Array<{ id: string; qtype: string; key: unknown }>
-  >,
-) => {
-  const attemptsByExam = new Map<string, Array<{ answers: string }>>()
-  attempts.forEach((attempt) => {
-    const current = attemptsByExam.get(attempt.examId) ?? []
-    current.push({ answers: attempt.answers })
-    attemptsByExam.set(attempt.examId, current)
-  })
-
-  const result = new Map<
-    string,
-    Record<
-      string,
-      {
-        total: number
-        unattempted: number
-        correct: number
-        incorrect: number
-        options: Record<string, number>
-      }
-    >
-  >()
-
-  attemptsByExam.forEach((examAttempts, examId) => {
-    const questions = questionsByExam.get(examId) ?? []
-    if (questions.length === 0) {
-      result.set(examId, {})
-      return
-    }
-
-    const stats: Record<
-      string,
-      {
-        total: number
-        unattempted: number
-        correct: number
-        incorrect: number
-        options: Record<string, number>
-      }
-    > = {}
-    questions.forEach((question) => {
-      stats[question.id] = {
-        total: 0,
-        unattempted: 0,
-        correct: 0,
-        incorrect: 0,
-        options: {},
-      }
-    })
-
-    examAttempts.forEach((attempt) => {
-      const parsed = parseStoredJson(attempt.answers)
-      const answers =
-        parsed && typeof parsed === 'object'
-          ? (parsed as Record<string, unknown>)
-          : {}
-
-      questions.forEach((question) => {
-        const entry =
-          stats[question.id] ?? {
-            total: 0,
-            unattempted: 0,
-            correct: 0,
-            incorrect: 0,
-            options: {},
-          }
-        entry.total += 1
-        const value = answers[question.id]
-        if (isUnattemptedAnswer(value, question.qtype)) {
-          entry.unattempted += 1
-          stats[question.id] = entry
-          return
-        }
-        const selections = toOptionArray(value)
-        selections.forEach((option) => {
-          entry.options[option] = (entry.options[option] ?? 0) + 1
-        })
-        if (question.qtype === 'NAT') {
-          if (isNumericCorrect(value, question.key)) {
-            entry.correct += 1
-          } else {
-            entry.incorrect += 1
-          }
-        }
-        stats[question.id] = entry
-      })
-    })
-
-    result.set(examId, stats)
-  })
-
-  return result
-}
-
-const buildPeerTimingsByExam = (
-  attempts: Array<{ examId: string; timings: string }>,
-) => {
-  const totalsByExam = new Map<string, Map<string, { sum: number; count: number }>>()
-  attempts.forEach((attempt) => {
-    const parsed = parseStoredJson(attempt.timings)
-    if (!parsed || typeof parsed !== 'object') {
-      return
-    }
-    const examTotals =
-      totalsByExam.get(attempt.examId) ?? new Map<string, { sum: number; count: number }>()
-    Object.entries(parsed as Record<string, unknown>).forEach(([questionId, value]) => {
-      const numeric = typeof value === 'number' && Number.isFinite(value) ? value : 0
-      const current = examTotals.get(questionId) ?? { sum: 0, count: 0 }
-      examTotals.set(questionId, {
-        sum: current.sum + numeric,
-        count: current.count + 1,
-      })
+  if (sort === 'score-desc' || sort === 'score-asc') {
+    const matching = await prisma.attempt.findMany({
+      where,
+      select: testListSelect,
+      orderBy: testListOrder('date-desc'),
     })
-    totalsByExam.set(attempt.examId, examTotals)
-  })
-
-  const result = new Map<string, Record<string, number>>()
-  totalsByExam.forEach((totals, examId) => {
-    const averages: Record<string, number> = {}
-    totals.forEach((data, questionId) => {
-      if (data.count > 0) {
-        averages[questionId] = Math.round(data.sum / data.count)
-      }
-    })
-    result.set(examId, averages)
-  })
-  return result
-}
-
-const fetchPeerTimingsForExam = async (examId: string, userId: string) => {
-  const otherAttempts = await prisma.attempt.findMany({
-    where: { examId, userId: { not: userId } },
-    select: { timings: true },
-  })
-  return buildPeerTimings(otherAttempts)
-}
+    const analyses = await getAttemptAnalyses(matching, keySource)
+    const scoreOf = (attemptId: string) => analyses.get(attemptId)?.scoreCurrent ?? 0
+    const direction = sort === 'score-desc' ? -1 : 1
+    const attempts = [...matching]
+      .sort((a, b) => direction * (scoreOf(a.id) - scoreOf(b.id)))
+      .slice(offset, offset + limit)
+    return { total: matching.length, attempts, analyses }
+  }
 
-const fetchPeerAnswerStatsForExam = async (
-  examId: string,
-  userId: string,
-  questions: Array<{ id: string; qtype: string; key: unknown }>,
-) => {
-  const otherAttempts = await prisma.attempt.findMany({
-    where: { examId, userId: { not: userId } },
-    select: { answers: true },
-  })
-  const questionMap = new Map<
-    string,
-    Array<{ id: string; qtype: string; key: unknown }>
-  >([[examId, questions]])
-  const statsByExam = buildPeerAnswerStatsByExam(
-    otherAttempts.map((attempt) => ({
-      examId,
-      answers: attempt.answers,
-    })),
-    questionMap,
-  )
-  return statsByExam.get(examId) ?? {}
+  const [total, attempts] = await Promise.all([
+    prisma.attempt.count({ where }),
+    prisma.attempt.findMany({
+      where,
+      select: testListSelect,
+      orderBy: testListOrder(sort),
+      skip: offset,
+      take: limit,
+    }),
+  ])
+  return { total, attempts, analyses: await getAttemptAnalyses(attempts, keySource) }
 }
 
 const isNonEmptyString = (value: unknown): value is string =>
@@ -453,12 +268,20 @@ const toFiniteNumber = (value: unknown) => {
   return null
 }
 
+type MarkingSchemeEntry = {
+  correct: number
+  incorrect: number
+  unattempted: number
+  partial?: number
+  policy?: PartialPolicy
+}
+
 const parseMarkingScheme = (value: unknown) => {
   if (!value || typeof value !== 'object') {
-    return new Map<string, { correct: number; incorrect: number; unattempted: number }>()
+    return new Map<string, MarkingSchemeEntry>()
   }
 
-  const entries = new Map<string, { correct: number; incorrect: number; unattempted: number }>()
+  const entries = new Map<string, MarkingSchemeEntry>()
   for (const [key, payload] of Object.entries(value as Record<string, unknown>)) {
     if (!payload || typeof payload !== 'object') {
       continue
@@ -467,6 +290,8 @@ const parseMarkingScheme = (value: unknown) => {
       correct?: unknown
       incorrect?: unknown
       unattempted?: unknown
+      partial?: unknown
+      policy?: unknown
     }
     const correct = toFiniteNumber(raw.correct)
     const incorrect = toFiniteNumber(raw.incorrect)
@@ -474,68 +299,136 @@ const parseMarkingScheme = (value: unknown) => {
     if (correct === null || incorrect === null || unattempted === null) {
       continue
     }
-    entries.set(key, { correct, incorrect, unattempted })
+    const isMultiSelect = isMultiSelectType(key)
+    const partial = isMultiSelect ? toFiniteNumber(raw.partial) : null
+    entries.set(key, {
+      correct,
+      incorrect,
+      unattempted,
+      ...(partial !== null && partial >= 0 ? { partial } : {}),
+      ...(isMultiSelect && isPartialPolicy(raw.policy) ? { policy: raw.policy } : {}),
+    })
   }
 
   return entries
 }
 
+// Lists the caller's tests newest first, one page at a time. Each entry
+// carries the cached analysis instead of questions, so the payload stays small
+// no matter how many tests exist.
 router.get('/', requireAuth, async (req: AuthRequest, res, next) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Unauthorized.' })
     }
 
-    const attempts = await prisma.attempt.findMany({
-      where: { userId: req.user.userId },
-      include: {
-        exam: { include: { questions: true } },
-      },
-    })
+    const keySource = readKeySource(req.query.keySource)
+    if (!keySource) {
+      return res
+        .status(400)
+        .json({ error: 'keySource must be official, revised or personal.' })
+    }
+    const offset = readPageParam(req.query.offset, 0)
+    const limit = Math.min(
+      Math.max(readPageParam(req.query.limit, DEFAULT_PAGE_SIZE), 1),
+      MAX_PAGE_SIZE,
+    )
 
-    const examIds = Array.from(new Set(attempts.map((attempt) => attempt.examId)))
-    const otherAttempts =
-      examIds.length === 0
-        ? []
-        : await prisma.attempt.findMany({
-            where: {
-              examId: { in: examIds },
-              userId: { not: req.user.userId },
-            },
-            select: { examId: true, timings: true, answers: true },
-          })
-    const peerTimingsByExam = buildPeerTimingsByExam(otherAttempts)
-    const questionsByExam = new Map<
-      string,
-      Array<{ id: string; qtype: string; key: unknown }>
-    >()
-    attempts.forEach((attempt) => {
-      questionsByExam.set(
-        attempt.examId,
-        attempt.exam.questions.map((question) => ({
-          id: question.id,
-          qtype: question.qtype,
-          key: resolveQuestionKey(question),
-        })),
-      )
+    const sort = readTestSort(req.query.sort)
+    if (!sort) {
+      return res.status(400).json({ error: `sort must be one of ${testSorts.join(', ')}.` })
+    }
+    const query = readQueryText(req.query.q)
+    const subject = readQueryText(req.query.subject).toUpperCase()
+
+    const { total, attempts, analyses } = await listTestPage({
+      userId: req.user.userId,
+      query,
+      subject,
+      sort,
+      keySource,
+      offset,
+      limit,
     })
-    const peerAnswerStatsByExam = buildPeerAnswerStatsByExam(
-      otherAttempts.map((attempt) => ({
-        examId: attempt.examId,
-        answers: attempt.answers,
-      })),
-      questionsByExam,
-    )
 
     return res.json({
-      tests: attempts.map((attempt) =>
-        serializeAttempt(
-          attempt,
-          peerTimingsByExam.get(attempt.examId) ?? {},
-          peerAnswerStatsByExam.get(attempt.examId) ?? {},
-        ),
-      ),
+      tests: attempts.flatMap((attempt) => {
+        const analysis = analyses.get(attempt.id)
+        if (!analysis) {
+          return []
+        }
+        return [
+          {
+            id: attempt.id,
+            userId: attempt.userId,
+            provider: attempt.exam.provider,
+            externalExamId: attempt.exam.externalExamId ?? undefined,
+            title: attempt.exam.title,
+            examDate: attempt.exam.examDate,
+            rank: attempt.rank ?? null,
+            analysis,
+          },
+        ]
+      }),
+      total,
+      offset,
+      limit,
+      keySource,
+      sort,
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/import', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const { format, content, title, examDate, examId, rank } = req.body as {
+      format?: string
+      content?: string
+      title?: unknown
+      examDate?: unknown
+      examId?: unknown
+      rank?: unknown
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ error: 'format must be json or csv.' })
+    }
+    if (!isNonEmptyString(content)) {
+      return res.status(400).json({ error: 'content is required.' })
+    }
+
+    const parsed = parseManualImport({
+      userId: req.user.userId,
+      format,
+      content,
+      meta: { title, examDate, examId, rank },
+    })
+    if (!parsed.report) {
+      return res.status(400).json({
+        error: parsed.errors[0] ?? 'Import file is invalid.',
+        issues: parsed.errors,
+      })
+    }
+
+    const saved = await importReport({
+      userId: req.user.userId,
+      provider: MANUAL_PROVIDER,
+      report: parsed.report,
+    })
+    const attempt = await prisma.attempt.findUniqueOrThrow({
+      where: { id: saved.attemptId },
+      include: {
+        exam: { include: { questions: true } },
+      },
     })
+
+    return res.status(201).json({ test: serializeAttempt(attempt) })
   } catch (error) {
     return next(error)
   }
@@ -558,123 +451,199 @@ router.get('/:id', requireAuth, async (req: AuthRequest, res, next) => {
       return res.status(404).json({ error: 'Test not found.' })
     }
 
-    const peerTimings = await fetchPeerTimingsForExam(
-      attempt.examId,
-      req.user.userId,
-    )
-    const peerAnswerStats = await fetchPeerAnswerStatsForExam(
-      attempt.examId,
-      req.user.userId,
-      attempt.exam.questions.map((question) => ({
-        id: question.id,
-        qtype: question.qtype,
-        key: resolveQuestionKey(question),
-      })),
-    )
-    return res.json({ test: serializeAttempt(attempt, peerTimings, peerAnswerStats) })
+    const peers = await getPeerStats(attempt)
+    return res.json({ test: serializeAttempt(attempt, peers) })
   } catch (error) {
     return next(error)
   }
 })
 
-router.post('/:id/answer-key', requireAuth, async (req: AuthRequest, res, next) => {
+router.get('/:id/key-history', requireAuth, async (req: AuthRequest, res, next) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Unauthorized.' })
     }
 
-    const { questionId, newKey } = req.body as {
-      questionId?: string
-      newKey?: unknown
-    }
-
-    if (!isNonEmptyString(questionId)) {
-      return res.status(400).json({ error: 'questionId is required.' })
-    }
-
     const attempt = await prisma.attempt.findFirst({
       where: { id: req.params.id, userId: req.user.userId },
-      include: {
-        exam: { include: { questions: true } },
-      },
+      select: { examId: true },
     })
 
     if (!attempt) {
       return res.status(404).json({ error: 'Test not found.' })
     }
 
-    const examQuestion = attempt.exam.questions.find(
-      (item: { id: string }) => item.id === questionId,
-    )
-    if (!examQuestion) {
-      return res.status(404).json({ error: 'Question not found.' })
-    }
+    const events = await prisma.keyUpdateEvent.findMany({
+      where: { question: { examId: attempt.examId } },
+      include: { actor: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    })
 
-    const normalizedKey =
-      typeof newKey === 'string' ? newKey.trim().toUpperCase() : newKey
-    if (normalizedKey === undefined || normalizedKey === null) {
-      return res.status(400).json({ error: 'newKey is required.' })
+    return res.json({
+      events: events.map((event) => ({
+        id: event.id,
+        questionId: event.questionId,
+        previousKey: parseStoredJson(event.previousKey),
+        newKey: parseStoredJson(event.newKey),
+        actorName: event.actor?.name ?? null,
+        reason: event.reason,
+        createdAt: event.createdAt.toISOString(),
+      })),
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/:id/analysis', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
     }
 
-    const peerTimings = await fetchPeerTimingsForExam(
-      attempt.examId,
-      req.user.userId,
-    )
-    const peerAnswerStats = await fetchPeerAnswerStatsForExam(
-      attempt.examId,
-      req.user.userId,
-      attempt.exam.questions.map((question) => ({
-        id: question.id,
-        qtype: question.qtype,
-        key: resolveQuestionKey(question),
-      })),
-    )
-    if (jsonEquals(parseStoredJson(examQuestion.keyUpdate), normalizedKey)) {
-      return res.json({ test: serializeAttempt(attempt, peerTimings, peerAnswerStats) })
+    const keySource = readKeySource(req.query.keySource)
+    if (!keySource) {
+      return res
+        .status(400)
+        .json({ error: 'keySource must be official, revised or personal.' })
     }
 
-    await prisma.question.update({
-      where: { id: examQuestion.id },
-      data: {
-        keyUpdate: serializeJson(normalizedKey),
-        lastKeyUpdateTime: new Date(),
+    const attempt = await prisma.attempt.findFirst({
+      where: { id: req.params.id, userId: req.user.userId },
+      select: {
+        id: true,
+        answers: true,
+        timings: true,
+        keyOverrides: true,
+        exam: { select: { questions: { select: analysisQuestionSelect } } },
       },
     })
 
-    const updated = await prisma.attempt.findFirst({
-      where: { id: attempt.id },
-      include: {
-        exam: { include: { questions: true } },
-      },
+    if (!attempt) {
+      return res.status(404).json({ error: 'Test not found.' })
+    }
+
+    const analyses = await getAttemptAnalyses([attempt], keySource)
+    return res.json({ keySource, analysis: analyses.get(attempt.id) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/:id/distribution', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized.' })
+    }
+
+    const attempt = await prisma.attempt.findFirst({
+      where: { id: req.params.id, userId: req.user.userId },
+      select: { id: true, examId: true, rank: true },
     })
 
-    if (!updated) {
+    if (!attempt) {
       return res.status(404).json({ error: 'Test not found.' })
     }
 
-    const updatedPeerTimings = await fetchPeerTimingsForExam(
-      updated.examId,
-      req.user.userId,
-    )
-    const updatedPeerAnswerStats = await fetchPeerAnswerStatsForExam(
-      updated.examId,
-      req.user.userId,
-      updated.exam.questions.map((question) => ({
-        id: question.id,
-        qtype: question.qtype,
-        key: resolveQuestionKey(question),
-      })),
-    )
-    return res.json({
-      test: serializeAttempt(updated, updatedPeerTimings, updatedPeerAnswerStats),
-    })
+    const distribution = await getScoreDistribution(attempt)
+    if (!distribution) {
+      return res.status(404).json({ error: 'Test not found.' })
+    }
+    return res.json({ distribution })
   } catch (error) {
     return next(error)
   }
 })
 
+router.post(
+  '/:id/answer-key',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' })
+      }
+
+      const { questionId, newKey, reason } = req.body as {
+        questionId?: string
+        newKey?: unknown
+        reason?: unknown
+      }
+
+      if (!isNonEmptyString(questionId)) {
+        return res.status(400).json({ error: 'questionId is required.' })
+      }
+      if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        return res.status(400).json({ error: 'reason must be a string.' })
+      }
+
+      const attempt = await prisma.attempt.findFirst({
+        where: { id: req.params.id, userId: req.user.userId },
+        include: {
+          exam: { include: { questions: true } },
+        },
+      })
+
+      if (!attempt) {
+        return res.status(404).json({ error: 'Test not found.' })
+      }
+
+      const examQuestion = attempt.exam.questions.find(
+        (item: { id: string }) => item.id === questionId,
+      )
+      if (!examQuestion) {
+        return res.status(404).json({ error: 'Question not found.' })
+      }
+
+      const normalizedKey = normalizeKeyInput(newKey)
+      if (normalizedKey === undefined || normalizedKey === null) {
+        return res.status(400).json({ error: 'newKey is required.' })
+      }
+
+      if (isCurrentKey(examQuestion, normalizedKey)) {
+        return res.json({
+          test: serializeAttempt(attempt, await getPeerStats(attempt)),
+        })
+      }
+
+      await prisma.$transaction(
+        keyUpdateOperations({
+          question: examQuestion,
+          newKey: normalizedKey,
+          actorId: req.user.userId,
+          reason: isNonEmptyString(reason) ? reason.trim() : null,
+        }),
+      )
+      await notifyExamChange({
+        examId: attempt.examId,
+        kind: 'KEY_UPDATE',
+        body: `Question ${examQuestion.questionNumber} has a new answer key.`,
+        previousQuestions: attempt.exam.questions,
+      })
+      await rescorePeerStats(attempt.examId)
+
+      const updated = await prisma.attempt.findFirst({
+        where: { id: attempt.id },
+        include: {
+          exam: { include: { questions: true } },
+        },
+      })
+
+      if (!updated) {
+        return res.status(404).json({ error: 'Test not found.' })
+      }
+
+      const peers = await getPeerStats(updated)
+      return res.json({ test: serializeAttempt(updated, peers) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
 router.patch(
-  '/:id/questions/:questionId/bookmarks',
+  '/:id/questions/:questionId/annotation',
   requireAuth,
   async (req: AuthRequest, res, next) => {
     try {
@@ -683,12 +652,26 @@ router.patch(
       }
 
       const { questionId } = req.params
-      const bookmarked =
-        typeof req.body?.bookmarked === 'boolean' ? req.body.bookmarked : undefined
+      const { annotation } = req.body as { annotation?: unknown }
 
       if (!isNonEmptyString(questionId)) {
         return res.status(400).json({ error: 'questionId is required.' })
       }
+      if (annotation !== null && (!annotation || typeof annotation !== 'object')) {
+        return res.status(400).json({ error: 'annotation must be an object or null.' })
+      }
+      const { tag, reason } = (annotation ?? {}) as { tag?: unknown; reason?: unknown }
+      if (tag !== undefined && tag !== null && !isMistakeTag(tag)) {
+        return res.status(400).json({ error: 'tag is not a known mistake type.' })
+      }
+      if (reason !== undefined && typeof reason !== 'string') {
+        return res.status(400).json({ error: 'reason must be a string.' })
+      }
+      if (typeof reason === 'string' && reason.length > MAX_ANNOTATION_REASON_LENGTH) {
+        return res.status(400).json({
+          error: `Reasons are limited to ${MAX_ANNOTATION_REASON_LENGTH} characters.`,
+        })
+      }
 
       const attempt = await prisma.attempt.findFirst({
         where: { id: req.params.id, userId: req.user.userId },
@@ -708,22 +691,20 @@ router.patch(
         return res.status(404).json({ error: 'Question not found.' })
       }
 
-      const rawBookmarks = parseStoredJson(attempt.bookmarks)
-      const bookmarkMap =
-        rawBookmarks && typeof rawBookmarks === 'object'
-          ? { ...(rawBookmarks as Record<string, boolean>) }
-          : {}
-      const isBookmarked = Boolean(bookmarkMap[questionId])
-      const nextValue = bookmarked ?? !isBookmarked
-      if (nextValue) {
-        bookmarkMap[questionId] = true
+      const annotations = parseAnnotations(parseStoredJson(attempt.annotations))
+      if (annotation === null) {
+        delete annotations[questionId]
       } else {
-        delete bookmarkMap[questionId]
+        annotations[questionId] = {
+          tag: isMistakeTag(tag) ? tag : null,
+          reason: typeof reason === 'string' ? reason.trim() : '',
+          updatedAt: new Date().toISOString(),
+        }
       }
 
       await prisma.attempt.update({
         where: { id: attempt.id },
-        data: { bookmarks: serializeJson(bookmarkMap) },
+        data: { annotations: serializeJson(annotations) },
       })
 
       const refreshed = await prisma.attempt.findFirst({
@@ -737,91 +718,137 @@ router.patch(
         return res.status(404).json({ error: 'Test not found.' })
       }
 
-      const peerTimings = await fetchPeerTimingsForExam(
-        refreshed.examId,
-        req.user.userId,
-      )
-      const peerAnswerStats = await fetchPeerAnswerStatsForExam(
-        refreshed.examId,
-        req.user.userId,
-        refreshed.exam.questions.map((question) => ({
-          id: question.id,
-          qtype: question.qtype,
-          key: resolveQuestionKey(question),
-        })),
-      )
-      return res.json({ test: serializeAttempt(refreshed, peerTimings, peerAnswerStats) })
+      const peers = await getPeerStats(refreshed)
+      return res.json({ test: serializeAttempt(refreshed, peers) })
     } catch (error) {
       return next(error)
     }
   },
 )
 
-router.post('/:id/marking-scheme', requireAuth, async (req: AuthRequest, res, next) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({ error: 'Unauthorized.' })
-    }
+router.patch(
+  '/:id/questions/:questionId/key-override',
+  requireAuth,
+  async (req: AuthRequest, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' })
+      }
 
-    const { scheme } = req.body as { scheme?: unknown }
-    const updates = parseMarkingScheme(scheme)
-    if (updates.size === 0) {
-      return res.status(400).json({ error: 'scheme is required.' })
-    }
+      const { questionId } = req.params
+      const { key } = req.body as { key?: unknown }
 
-    const attempt = await prisma.attempt.findFirst({
-      where: { id: req.params.id, userId: req.user.userId },
-      include: {
-        exam: { include: { questions: true } },
-      },
-    })
+      const attempt = await prisma.attempt.findFirst({
+        where: { id: req.params.id, userId: req.user.userId },
+        include: {
+          exam: { include: { questions: true } },
+        },
+      })
 
-    if (!attempt) {
-      return res.status(404).json({ error: 'Test not found.' })
-    }
+      if (!attempt) {
+        return res.status(404).json({ error: 'Test not found.' })
+      }
 
-    await prisma.$transaction(
-      Array.from(updates.entries()).map(([qtype, values]) =>
-        prisma.question.updateMany({
-          where: { examId: attempt.exam.id, qtype },
-          data: {
-            correctMarking: values.correct,
-            incorrectMarking: values.incorrect,
-            unattemptedMarking: values.unattempted,
-          },
-        }),
-      ),
-    )
+      const examQuestion = attempt.exam.questions.find(
+        (item: { id: string }) => item.id === questionId,
+      )
+      if (!examQuestion) {
+        return res.status(404).json({ error: 'Question not found.' })
+      }
 
-    const updated = await prisma.attempt.findFirst({
-      where: { id: attempt.id },
-      include: {
-        exam: { include: { questions: true } },
-      },
-    })
+      const normalizedKey = normalizeKeyInput(key)
+      const keyOverrides = parseKeyOverrides(attempt.keyOverrides)
+      if (normalizedKey === undefined || normalizedKey === null || normalizedKey === '') {
+        delete keyOverrides[questionId]
+      } else {
+        keyOverrides[questionId] = normalizedKey
+      }
 
-    if (!updated) {
-      return res.status(404).json({ error: 'Test not found.' })
+      const updated = await prisma.attempt.update({
+        where: { id: attempt.id },
+        data: { keyOverrides: serializeJson(keyOverrides) },
+        include: {
+          exam: { include: { questions: true } },
+        },
+      })
+
+      const peers = await getPeerStats(updated)
+      return res.json({ test: serializeAttempt(updated, peers) })
+    } catch (error) {
+      return next(error)
     }
+  },
+)
 
-    const peerTimings = await fetchPeerTimingsForExam(
-      updated.examId,
-      req.user.userId,
-    )
-    const peerAnswerStats = await fetchPeerAnswerStatsForExam(
-      updated.examId,
-      req.user.userId,
-      updated.exam.questions.map((question) => ({
-        id: question.id,
-        qtype: question.qtype,
-        key: resolveQuestionKey(question),
-      })),
-    )
-    return res.json({ test: serializeAttempt(updated, peerTimings, peerAnswerStats) })
-  } catch (error) {
-    return next(error)
-  }
-})
+router.post(
+  '/:id/marking-scheme',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' })
+      }
+
+      const { scheme } = req.body as { scheme?: unknown }
+      const updates = parseMarkingScheme(scheme)
+      if (updates.size === 0) {
+        return res.status(400).json({ error: 'scheme is required.' })
+      }
+
+      const attempt = await prisma.attempt.findFirst({
+        where: { id: req.params.id, userId: req.user.userId },
+        include: {
+          exam: { include: { questions: true } },
+        },
+      })
+
+      if (!attempt) {
+        return res.status(404).json({ error: 'Test not found.' })
+      }
+
+      await prisma.$transaction(
+        Array.from(updates.entries()).map(([qtype, values]) =>
+          prisma.question.updateMany({
+            where: { examId: attempt.exam.id, qtype },
+            data: {
+              correctMarking: values.correct,
+              incorrectMarking: values.incorrect,
+              unattemptedMarking: values.unattempted,
+              ...(values.partial !== undefined
+                ? { partialMarking: values.partial }
+                : {}),
+              ...(values.policy ? { partialPolicy: values.policy } : {}),
+            },
+          }),
+        ),
+      )
+      await notifyExamChange({
+        examId: attempt.examId,
+        kind: 'MARKING',
+        body: `Marking changed for ${Array.from(updates.keys()).join(', ')} questions.`,
+        previousQuestions: attempt.exam.questions,
+      })
+      await rescorePeerStats(attempt.examId)
+
+      const updated = await prisma.attempt.findFirst({
+        where: { id: attempt.id },
+        include: {
+          exam: { include: { questions: true } },
+        },
+      })
+
+      if (!updated) {
+        return res.status(404).json({ error: 'Test not found.' })
+      }
+
+      const peers = await getPeerStats(updated)
+      return res.json({ test: serializeAttempt(updated, peers) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
 
 router.post('/:id/resync', requireAuth, async (req: AuthRequest, res, next) => {
   try {
@@ -845,7 +872,10 @@ router.post('/:id/resync', requireAuth, async (req: AuthRequest, res, next) => {
 
     const account = await prisma.externalAccount.findUnique({
       where: {
-        userId_provider: { userId: req.user.userId, provider: 'test.z7i.in' },
+        userId_provider: {
+          userId: req.user.userId,
+          provider: attempt.exam.provider,
+        },
       },
       include: { credential: true },
     })
@@ -854,108 +884,29 @@ router.post('/:id/resync', requireAuth, async (req: AuthRequest, res, next) => {
       return res.status(404).json({ error: 'External account not connected.' })
     }
 
-    if (account.syncStatus === 'SYNCING') {
-      return res.status(409).json({ error: 'Sync already in progress.' })
+    const activeJob = await findActiveSyncJob(account.id)
+    if (activeJob) {
+      return res.status(409).json({
+        error: 'Sync already in progress.',
+        job: serializeSyncJob(activeJob),
+      })
     }
 
-    const syncStartedAt = new Date()
-    await prisma.externalAccount.update({
-      where: { id: account.id },
-      data: {
-        status: 'CONNECTED',
-        statusMessage: null,
-        syncStatus: 'SYNCING',
-        syncTotal: 0,
-        syncCompleted: 0,
-        syncStartedAt,
-        syncFinishedAt: null,
-      },
-    })
-
-    const password = decryptSecret({
-      encrypted: account.credential.encryptedPassword,
-      iv: account.credential.iv,
-      tag: account.credential.tag,
-    })
-
-    await syncExternalAccount({
+    const queued = await enqueueSyncJob({
       userId: req.user.userId,
-      provider: account.provider,
-      username: account.username,
-      password,
-      onlyExamIds: [externalExamId],
-      forceAttemptExamIds: [externalExamId],
-      onProgress: async (progress: ScrapeProgress) => {
-        try {
-          await prisma.externalAccount.update({
-            where: { id: account.id },
-            data: {
-              syncTotal: progress.total,
-              syncCompleted: progress.completed,
-            },
-          })
-        } catch (progressError) {
-          console.error(progressError)
-        }
-      },
-    })
-
-    const now = new Date()
-    await prisma.externalAccount.update({
-      where: { id: account.id },
-      data: {
-        status: 'CONNECTED',
-        statusMessage: null,
-        lastSyncAt: now,
-        syncStatus: 'IDLE',
-        syncFinishedAt: now,
+      accountId: account.id,
+      kind: 'RESYNC',
+      options: {
+        onlyExamIds: [externalExamId],
+        forceAttemptExamIds: [externalExamId],
       },
     })
 
-    const refreshed = await prisma.attempt.findFirst({
-      where: { userId: req.user.userId, examId: attempt.examId },
-      include: {
-        exam: { include: { questions: true } },
-      },
-    })
-
-    if (!refreshed) {
-      return res.status(404).json({ error: 'Test not found.' })
-    }
-
-    const peerTimings = await fetchPeerTimingsForExam(
-      refreshed.examId,
-      req.user.userId,
-    )
-    const peerAnswerStats = await fetchPeerAnswerStatsForExam(
-      refreshed.examId,
-      req.user.userId,
-      refreshed.exam.questions.map((question) => ({
-        id: question.id,
-        qtype: question.qtype,
-        key: resolveQuestionKey(question),
-      })),
-    )
-    return res.json({ test: serializeAttempt(refreshed, peerTimings, peerAnswerStats) })
+    return res.status(202).json({ job: serializeSyncJob(queued.job) })
   } catch (error) {
-    if (req.user) {
-      await prisma.externalAccount.updateMany({
-        where: { userId: req.user.userId, provider: 'test.z7i.in' },
-        data: {
-          status: 'ERROR',
-          statusMessage:
-            error instanceof Error ? error.message : 'Resync failed. Check logs.',
-          syncStatus: 'ERROR',
-          syncFinishedAt: new Date(),
-        },
-      })
-    }
     return next(error)
   }
 })
 
-const jsonEquals = (a: unknown, b: unknown) =>
-  JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
-
 export default router
 
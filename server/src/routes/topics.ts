@@ -0,0 +1,311 @@
+import { Router } from 'express'
+import { prisma } from '../db.js'
+import { requireAuth, requireRole, type AuthRequest } from '../middleware/auth.js'
+import {
+  loadTopicModel,
+  suggestTopics,
+  trainTopicModel,
+} from '../services/topicClassifier.js'
+import { MAX_TOPIC_NAME_LENGTH, isTopicSubject } from '../../../shared/topics.js'
+
+const router = Router()
+
+const serializeTopic = (topic: {
+  id: string
+  subject: string
+  name: string
+  _count?: { questions: number }
+}) => ({
+  id: topic.id,
+  subject: topic.subject,
+  name: topic.name,
+  questionCount: topic._count?.questions ?? 0,
+})
+
+const topicInclude = { _count: { select: { questions: true } } } as const
+
+const serializeModel = (
+  model: { trainedAt: string; documentCount: number; topics: unknown[] } | null,
+) =>
+  model
+    ? {
+        trainedAt: model.trainedAt,
+        documentCount: model.documentCount,
+        topicCount: model.topics.length,
+      }
+    : null
+
+const readTopicName = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { error: 'name is required.' }
+  }
+  const name = value.trim().replace(/\s+/g, ' ')
+  if (name.length > MAX_TOPIC_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_TOPIC_NAME_LENGTH} characters.` }
+  }
+  return { name }
+}
+
+router.get('/', requireAuth, async (_req: AuthRequest, res, next) => {
+  try {
+    const topics = await prisma.topic.findMany({
+      include: topicInclude,
+      orderBy: [{ subject: 'asc' }, { name: 'asc' }],
+    })
+    return res.json({ topics: topics.map(serializeTopic) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post(
+  '/',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      const { subject, name: rawName } = req.body as { subject?: unknown; name?: unknown }
+      if (!isTopicSubject(subject)) {
+        return res
+          .status(400)
+          .json({ error: 'subject must be PHYSICS, CHEMISTRY or MATHEMATICS.' })
+      }
+      const parsed = readTopicName(rawName)
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error })
+      }
+
+      const existing = await prisma.topic.findUnique({
+        where: { subject_name: { subject, name: parsed.name } },
+      })
+      if (existing) {
+        return res.status(409).json({ error: 'That topic already exists.' })
+      }
+
+      const topic = await prisma.topic.create({
+        data: { subject, name: parsed.name },
+        include: topicInclude,
+      })
+      return res.status(201).json({ topic: serializeTopic(topic) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+// Assigns one topic to many questions at once; `topicId: null` clears them.
+// Every question must share the topic's subject.
+router.put(
+  '/assignments',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      const { questionIds, topicId } = req.body as {
+        questionIds?: unknown
+        topicId?: unknown
+      }
+      if (
+        !Array.isArray(questionIds) ||
+        questionIds.length === 0 ||
+        !questionIds.every((id) => typeof id === 'string')
+      ) {
+        return res.status(400).json({ error: 'questionIds must be a non-empty list.' })
+      }
+      if (topicId !== null && typeof topicId !== 'string') {
+        return res.status(400).json({ error: 'topicId must be a string or null.' })
+      }
+
+      const ids = Array.from(new Set(questionIds as string[]))
+      const questions = await prisma.question.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, subject: true },
+      })
+      if (questions.length !== ids.length) {
+        return res.status(404).json({ error: 'Question not found.' })
+      }
+
+      if (topicId !== null) {
+        const topic = await prisma.topic.findUnique({ where: { id: topicId } })
+        if (!topic) {
+          return res.status(404).json({ error: 'Topic not found.' })
+        }
+        if (questions.some((question) => question.subject !== topic.subject)) {
+          return res
+            .status(400)
+            .json({ error: `Only ${topic.subject} questions can use this topic.` })
+        }
+      }
+
+      await prisma.$transaction([
+        prisma.question.updateMany({
+          where: { id: { in: ids } },
+          data: { topicId },
+        }),
+        prisma.topicSuggestion.deleteMany({ where: { questionId: { in: ids } } }),
+      ])
+      return res.json({ questionIds: ids, topicId })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+router.get(
+  '/suggestions',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (_req: AuthRequest, res, next) => {
+    try {
+      const [suggestions, model] = await Promise.all([
+        prisma.topicSuggestion.findMany({
+          where: { status: 'pending' },
+          include: {
+            topic: { select: { name: true } },
+            question: {
+              select: {
+                subject: true,
+                qtype: true,
+                questionNumber: true,
+                questionContent: true,
+                exam: { select: { title: true } },
+              },
+            },
+          },
+          orderBy: { confidence: 'desc' },
+          take: 200,
+        }),
+        loadTopicModel(),
+      ])
+
+      return res.json({
+        model: serializeModel(model),
+        suggestions: suggestions.map((suggestion) => ({
+          id: suggestion.id,
+          questionId: suggestion.questionId,
+          topicId: suggestion.topicId,
+          topicName: suggestion.topic.name,
+          confidence: suggestion.confidence,
+          subject: suggestion.question.subject,
+          qtype: suggestion.question.qtype,
+          questionNumber: suggestion.question.questionNumber,
+          questionContent: suggestion.question.questionContent,
+          examTitle: suggestion.question.exam.title,
+        })),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+router.post(
+  '/suggestions/:suggestionId/:decision',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      const { decision } = req.params
+      if (decision !== 'accept' && decision !== 'reject') {
+        return res.status(404).json({ error: 'Not found.' })
+      }
+
+      const suggestion = await prisma.topicSuggestion.findUnique({
+        where: { id: req.params.suggestionId },
+      })
+      if (!suggestion || suggestion.status !== 'pending') {
+        return res.status(404).json({ error: 'Suggestion not found.' })
+      }
+
+      if (decision === 'reject') {
+        await prisma.topicSuggestion.update({
+          where: { id: suggestion.id },
+          data: { status: 'rejected' },
+        })
+        return res.json({ questionId: suggestion.questionId, topicId: null })
+      }
+
+      await prisma.$transaction([
+        prisma.question.update({
+          where: { id: suggestion.questionId },
+          data: { topicId: suggestion.topicId },
+        }),
+        prisma.topicSuggestion.delete({ where: { id: suggestion.id } }),
+      ])
+      return res.json({ questionId: suggestion.questionId, topicId: suggestion.topicId })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+// Retrains the keyword model from every confirmed tag, then refreshes the
+// suggestions for all untagged questions.
+router.post(
+  '/model',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (_req: AuthRequest, res, next) => {
+    try {
+      const model = await trainTopicModel()
+      const suggested = await suggestTopics()
+      return res.json({ model: serializeModel(model), suggested })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+router.patch(
+  '/:topicId',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      const parsed = readTopicName((req.body as { name?: unknown }).name)
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error })
+      }
+
+      const existing = await prisma.topic.findUnique({ where: { id: req.params.topicId } })
+      if (!existing) {
+        return res.status(404).json({ error: 'Topic not found.' })
+      }
+      const duplicate = await prisma.topic.findUnique({
+        where: { subject_name: { subject: existing.subject, name: parsed.name } },
+      })
+      if (duplicate && duplicate.id !== existing.id) {
+        return res.status(409).json({ error: 'That topic already exists.' })
+      }
+
+      const topic = await prisma.topic.update({
+        where: { id: existing.id },
+        data: { name: parsed.name },
+        include: topicInclude,
+      })
+      return res.json({ topic: serializeTopic(topic) })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+router.delete(
+  '/:topicId',
+  requireAuth,
+  requireRole('ADMIN'),
+  async (req: AuthRequest, res, next) => {
+    try {
+      const existing = await prisma.topic.findUnique({ where: { id: req.params.topicId } })
+      if (!existing) {
+        return res.status(404).json({ error: 'Topic not found.' })
+      }
+      await prisma.topic.delete({ where: { id: existing.id } })
+      return res.json({ ok: true })
+    } catch (error) {
+      return next(error)
+    }
+  },
+)
+
+export default router
@@ -4,6 +4,7 @@ import { chromium, type Page } from 'playwright'
 import { mkdir, writeFile } from 'fs/promises'
 import { join } from 'path'
 import { env } from '../config.js'
+import { isMultiSelectType } from '../../../shared/scoring.js'
 import type {
   ScrapeProgress,
   ScrapeResult,
@@ -287,13 +288,13 @@ const inferQuestionType = (payload: {
 const getMarkingForType = (qtype: ScrapedQuestionType) => {
   switch (qtype) {
     case 'VMAQ':
-      return { correct: 3, incorrect: -1, unattempted: 0 }
+      return { correct: 3, incorrect: -1, unattempted: 0, partial: 1 }
     case 'MAQ':
-      return { correct: 4, incorrect: -2, unattempted: 0 }
+      return { correct: 4, incorrect: -2, unattempted: 0, partial: 1 }
     case 'NAT':
-      return { correct: 4, incorrect: -1, unattempted: 0 }
+      return { correct: 4, incorrect: -1, unattempted: 0, partial: 0 }
     default:
-      return { correct: 4, incorrect: -1, unattempted: 0 }
+      return { correct: 4, incorrect: -1, unattempted: 0, partial: 0 }
   }
 }
 
@@ -599,10 +600,11 @@ const parseQuestionwisePayload = (
       optionContentB: useOptions[1],
       optionContentC: useOptions[2],
       optionContentD: useOptions[3],
-      hasPartial: qtype === 'MAQ',
+      hasPartial: isMultiSelectType(qtype),
       correctMarking: marking.correct,
       incorrectMarking: marking.incorrect,
       unattemptedMarking: marking.unattempted,
+      partialMarking: marking.partial,
     })
 
     const ansStatus = typeof row.ans_status === 'string' ? row.ans_status : ''
@@ -756,10 +758,11 @@ const parseSolutionQuestions = (html: string, subject: ScrapedSubject) => {
       optionContentB: useOptions[1],
       optionContentC: useOptions[2],
       optionContentD: useOptions[3],
-      hasPartial: qtype === 'MAQ',
+      hasPartial: isMultiSelectType(qtype),
       correctMarking: marking.correct,
       incorrectMarking: marking.incorrect,
       unattemptedMarking: marking.unattempted,
+      partialMarking: marking.partial,
       isEnglish,
     }
 
@@ -2,9 +2,14 @@ import { mkdir, writeFile } from 'fs/promises'
 import { join } from 'path'
 import { chromium, type Page } from 'playwright'
 import { env } from '../config.js'
+import { isMultiSelectType } from '../../../shared/scoring.js'
+import type {
+  ProviderAdapter,
+  ProviderCredentials,
+  ProviderSession,
+  ProviderTest,
+} from '../providers/types.js'
 import type {
-  ScrapeProgress,
-  ScrapeResult,
   ScrapedAnswer,
   ScrapedQuestion,
   ScrapedQuestionType,
@@ -12,6 +17,7 @@ import type {
   ScrapedScoreOverview,
   ScrapedSubject,
 } from './types.js'
+import { createReplayTransport, type Z7iTransport } from './z7iTransport.js'
 
 const normalizeDate = (value: string) => {
   const trimmed = value.trim()
@@ -237,13 +243,13 @@ const inferQuestionType = (payload: {
 const getMarkingForType = (qtype: ScrapedQuestionType) => {
   switch (qtype) {
     case 'VMAQ':
-      return { correct: 3, incorrect: -1, unattempted: 0 }
+      return { correct: 3, incorrect: -1, unattempted: 0, partial: 1 }
     case 'MAQ':
-      return { correct: 4, incorrect: -2, unattempted: 0 }
+      return { correct: 4, incorrect: -2, unattempted: 0, partial: 1 }
     case 'NAT':
-      return { correct: 4, incorrect: -1, unattempted: 0 }
+      return { correct: 4, incorrect: -1, unattempted: 0, partial: 0 }
     default:
-      return { correct: 4, incorrect: -1, unattempted: 0 }
+      return { correct: 4, incorrect: -1, unattempted: 0, partial: 0 }
   }
 }
 
@@ -358,10 +364,11 @@ const parseQuestionwisePayload = (
       optionContentB: useOptions[1],
       optionContentC: useOptions[2],
       optionContentD: useOptions[3],
-      hasPartial: qtype === 'MAQ',
+      hasPartial: isMultiSelectType(qtype),
       correctMarking: marking.correct,
       incorrectMarking: marking.incorrect,
       unattemptedMarking: marking.unattempted,
+      partialMarking: marking.partial,
     })
 
     const ansStatus = typeof row.ans_status === 'string' ? row.ans_status : ''
@@ -617,46 +624,27 @@ const login = async (
   throw new Error('Login timed out. Please try again.')
 }
 
-export const verifyTestZ7iLogin = async (payload: {
-  username: string
-  password: string
-  verificationCode?: string
-}) => {
+const openLiveTransport = async (
+  credentials: ProviderCredentials,
+): Promise<Z7iTransport> => {
+  const baseUrl = env.scraperBaseUrl
   const browser = await chromium.launch({ headless: env.scraperHeadless })
   const context = await browser.newContext()
   const page = await context.newPage()
 
-  try {
-    await login(page, {
-      ...payload,
-      timeoutMs: Math.min(env.scraperTimeoutMs, 12000),
-    })
-  } finally {
+  const close = async () => {
     await context.close()
     await browser.close()
   }
-}
-
-export const scrapeTestZ7iV2 = async (payload: {
-  username: string
-  password: string
-  verificationCode?: string
-  existingExamIds?: string[]
-  forceFullExamIds?: string[]
-  skipExamIds?: string[]
-  onlyExamIds?: string[]
-  onProgress?: (progress: ScrapeProgress) => Promise<void> | void
-}): Promise<ScrapeResult> => {
-  const baseUrl = env.scraperBaseUrl
-  const warnings: string[] = []
-  const skipExamIds = new Set(payload.skipExamIds ?? [])
-
-  const browser = await chromium.launch({ headless: env.scraperHeadless })
-  const context = await browser.newContext()
-  const page = await context.newPage()
 
   try {
-    await login(page, payload)
+    await login(page, credentials)
+  } catch (error) {
+    await close()
+    throw error
+  }
+
+  const resolvePackageId = async () => {
     const packageIdFromNetwork = page
       .waitForResponse(
         (response) =>
@@ -673,145 +661,156 @@ export const scrapeTestZ7iV2 = async (payload: {
     const testsHtml = await page.content()
     await saveDebugHtml('tests', testsHtml)
 
-    const packageId =
-      env.scraperPackageId ||
-      (await packageIdFromNetwork) ||
-      extractPackageIdFromHtml(testsHtml)
+    return (await packageIdFromNetwork) || extractPackageIdFromHtml(testsHtml)
+  }
+
+  const get = async (path: string) => {
+    const response = await context.request.get(`${baseUrl}${path}`, {
+      timeout: env.scraperTimeoutMs,
+    })
+    return { ok: response.ok(), body: await response.text() }
+  }
+
+  return { resolvePackageId, get, close }
+}
+
+// Replay sessions read captured fixtures, so debug dumps are skipped to keep
+// them from overwriting the fixtures.
+const openTestZ7iSession = async (
+  transport: Z7iTransport,
+  debug: boolean,
+): Promise<ProviderSession> => {
+  const saveJson = debug ? saveDebugJson : async () => {}
+  const saveText = debug ? saveDebugText : async () => {}
+
+  const listTests = async (): Promise<ProviderTest[]> => {
+    const resolvedPackageId = await transport.resolvePackageId()
+    const packageId = env.scraperPackageId || resolvedPackageId
     if (!packageId) {
       throw new Error(
         'Unable to resolve package id. Set SCRAPER_PACKAGE_ID or verify the tests page HTML.',
       )
     }
 
-    const response = await context.request.get(
-      `${baseUrl}/student/tests/get-mypackage-details/${packageId}`,
-      { timeout: env.scraperTimeoutMs },
+    const response = await transport.get(
+      `/student/tests/get-mypackage-details/${packageId}`,
     )
-    const body = await response.text()
-    const parsed = tryParseJsonPayload(body)
-    if (!response.ok() || !parsed) {
-      await saveDebugText('package-details', body)
+    const parsed = tryParseJsonPayload(response.body)
+    if (!response.ok || !parsed) {
+      await saveText('package-details', response.body)
       throw new Error('Failed to load tests list from package details.')
     }
-    await saveDebugJson('package-details', parsed)
+    await saveJson('package-details', parsed)
 
-    const tests = extractTestsList(parsed)
+    return extractTestsList(parsed)
       .map((entry, index) => parseTestEntry(entry as Record<string, unknown>, index))
       .filter((entry) => entry.reportId)
-    if (tests.length === 0) {
-      throw new Error('No tests found in package details response.')
-    }
-
-    const onlyExamIds = new Set(payload.onlyExamIds ?? [])
-    const filteredTests =
-      onlyExamIds.size > 0
-        ? tests.filter((test) => onlyExamIds.has(test.reportId))
-        : tests
-    if (filteredTests.length === 0) {
-      throw new Error('No tests matched the requested filters.')
-    }
-
-    await payload.onProgress?.({ completed: 0, total: filteredTests.length })
-    const reports: ScrapedReport[] = []
-    let completed = 0
-
-    for (const test of filteredTests) {
-      if (skipExamIds.has(test.reportId)) {
-        warnings.push(`Skipping ${test.title} (already synced for this user).`)
-        completed += 1
-        await payload.onProgress?.({
-          completed,
-          total: filteredTests.length,
-          currentTitle: test.title,
-        })
-        continue
-      }
-
-      let questions: ScrapedQuestion[] = []
-      let answers: ScrapedAnswer[] = []
-      let examDate = test.examDate
-      let title = test.title
-      let scoreOverview: ScrapedScoreOverview | undefined
-
-      try {
-        const response = await context.request.get(
-          `${baseUrl}/student/reports/get-score-overview/${test.reportId}`,
-          { timeout: env.scraperTimeoutMs },
-        )
-        const body = await response.text()
-        const parsed = tryParseJsonPayload(body)
-        if (response.ok() && parsed) {
-          await saveDebugJson(`score-overview-${test.reportId}`, parsed)
-          const extracted = extractScoreOverviewFromJson(parsed)
-          if (extracted) {
-            if (extracted.title) {
-              title = extracted.title
-            }
-            scoreOverview = extracted.overview ?? undefined
+      .map((entry) => ({
+        externalExamId: entry.reportId,
+        title: entry.title,
+        examDate: entry.examDate,
+      }))
+  }
+
+  const fetchReport = async (
+    test: ProviderTest,
+    warn: (message: string) => Promise<void>,
+  ): Promise<ScrapedReport> => {
+    const reportId = test.externalExamId
+    let questions: ScrapedQuestion[] = []
+    let answers: ScrapedAnswer[] = []
+    let examDate = test.examDate
+    let title = test.title
+    let scoreOverview: ScrapedScoreOverview | undefined
+
+    try {
+      const response = await transport.get(
+        `/student/reports/get-score-overview/${reportId}`,
+      )
+      const parsed = tryParseJsonPayload(response.body)
+      if (response.ok && parsed) {
+        await saveJson(`score-overview-${reportId}`, parsed)
+        const extracted = extractScoreOverviewFromJson(parsed)
+        if (extracted) {
+          if (extracted.title) {
+            title = extracted.title
           }
-        } else if (response.ok()) {
-          await saveDebugText(`score-overview-${test.reportId}`, body)
+          scoreOverview = extracted.overview ?? undefined
         }
-      } catch (error) {
-        const err = error instanceof Error ? error.message : 'Unknown error'
-        warnings.push(`Score overview fetch failed for ${test.title}: ${err}`)
+      } else if (response.ok) {
+        await saveText(`score-overview-${reportId}`, response.body)
       }
+    } catch (error) {
+      const err = error instanceof Error ? error.message : 'Unknown error'
+      await warn(`Score overview fetch failed for ${test.title}: ${err}`)
+    }
 
-      try {
-        const questionResponse = await context.request.get(
-          `${baseUrl}/student/reports/questionwise/${test.reportId}`,
-          { timeout: env.scraperTimeoutMs },
-        )
-        const questionBody = await questionResponse.text()
-        const questionPayload = tryParseJsonPayload(questionBody)
-        if (questionResponse.ok() && questionPayload) {
-          await saveDebugJson(`question-wise-${test.reportId}`, questionPayload)
-          const derivedDate = extractExamDateFromQuestionwise(questionPayload)
-          if (derivedDate) {
-            examDate = derivedDate
-          }
-          const parsedQuestions = parseQuestionwisePayload(questionPayload, true)
-          if (parsedQuestions.warnings.length > 0) {
-            warnings.push(...parsedQuestions.warnings)
-          }
-          questions = parsedQuestions.questions
-          answers = parsedQuestions.answers
-        } else {
-          await saveDebugText(`question-wise-${test.reportId}`, questionBody)
-          warnings.push(`Questionwise response malformed for ${test.title}.`)
+    try {
+      const questionResponse = await transport.get(
+        `/student/reports/questionwise/${reportId}`,
+      )
+      const questionPayload = tryParseJsonPayload(questionResponse.body)
+      if (questionResponse.ok && questionPayload) {
+        await saveJson(`question-wise-${reportId}`, questionPayload)
+        const derivedDate = extractExamDateFromQuestionwise(questionPayload)
+        if (derivedDate) {
+          examDate = derivedDate
+        }
+        const parsedQuestions = parseQuestionwisePayload(questionPayload, true)
+        for (const warning of parsedQuestions.warnings) {
+          await warn(warning)
         }
-      } catch (error) {
-        const err = error instanceof Error ? error.message : 'Unknown error'
-        warnings.push(`Questionwise fetch failed for ${test.title}: ${err}`)
+        questions = parsedQuestions.questions
+        answers = parsedQuestions.answers
+      } else {
+        await saveText(`question-wise-${reportId}`, questionResponse.body)
+        await warn(`Questionwise response malformed for ${test.title}.`)
       }
+    } catch (error) {
+      const err = error instanceof Error ? error.message : 'Unknown error'
+      await warn(`Questionwise fetch failed for ${test.title}: ${err}`)
+    }
 
-      if (questions.length === 0) {
-        warnings.push(`No questions parsed for ${test.title}.`)
-      }
-      if (answers.length === 0) {
-        warnings.push(`No answers parsed for ${test.title}.`)
-      }
+    return {
+      externalExamId: reportId,
+      title,
+      examDate,
+      scoreOverview,
+      questions,
+      answers,
+    }
+  }
 
-      reports.push({
-        externalExamId: test.reportId,
-        title,
-        examDate,
-        scoreOverview,
-        questions,
-        answers,
-      })
+  return { listTests, fetchReport, close: transport.close }
+}
 
-      completed += 1
-      await payload.onProgress?.({
-        completed,
-        total: filteredTests.length,
-        currentTitle: test.title,
+export const testZ7iProvider: ProviderAdapter = {
+  id: 'test.z7i.in',
+  label: 'test.z7i.in',
+  verifyLogin: async (credentials) => {
+    const browser = await chromium.launch({ headless: env.scraperHeadless })
+    const context = await browser.newContext()
+    const page = await context.newPage()
+
+    try {
+      await login(page, {
+        ...credentials,
+        timeoutMs: Math.min(env.scraperTimeoutMs, 12000),
       })
+    } finally {
+      await context.close()
+      await browser.close()
     }
-
-    return { reports, warnings }
-  } finally {
-    await context.close()
-    await browser.close()
-  }
+  },
+  openSession: async (credentials) =>
+    openTestZ7iSession(await openLiveTransport(credentials), true),
 }
+
+// Runs the adapter against files captured with SCRAPER_DEBUG_DIR, with no
+// network and no browser. It is never registered, so only callers that pass it
+// explicitly (scripts/replaySync.ts) can use it, and its login check passes.
+export const createTestZ7iReplayProvider = (dir: string): ProviderAdapter => ({
+  ...testZ7iProvider,
+  verifyLogin: async () => {},
+  openSession: async () => openTestZ7iSession(createReplayTransport(dir), false),
+})
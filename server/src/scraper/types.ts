@@ -1,3 +1,5 @@
+import type { AnswerValue } from '../../../shared/scoring.js'
+
 export type ScrapedSubject = 'PHYSICS' | 'CHEMISTRY' | 'MATHEMATICS'
 
 export type ScrapedQuestionType = 'MCQ' | 'MAQ' | 'VMAQ' | 'NAT'
@@ -7,6 +9,9 @@ export type ScrapedQuestion = {
   subject: ScrapedSubject
   qtype: ScrapedQuestionType
   correctAnswerRaw: string | null
+  // Already-parsed key. Manual imports set it for keys the raw format
+  // cannot express, such as bonus or OR-alternative keys.
+  correctKey?: AnswerValue
   questionContent: string
   optionContentA: string | null
   optionContentB: string | null
@@ -16,6 +21,7 @@ export type ScrapedQuestion = {
   correctMarking: number
   incorrectMarking: number
   unattemptedMarking: number
+  partialMarking: number
 }
 
 export type ScrapedAnswer = {
@@ -0,0 +1,58 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+export type Z7iResponse = {
+  ok: boolean
+  body: string
+}
+
+export type Z7iTransport = {
+  resolvePackageId: () => Promise<string | null>
+  get: (path: string) => Promise<Z7iResponse>
+  close: () => Promise<void>
+}
+
+export const REPLAY_PACKAGE_ID = 'replay'
+
+const fixtureNameForPath = (path: string) => {
+  if (/\/student\/tests\/get-mypackage-details\//i.test(path)) {
+    return 'package-details'
+  }
+  const scoreOverview = path.match(/\/student\/reports\/get-score-overview\/([^/?#]+)/i)
+  if (scoreOverview) {
+    return `score-overview-${scoreOverview[1]}`
+  }
+  const questionwise = path.match(/\/student\/reports\/questionwise\/([^/?#]+)/i)
+  if (questionwise) {
+    return `question-wise-${questionwise[1]}`
+  }
+  return null
+}
+
+const readFixture = async (path: string) => {
+  try {
+    return await readFile(path, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+export const createReplayTransport = (dir: string): Z7iTransport => ({
+  resolvePackageId: async () => REPLAY_PACKAGE_ID,
+  get: async (path) => {
+    const name = fixtureNameForPath(path)
+    if (!name) {
+      return { ok: false, body: '' }
+    }
+    const json = await readFixture(join(dir, `${name}.json`))
+    if (json !== null) {
+      return { ok: true, body: json }
+    }
+    const text = await readFixture(join(dir, `${name}.txt`))
+    return text === null ? { ok: false, body: '' } : { ok: true, body: text }
+  },
+  close: async () => {},
+})
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto'
+import { prisma } from '../db.js'
+import { parseKeyOverrides, parseStoredJson } from './attemptScoring.js'
+import {
+  buildAttemptAnalysis,
+  isAnalysisKeySource,
+  type AnalysisKeySource,
+  type AnalysisQuestion,
+  type AnalysisTopic,
+  type AttemptAnalysis,
+} from '../../../shared/analysis.js'
+import type { AnswerValue } from '../../../shared/scoring.js'
+
+// Bump when buildAttemptAnalysis changes shape so cached rows are recomputed.
+const ANALYSIS_VERSION = 2
+
+export const analysisQuestionSelect = {
+  id: true,
+  subject: true,
+  qtype: true,
+  questionNumber: true,
+  correctAnswer: true,
+  keyUpdate: true,
+  lastKeyUpdateTime: true,
+  topicId: true,
+  correctMarking: true,
+  incorrectMarking: true,
+  unattemptedMarking: true,
+  partialMarking: true,
+  partialPolicy: true,
+} as const
+
+export type AnalysisSource = {
+  id: string
+  answers: string
+  timings: string
+  keyOverrides: string
+  exam: {
+    questions: Array<{
+      id: string
+      subject: string
+      qtype: string
+      questionNumber: number
+      correctAnswer: string
+      keyUpdate: string | null
+      lastKeyUpdateTime: Date | null
+      topicId: string | null
+      correctMarking: number
+      incorrectMarking: number
+      unattemptedMarking: number
+      partialMarking: number
+      partialPolicy: string
+    }>
+  }
+}
+
+export const readKeySource = (value: unknown): AnalysisKeySource | null => {
+  if (value === undefined) {
+    return 'personal'
+  }
+  return isAnalysisKeySource(value) ? value : null
+}
+
+const toRecord = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+
+const toAnalysisAttempt = (attempt: AnalysisSource) => ({
+  answers: toRecord(parseStoredJson(attempt.answers)) as Record<string, AnswerValue>,
+  timings: toRecord(parseStoredJson(attempt.timings)) as Record<string, number>,
+  keyOverrides: parseKeyOverrides(attempt.keyOverrides) as Record<string, AnswerValue>,
+  questions: attempt.exam.questions.map(
+    (question): AnalysisQuestion => ({
+      ...question,
+      correctAnswer: parseStoredJson(question.correctAnswer) as AnswerValue,
+      keyUpdate: parseStoredJson(question.keyUpdate) as AnswerValue,
+      lastKeyUpdateTime: question.lastKeyUpdateTime
+        ? question.lastKeyUpdateTime.toISOString()
+        : null,
+    }),
+  ),
+})
+
+// The key version covers everything the analysis reads: the attempt itself,
+// the current and revised keys, marking, and the names of tagged topics.
+const buildKeyVersion = (
+  attempt: AnalysisSource,
+  keySource: AnalysisKeySource,
+  topics: AnalysisTopic[],
+) => {
+  const questions = [...attempt.exam.questions]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((question) => [
+      question.id,
+      question.correctAnswer,
+      question.keyUpdate,
+      question.topicId,
+      question.correctMarking,
+      question.incorrectMarking,
+      question.unattemptedMarking,
+      question.partialMarking,
+      question.partialPolicy,
+    ])
+  return createHash('sha1')
+    .update(
+      JSON.stringify([
+        ANALYSIS_VERSION,
+        keySource,
+        attempt.answers,
+        attempt.timings,
+        keySource === 'personal' ? attempt.keyOverrides : null,
+        questions,
+        topics.map((topic) => [topic.id, topic.subject, topic.name]),
+      ]),
+    )
+    .digest('hex')
+}
+
+// Returns one analysis per attempt, reusing cached rows whose key version
+// still matches and recomputing the rest.
+export const getAttemptAnalyses = async (
+  attempts: AnalysisSource[],
+  keySource: AnalysisKeySource,
+) => {
+  const results = new Map<string, AttemptAnalysis>()
+  if (attempts.length === 0) {
+    return results
+  }
+
+  const topicIds = Array.from(
+    new Set(
+      attempts.flatMap((attempt) =>
+        attempt.exam.questions.flatMap((question) =>
+          question.topicId ? [question.topicId] : [],
+        ),
+      ),
+    ),
+  )
+  const topics =
+    topicIds.length === 0
+      ? []
+      : await prisma.topic.findMany({
+          where: { id: { in: topicIds } },
+          select: { id: true, subject: true, name: true },
+          orderBy: { id: 'asc' },
+        })
+  const cached = await prisma.attemptAnalysis.findMany({
+    where: { attemptId: { in: attempts.map((attempt) => attempt.id) }, keySource },
+  })
+  const cachedByAttempt = new Map(cached.map((row) => [row.attemptId, row]))
+
+  const stale: Array<{ attemptId: string; keyVersion: string; payload: string }> = []
+  attempts.forEach((attempt) => {
+    const attemptTopicIds = new Set(
+      attempt.exam.questions.map((question) => question.topicId),
+    )
+    const attemptTopics = topics.filter((topic) => attemptTopicIds.has(topic.id))
+    const keyVersion = buildKeyVersion(attempt, keySource, attemptTopics)
+    const row = cachedByAttempt.get(attempt.id)
+    if (row && row.keyVersion === keyVersion) {
+      results.set(attempt.id, JSON.parse(row.payload) as AttemptAnalysis)
+      return
+    }
+    const analysis = buildAttemptAnalysis(
+      toAnalysisAttempt(attempt),
+      keySource,
+      attemptTopics,
+    )
+    results.set(attempt.id, analysis)
+    stale.push({ attemptId: attempt.id, keyVersion, payload: JSON.stringify(analysis) })
+  })
+
+  if (stale.length > 0) {
+    await prisma.$transaction(
+      stale.map((entry) =>
+        prisma.attemptAnalysis.upsert({
+          where: { attemptId_keySource: { attemptId: entry.attemptId, keySource } },
+          create: { ...entry, keySource },
+          update: { keyVersion: entry.keyVersion, payload: entry.payload },
+        }),
+      ),
+    )
+  }
+
+  return results
+}
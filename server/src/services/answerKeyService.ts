@@ -0,0 +1,41 @@
+import { prisma } from '../db.js'
+import { parseStoredJson } from './attemptScoring.js'
+
+type KeyedQuestion = {
+  id: string
+  keyUpdate: string | null
+}
+
+export const normalizeKeyInput = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toUpperCase() : value
+
+export const isCurrentKey = (question: KeyedQuestion, key: unknown) =>
+  JSON.stringify(parseStoredJson(question.keyUpdate) ?? null) ===
+  JSON.stringify(key ?? null)
+
+export const keyUpdateOperations = (payload: {
+  question: KeyedQuestion
+  newKey: unknown
+  actorId: string
+  reason: string | null
+}) => {
+  const storedKey = JSON.stringify(payload.newKey ?? null)
+  return [
+    prisma.question.update({
+      where: { id: payload.question.id },
+      data: {
+        keyUpdate: storedKey,
+        lastKeyUpdateTime: new Date(),
+      },
+    }),
+    prisma.keyUpdateEvent.create({
+      data: {
+        questionId: payload.question.id,
+        previousKey: payload.question.keyUpdate,
+        newKey: storedKey,
+        actorId: payload.actorId,
+        reason: payload.reason,
+      },
+    }),
+  ]
+}
@@ -0,0 +1,83 @@
+import { scoreQuestion, type ScoringQuestion } from '../../../shared/scoring.js'
+
+export const parseStoredJson = (value: string | null) => {
+  if (value === null) {
+    return null
+  }
+  try {
+    return JSON.parse(value) as unknown
+  } catch {
+    return value
+  }
+}
+
+export type ScoredQuestion = ScoringQuestion & { id: string; key: unknown }
+
+export type ScoredQuestionSource = {
+  id: string
+  qtype: string
+  keyUpdate: string | null
+  correctAnswer: string
+  correctMarking: number
+  incorrectMarking: number
+  unattemptedMarking: number
+  partialMarking: number
+  partialPolicy: string
+}
+
+export const parseKeyOverrides = (value: string) => {
+  const parsed = parseStoredJson(value)
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {}
+}
+
+export const parseAnswers = (value: string) => {
+  const parsed = parseStoredJson(value)
+  return parsed && typeof parsed === 'object'
+    ? (parsed as Record<string, unknown>)
+    : {}
+}
+
+export const resolveQuestionKey = (
+  question: {
+    id: string
+    keyUpdate: string | null
+    correctAnswer: string
+  },
+  keyOverrides: Record<string, unknown> = {},
+) => {
+  const override = keyOverrides[question.id]
+  if (override !== undefined && override !== null) {
+    return override
+  }
+  const updated = parseStoredJson(question.keyUpdate)
+  return updated ?? parseStoredJson(question.correctAnswer)
+}
+
+export const toScoredQuestions = (
+  questions: ScoredQuestionSource[],
+  keyOverrides: string,
+): ScoredQuestion[] => {
+  const overrides = parseKeyOverrides(keyOverrides)
+  return questions.map((question) => ({
+    id: question.id,
+    qtype: question.qtype,
+    key: resolveQuestionKey(question, overrides),
+    correctMarking: question.correctMarking,
+    incorrectMarking: question.incorrectMarking,
+    unattemptedMarking: question.unattemptedMarking,
+    partialMarking: question.partialMarking,
+    partialPolicy: question.partialPolicy,
+  }))
+}
+
+export const scoreAttempt = (questions: ScoredQuestion[], answers: string) => {
+  const answerMap = parseAnswers(answers)
+  const total = questions.reduce(
+    (sum, question) =>
+      sum + scoreQuestion(question, answerMap[question.id], question.key).mark,
+    0,
+  )
+  return Math.round(total * 100) / 100
+}
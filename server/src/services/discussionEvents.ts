@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events'
+
+export type DiscussionPostPayload = {
+  id: string
+  questionId: string
+  parentId: string | null
+  authorId: string
+  authorName: string
+  body: string
+  pinned: boolean
+  deleted: boolean
+  createdAt: string
+}
+
+export type DiscussionEvent = {
+  type: 'post'
+  post: DiscussionPostPayload
+}
+
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0)
+
+const channelFor = (questionId: string) => `question:${questionId}`
+
+export const publishDiscussionEvent = (event: DiscussionEvent) => {
+  emitter.emit(channelFor(event.post.questionId), event)
+}
+
+export const subscribeDiscussionEvents = (
+  questionId: string,
+  listener: (event: DiscussionEvent) => void,
+) => {
+  const channel = channelFor(questionId)
+  emitter.on(channel, listener)
+  return () => {
+    emitter.off(channel, listener)
+  }
+}
@@ -0,0 +1,438 @@
+import { randomUUID } from 'crypto'
+import type {
+  ScrapedAnswer,
+  ScrapedQuestion,
+  ScrapedQuestionType,
+  ScrapedReport,
+  ScrapedSubject,
+} from '../scraper/types.js'
+import {
+  isMultiSelectType,
+  parseNumericAnswer,
+  parseOptionAnswer,
+  validateAnswerKey,
+} from '../../../shared/scoring.js'
+
+export const MANUAL_PROVIDER = 'manual'
+
+export type ImportFormat = 'json' | 'csv'
+
+type ImportRow = {
+  number: unknown
+  subject: unknown
+  type: unknown
+  correctAnswer: unknown
+  answer: unknown
+  timeSpentSec?: unknown
+  content?: unknown
+  options?: Partial<Record<'A' | 'B' | 'C' | 'D', unknown>>
+  marking?: {
+    correct?: unknown
+    incorrect?: unknown
+    unattempted?: unknown
+    partial?: unknown
+  }
+}
+
+type ImportMeta = {
+  title?: unknown
+  examDate?: unknown
+  examId?: unknown
+  rank?: unknown
+}
+
+const optionLetters = ['A', 'B', 'C', 'D'] as const
+
+const csvColumns: Record<string, string> = {
+  number: 'number',
+  question: 'number',
+  subject: 'subject',
+  type: 'type',
+  qtype: 'type',
+  correct_answer: 'correctAnswer',
+  key: 'correctAnswer',
+  answer: 'answer',
+  your_answer: 'answer',
+  time_spent_sec: 'timeSpentSec',
+  time: 'timeSpentSec',
+  content: 'content',
+  option_a: 'optionA',
+  option_b: 'optionB',
+  option_c: 'optionC',
+  option_d: 'optionD',
+  correct_marking: 'correctMarking',
+  incorrect_marking: 'incorrectMarking',
+  unattempted_marking: 'unattemptedMarking',
+  partial_marking: 'partialMarking',
+}
+
+const isBlank = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim().length === 0)
+
+const toText = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+
+const toFiniteNumber = (value: unknown) => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.trim())
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+// Marking and rank are Int columns, so fractional values are rejected here
+// rather than failing the write.
+const toInteger = (value: unknown) => {
+  const parsed = toFiniteNumber(value)
+  return parsed !== null && Number.isInteger(parsed) ? parsed : null
+}
+
+const normalizeSubject = (value: unknown): ScrapedSubject | null => {
+  const text = toText(value).toUpperCase()
+  if (text.startsWith('PHY')) {
+    return 'PHYSICS'
+  }
+  if (text.startsWith('CHEM')) {
+    return 'CHEMISTRY'
+  }
+  if (text.startsWith('MAT')) {
+    return 'MATHEMATICS'
+  }
+  return null
+}
+
+const normalizeQuestionType = (value: unknown): ScrapedQuestionType | null => {
+  const text = toText(value).toUpperCase()
+  return text === 'MCQ' || text === 'MAQ' || text === 'VMAQ' || text === 'NAT'
+    ? text
+    : null
+}
+
+const getMarkingForType = (qtype: ScrapedQuestionType) => {
+  switch (qtype) {
+    case 'VMAQ':
+      return { correct: 3, incorrect: -1, unattempted: 0, partial: 1 }
+    case 'MAQ':
+      return { correct: 4, incorrect: -2, unattempted: 0, partial: 1 }
+    default:
+      return { correct: 4, incorrect: -1, unattempted: 0, partial: 0 }
+  }
+}
+
+const validateAnswer = (
+  value: unknown,
+  qtype: ScrapedQuestionType,
+): { ok: true; raw: string | null } | { ok: false; message: string } => {
+  if (isBlank(value) || (Array.isArray(value) && value.length === 0)) {
+    return { ok: true, raw: null }
+  }
+  if (qtype === 'NAT') {
+    const numeric = parseNumericAnswer(value)
+    return numeric
+      ? { ok: true, raw: numeric }
+      : { ok: false, message: 'expected a number or a range like "1.5 to 2"' }
+  }
+  const letters = parseOptionAnswer(value)
+  if (!letters) {
+    return { ok: false, message: 'expected option letters A-D' }
+  }
+  if (qtype === 'MCQ' && letters.length !== 1) {
+    return { ok: false, message: 'MCQ answers take a single option' }
+  }
+  return { ok: true, raw: letters.join(',') }
+}
+
+const parseCsvRecords = (content: string) => {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index]
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index += 1
+      }
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records.filter((entry) => entry.some((value) => value.trim()))
+}
+
+const parseCsvRows = (content: string, errors: string[]) => {
+  const [header, ...records] = parseCsvRecords(content.replace(/^\uFEFF/, ''))
+  if (!header) {
+    errors.push('CSV file is empty.')
+    return []
+  }
+  const columns = header.map(
+    (name) => csvColumns[name.trim().toLowerCase().replace(/[\s-]+/g, '_')] ?? null,
+  )
+  for (const required of ['number', 'subject', 'type', 'correctAnswer']) {
+    if (!columns.includes(required)) {
+      errors.push(`CSV header is missing the ${required} column.`)
+    }
+  }
+  if (errors.length > 0) {
+    return []
+  }
+
+  return records.map((record): ImportRow => {
+    const values: Record<string, string> = {}
+    columns.forEach((column, index) => {
+      if (column) {
+        values[column] = record[index] ?? ''
+      }
+    })
+    return {
+      number: values.number,
+      subject: values.subject,
+      type: values.type,
+      correctAnswer: values.correctAnswer,
+      answer: values.answer,
+      timeSpentSec: values.timeSpentSec,
+      content: values.content,
+      options: {
+        A: values.optionA,
+        B: values.optionB,
+        C: values.optionC,
+        D: values.optionD,
+      },
+      marking: {
+        correct: values.correctMarking,
+        incorrect: values.incorrectMarking,
+        unattempted: values.unattemptedMarking,
+        partial: values.partialMarking,
+      },
+    }
+  })
+}
+
+const parseJsonRows = (content: string, errors: string[]) => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    errors.push('JSON file could not be parsed.')
+    return { meta: {}, rows: [] }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    errors.push('JSON file must contain an object with a questions array.')
+    return { meta: {}, rows: [] }
+  }
+  const root = parsed as ImportMeta & { questions?: unknown }
+  if (!Array.isArray(root.questions)) {
+    errors.push('JSON file must contain an object with a questions array.')
+    return { meta: root, rows: [] }
+  }
+  const rows = root.questions.map((entry) =>
+    entry && typeof entry === 'object' ? (entry as ImportRow) : ({} as ImportRow),
+  )
+  return { meta: root, rows }
+}
+
+const normalizeImportDate = (value: unknown) => {
+  const text = toText(value)
+  if (!text) {
+    return new Date().toISOString().slice(0, 10)
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return text
+  }
+  const parsed = new Date(text)
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10)
+}
+
+export const parseManualImport = (payload: {
+  userId: string
+  format: ImportFormat
+  content: string
+  meta: ImportMeta
+}): { report: ScrapedReport | null; errors: string[] } => {
+  const errors: string[] = []
+  let rows: ImportRow[] = []
+  let meta: ImportMeta = payload.meta
+
+  if (payload.format === 'csv') {
+    rows = parseCsvRows(payload.content, errors)
+  } else {
+    const parsed = parseJsonRows(payload.content, errors)
+    rows = parsed.rows
+    meta = {
+      title: isBlank(payload.meta.title) ? parsed.meta.title : payload.meta.title,
+      examDate: isBlank(payload.meta.examDate) ? parsed.meta.examDate : payload.meta.examDate,
+      examId: isBlank(payload.meta.examId) ? parsed.meta.examId : payload.meta.examId,
+      rank: isBlank(payload.meta.rank) ? parsed.meta.rank : payload.meta.rank,
+    }
+  }
+
+  const title = toText(meta.title)
+  if (!title) {
+    errors.push('A test title is required.')
+  }
+  const examDate = normalizeImportDate(meta.examDate)
+  if (!examDate) {
+    errors.push('Exam date must be a valid date (YYYY-MM-DD).')
+  }
+  const rank = isBlank(meta.rank) ? null : toInteger(meta.rank)
+  if (!isBlank(meta.rank) && (rank === null || rank < 1)) {
+    errors.push('Rank must be a positive whole number.')
+  }
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push('The file does not contain any questions.')
+  }
+
+  const questions: ScrapedQuestion[] = []
+  const answers: ScrapedAnswer[] = []
+  const seenNumbers = new Set<number>()
+
+  rows.forEach((row, index) => {
+    const number = toFiniteNumber(row.number)
+    const label = number === null ? `Row ${index + 1}` : `Question ${number}`
+    if (number === null || !Number.isInteger(number) || number < 1) {
+      errors.push(`Row ${index + 1}: question number must be a positive integer.`)
+      return
+    }
+    if (seenNumbers.has(number)) {
+      errors.push(`${label}: duplicate question number.`)
+      return
+    }
+    seenNumbers.add(number)
+
+    const subject = normalizeSubject(row.subject)
+    if (!subject) {
+      errors.push(`${label}: subject must be PHYSICS, CHEMISTRY or MATHEMATICS.`)
+    }
+    const qtype = normalizeQuestionType(row.type)
+    if (!qtype) {
+      errors.push(`${label}: type must be MCQ, MAQ, VMAQ or NAT.`)
+    }
+    if (!subject || !qtype) {
+      return
+    }
+
+    const correct = validateAnswerKey(row.correctAnswer, qtype)
+    if (!correct.ok) {
+      errors.push(`${label}: invalid correct answer, ${correct.message}.`)
+    }
+    const selected = validateAnswer(row.answer, qtype)
+    if (!selected.ok) {
+      errors.push(`${label}: invalid answer, ${selected.message}.`)
+    }
+    const timeSpent = isBlank(row.timeSpentSec) ? 0 : toFiniteNumber(row.timeSpentSec)
+    if (timeSpent === null || timeSpent < 0) {
+      errors.push(`${label}: time spent must be a non-negative number of seconds.`)
+    }
+    const defaults = getMarkingForType(qtype)
+    const marking = {
+      correct: isBlank(row.marking?.correct)
+        ? defaults.correct
+        : toInteger(row.marking?.correct),
+      incorrect: isBlank(row.marking?.incorrect)
+        ? defaults.incorrect
+        : toInteger(row.marking?.incorrect),
+      unattempted: isBlank(row.marking?.unattempted)
+        ? defaults.unattempted
+        : toInteger(row.marking?.unattempted),
+      partial: isBlank(row.marking?.partial)
+        ? defaults.partial
+        : toInteger(row.marking?.partial),
+    }
+    if (
+      marking.correct === null ||
+      marking.incorrect === null ||
+      marking.unattempted === null ||
+      marking.partial === null
+    ) {
+      errors.push(`${label}: marking values must be whole numbers.`)
+    }
+    if (
+      !correct.ok ||
+      !selected.ok ||
+      timeSpent === null ||
+      marking.correct === null ||
+      marking.incorrect === null ||
+      marking.unattempted === null ||
+      marking.partial === null
+    ) {
+      return
+    }
+
+    const options = optionLetters.map((letter) => {
+      const text = toText(row.options?.[letter])
+      return qtype === 'NAT' || !text ? null : text
+    })
+    questions.push({
+      sourceNumber: number,
+      subject,
+      qtype,
+      correctAnswerRaw: null,
+      correctKey: correct.key,
+      questionContent: toText(row.content),
+      optionContentA: options[0],
+      optionContentB: options[1],
+      optionContentC: options[2],
+      optionContentD: options[3],
+      hasPartial: isMultiSelectType(qtype),
+      correctMarking: marking.correct,
+      incorrectMarking: marking.incorrect,
+      unattemptedMarking: marking.unattempted,
+      partialMarking: marking.partial,
+    })
+    answers.push({
+      sourceNumber: number,
+      selectedAnswerRaw: selected.raw,
+      correctAnswerRaw: null,
+      timeSpentSec: Math.round(timeSpent),
+    })
+  })
+
+  if (errors.length > 0 || !examDate) {
+    return { report: null, errors }
+  }
+
+  const examId = toText(meta.examId) || randomUUID()
+  return {
+    report: {
+      externalExamId: `${payload.userId}:${examId}`,
+      title,
+      examDate,
+      scoreOverview: rank === null ? undefined : { rank },
+      questions,
+      answers,
+    },
+    errors,
+  }
+}
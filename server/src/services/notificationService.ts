@@ -0,0 +1,78 @@
+import { prisma } from '../db.js'
+import {
+  scoreAttempt,
+  toScoredQuestions,
+  type ScoredQuestionSource,
+} from './attemptScoring.js'
+
+export type NotificationKind = 'KEY_UPDATE' | 'MARKING' | 'RANK'
+
+const examChangeTitles: Record<Exclude<NotificationKind, 'RANK'>, string> = {
+  KEY_UPDATE: 'Answer key updated',
+  MARKING: 'Marking scheme updated',
+}
+
+export const notifyExamChange = async (payload: {
+  examId: string
+  kind: Exclude<NotificationKind, 'RANK'>
+  body: string
+  previousQuestions: ScoredQuestionSource[]
+}) => {
+  const exam = await prisma.exam.findUnique({
+    where: { id: payload.examId },
+    include: {
+      questions: true,
+      attempts: {
+        select: { id: true, userId: true, answers: true, keyOverrides: true },
+      },
+    },
+  })
+  if (!exam || exam.attempts.length === 0) {
+    return
+  }
+
+  await prisma.notification.createMany({
+    data: exam.attempts.map((attempt) => {
+      const before = scoreAttempt(
+        toScoredQuestions(payload.previousQuestions, attempt.keyOverrides),
+        attempt.answers,
+      )
+      const after = scoreAttempt(
+        toScoredQuestions(exam.questions, attempt.keyOverrides),
+        attempt.answers,
+      )
+      return {
+        userId: attempt.userId,
+        attemptId: attempt.id,
+        kind: payload.kind,
+        title: `${examChangeTitles[payload.kind]}: ${exam.title}`,
+        body: payload.body,
+        scoreDelta: Math.round((after - before) * 100) / 100,
+      }
+    }),
+  })
+}
+
+export const notifyRankChange = async (payload: {
+  attemptId: string
+  previousRank: number
+  rank: number
+}) => {
+  const attempt = await prisma.attempt.findUnique({
+    where: { id: payload.attemptId },
+    select: { userId: true, exam: { select: { title: true } } },
+  })
+  if (!attempt) {
+    return
+  }
+
+  await prisma.notification.create({
+    data: {
+      userId: attempt.userId,
+      attemptId: payload.attemptId,
+      kind: 'RANK',
+      title: `Rank updated: ${attempt.exam.title}`,
+      body: `Your rank moved from ${payload.previousRank} to ${payload.rank}.`,
+    },
+  })
+}
@@ -0,0 +1,370 @@
+import { prisma } from '../db.js'
+import {
+  parseAnswers,
+  parseKeyOverrides,
+  parseStoredJson,
+  toScoredQuestions,
+  type ScoredQuestion,
+  type ScoredQuestionSource,
+} from './attemptScoring.js'
+import {
+  isUnattemptedAnswer,
+  scoreQuestion,
+  toOptionArray,
+} from '../../../shared/scoring.js'
+
+export type PeerAnswerStat = {
+  total: number
+  unattempted: number
+  correct: number
+  incorrect: number
+  partial: number
+  options: Record<string, number>
+}
+
+export type PeerStats = {
+  peerTimings: Record<string, number>
+  peerAnswerStats: Record<string, PeerAnswerStat>
+}
+
+type StatCounts = {
+  total: number
+  unattempted: number
+  correct: number
+  incorrect: number
+  partial: number
+  answerCounts: Record<string, number>
+  timeSum: number
+  timeCount: number
+}
+
+type StoredStat = Omit<StatCounts, 'answerCounts'> & {
+  questionId: string
+  answerCounts: string
+}
+
+const statQuestionSelect = {
+  id: true,
+  qtype: true,
+  keyUpdate: true,
+  correctAnswer: true,
+  correctMarking: true,
+  incorrectMarking: true,
+  unattemptedMarking: true,
+  partialMarking: true,
+  partialPolicy: true,
+} as const
+
+const emptyCounts = (): StatCounts => ({
+  total: 0,
+  unattempted: 0,
+  correct: 0,
+  incorrect: 0,
+  partial: 0,
+  answerCounts: {},
+  timeSum: 0,
+  timeCount: 0,
+})
+
+const fromStored = (row: StoredStat | undefined): StatCounts => {
+  if (!row) {
+    return emptyCounts()
+  }
+  const parsed = parseAnswers(row.answerCounts)
+  const answerCounts: Record<string, number> = {}
+  Object.entries(parsed).forEach(([answer, count]) => {
+    if (typeof count === 'number' && count > 0) {
+      answerCounts[answer] = count
+    }
+  })
+  return {
+    total: row.total,
+    unattempted: row.unattempted,
+    correct: row.correct,
+    incorrect: row.incorrect,
+    partial: row.partial,
+    answerCounts,
+    timeSum: row.timeSum,
+    timeCount: row.timeCount,
+  }
+}
+
+const toStored = (counts: StatCounts) => ({
+  ...counts,
+  answerCounts: JSON.stringify(counts.answerCounts),
+})
+
+const addStatus = (
+  counts: StatCounts,
+  question: ScoredQuestion,
+  answer: unknown,
+  delta: number,
+) => {
+  const { status } = scoreQuestion(question, answer, question.key)
+  if (status === 'correct') {
+    counts.correct += delta
+  } else if (status === 'partial') {
+    counts.partial += delta
+  } else {
+    counts.incorrect += delta
+  }
+}
+
+// Adds one attempt to a question's counts, or removes it when delta is -1.
+// Questions missing from the attempt's answers are not counted at all.
+const applyContribution = (
+  counts: StatCounts,
+  question: ScoredQuestion,
+  answers: Record<string, unknown>,
+  timings: Record<string, unknown>,
+  delta: number,
+) => {
+  if (question.id in answers) {
+    counts.total += delta
+    const answer = answers[question.id]
+    if (isUnattemptedAnswer(answer)) {
+      counts.unattempted += delta
+    } else {
+      const stored = JSON.stringify(answer)
+      const next = (counts.answerCounts[stored] ?? 0) + delta
+      if (next > 0) {
+        counts.answerCounts[stored] = next
+      } else {
+        delete counts.answerCounts[stored]
+      }
+      addStatus(counts, question, answer, delta)
+    }
+  }
+  if (question.id in timings) {
+    const time = timings[question.id]
+    counts.timeSum += (typeof time === 'number' && Number.isFinite(time) ? time : 0) * delta
+    counts.timeCount += delta
+  }
+}
+
+// Status counts depend on the key and marking, so they are rebuilt from the
+// distinct answers instead of from every attempt.
+const rescoreCounts = (counts: StatCounts, question: ScoredQuestion) => {
+  counts.correct = 0
+  counts.partial = 0
+  counts.incorrect = 0
+  Object.entries(counts.answerCounts).forEach(([stored, count]) => {
+    addStatus(counts, question, parseStoredJson(stored), count)
+  })
+}
+
+const statWrites = (
+  examId: string,
+  entries: Array<{ questionId: string; counts: StatCounts }>,
+) =>
+  entries.map(({ questionId, counts }) =>
+    prisma.peerQuestionStat.upsert({
+      where: { questionId },
+      create: { questionId, examId, ...toStored(counts) },
+      update: toStored(counts),
+    }),
+  )
+
+// Every change to an exam's aggregates reads the rows and writes them back, so
+// changes to the same exam run one at a time to keep updates from being lost.
+const examQueues = new Map<string, Promise<unknown>>()
+
+const withExamLock = <T>(examId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = examQueues.get(examId) ?? Promise.resolve()
+  const run = previous.catch(() => undefined).then(task)
+  examQueues.set(examId, run)
+  void run
+    .catch(() => undefined)
+    .then(() => {
+      if (examQueues.get(examId) === run) {
+        examQueues.delete(examId)
+      }
+    })
+  return run
+}
+
+// Keeps the aggregates in step with a saved attempt. The answers last counted
+// for the attempt are stored on it, so they are removed (if any) and the
+// current ones added, however the attempt changed in between.
+export const updatePeerStatsForAttempt = async (attemptId: string) => {
+  const attempt = await prisma.attempt.findUnique({
+    where: { id: attemptId },
+    select: { examId: true },
+  })
+  if (!attempt) {
+    return
+  }
+  const { examId } = attempt
+
+  await withExamLock(examId, async () => {
+    const [current, questions, rows] = await Promise.all([
+      prisma.attempt.findUnique({
+        where: { id: attemptId },
+        select: {
+          answers: true,
+          timings: true,
+          peerStatsAnswers: true,
+          peerStatsTimings: true,
+        },
+      }),
+      prisma.question.findMany({ where: { examId }, select: statQuestionSelect }),
+      prisma.peerQuestionStat.findMany({ where: { examId } }),
+    ])
+    if (!current) {
+      return
+    }
+    const rowsByQuestion = new Map(rows.map((row) => [row.questionId, row]))
+    const previousAnswers = parseAnswers(current.peerStatsAnswers ?? '{}')
+    const previousTimings = parseAnswers(current.peerStatsTimings ?? '{}')
+    const nextAnswers = parseAnswers(current.answers)
+    const nextTimings = parseAnswers(current.timings)
+
+    const entries = toScoredQuestions(questions, '{}').map((question) => {
+      const counts = fromStored(rowsByQuestion.get(question.id))
+      applyContribution(counts, question, previousAnswers, previousTimings, -1)
+      applyContribution(counts, question, nextAnswers, nextTimings, 1)
+      return { questionId: question.id, counts }
+    })
+    await prisma.$transaction([
+      ...statWrites(examId, entries),
+      prisma.attempt.update({
+        where: { id: attemptId },
+        data: { peerStatsAnswers: current.answers, peerStatsTimings: current.timings },
+      }),
+    ])
+  })
+}
+
+// Call after an exam's keys or marking change.
+export const rescorePeerStats = (examId: string) =>
+  withExamLock(examId, async () => {
+    const [questions, rows] = await Promise.all([
+      prisma.question.findMany({ where: { examId }, select: statQuestionSelect }),
+      prisma.peerQuestionStat.findMany({ where: { examId } }),
+    ])
+    const questionsById = new Map(
+      toScoredQuestions(questions, '{}').map((question) => [question.id, question]),
+    )
+    const entries = rows.flatMap((row) => {
+      const question = questionsById.get(row.questionId)
+      if (!question) {
+        return []
+      }
+      const counts = fromStored(row)
+      rescoreCounts(counts, question)
+      return [{ questionId: row.questionId, counts }]
+    })
+    if (entries.length > 0) {
+      await prisma.$transaction(statWrites(examId, entries))
+    }
+  })
+
+// Recomputes the aggregates from every attempt, one exam at a time. Use it
+// after changing scoring rules or to backfill existing attempts.
+export const rebuildPeerStats = async (examId?: string) => {
+  const exams = await prisma.exam.findMany({
+    where: examId ? { id: examId } : {},
+    select: { id: true },
+  })
+  let questionCount = 0
+  for (const exam of exams) {
+    questionCount += await withExamLock(exam.id, async () => {
+      const [questions, attempts] = await Promise.all([
+        prisma.question.findMany({ where: { examId: exam.id }, select: statQuestionSelect }),
+        prisma.attempt.findMany({
+          where: { examId: exam.id },
+          select: { id: true, answers: true, timings: true },
+        }),
+      ])
+      const scored = toScoredQuestions(questions, '{}')
+      const counts = new Map(scored.map((question) => [question.id, emptyCounts()]))
+      attempts.forEach((attempt) => {
+        const answers = parseAnswers(attempt.answers)
+        const timings = parseAnswers(attempt.timings)
+        scored.forEach((question) => {
+          const entry = counts.get(question.id)
+          if (entry) {
+            applyContribution(entry, question, answers, timings, 1)
+          }
+        })
+      })
+      await prisma.$transaction([
+        prisma.peerQuestionStat.deleteMany({ where: { examId: exam.id } }),
+        prisma.peerQuestionStat.createMany({
+          data: scored.map((question) => ({
+            questionId: question.id,
+            examId: exam.id,
+            ...toStored(counts.get(question.id) ?? emptyCounts()),
+          })),
+        }),
+        ...attempts.map((attempt) =>
+          prisma.attempt.update({
+            where: { id: attempt.id },
+            data: { peerStatsAnswers: attempt.answers, peerStatsTimings: attempt.timings },
+          }),
+        ),
+      ])
+      return scored.length
+    })
+  }
+  return { examCount: exams.length, questionCount }
+}
+
+// Reads the aggregates for an exam with the caller's own attempt taken out,
+// scoring with the caller's personal keys where they have any. Only the
+// answers counted for the attempt are taken out, so an attempt that was never
+// counted leaves the rows as they are.
+export const getPeerStats = async (attempt: {
+  examId: string
+  peerStatsAnswers: string | null
+  peerStatsTimings: string | null
+  keyOverrides: string
+  exam: { questions: ScoredQuestionSource[] }
+}): Promise<PeerStats> => {
+  const rows = await prisma.peerQuestionStat.findMany({
+    where: { examId: attempt.examId },
+  })
+  const rowsByQuestion = new Map(rows.map((row) => [row.questionId, row]))
+  const overrides = parseKeyOverrides(attempt.keyOverrides)
+  const examKeys = toScoredQuestions(attempt.exam.questions, '{}')
+  const personalKeys = toScoredQuestions(attempt.exam.questions, attempt.keyOverrides)
+  const answers = parseAnswers(attempt.peerStatsAnswers ?? '{}')
+  const timings = parseAnswers(attempt.peerStatsTimings ?? '{}')
+
+  const peerTimings: PeerStats['peerTimings'] = {}
+  const peerAnswerStats: PeerStats['peerAnswerStats'] = {}
+  examKeys.forEach((question, index) => {
+    const row = rowsByQuestion.get(question.id)
+    if (!row) {
+      return
+    }
+    const counts = fromStored(row)
+    applyContribution(counts, question, answers, timings, -1)
+    const override = overrides[question.id]
+    if (override !== undefined && override !== null) {
+      rescoreCounts(counts, personalKeys[index])
+    }
+
+    if (counts.timeCount > 0) {
+      peerTimings[question.id] = Math.round(counts.timeSum / counts.timeCount)
+    }
+    if (counts.total > 0) {
+      const options: Record<string, number> = {}
+      Object.entries(counts.answerCounts).forEach(([stored, count]) => {
+        toOptionArray(parseStoredJson(stored)).forEach((option) => {
+          options[option] = (options[option] ?? 0) + count
+        })
+      })
+      peerAnswerStats[question.id] = {
+        total: counts.total,
+        unattempted: counts.unattempted,
+        correct: counts.correct,
+        incorrect: counts.incorrect,
+        partial: counts.partial,
+        options,
+      }
+    }
+  })
+
+  return { peerTimings, peerAnswerStats }
+}
@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto'
+import { prisma } from '../db.js'
+import { parseAnswers, toScoredQuestions } from './attemptScoring.js'
+import { scoreQuestion } from '../../../shared/scoring.js'
+
+export const PRACTICE_PROVIDER = 'practice'
+
+export const practiceSources = ['all', 'mine-wrong', 'peers-wrong'] as const
+
+export type PracticeSource = (typeof practiceSources)[number]
+
+export const isPracticeSource = (value: unknown): value is PracticeSource =>
+  typeof value === 'string' && (practiceSources as readonly string[]).includes(value)
+
+type BankQuestion = Awaited<ReturnType<typeof loadBank>>[number]['questions'][number]
+
+const bankQuestionWhere = (filters: { subjects: string[]; qtypes: string[] }) => ({
+  ...(filters.subjects.length > 0 ? { subject: { in: filters.subjects } } : {}),
+  ...(filters.qtypes.length > 0 ? { qtype: { in: filters.qtypes } } : {}),
+})
+
+const loadBank = (filters: { subjects: string[]; qtypes: string[] }) =>
+  prisma.exam.findMany({
+    where: { provider: { not: PRACTICE_PROVIDER } },
+    include: { questions: { where: bankQuestionWhere(filters) } },
+  })
+
+const loadOwnAttempts = (userId: string) =>
+  prisma.attempt.findMany({
+    where: { userId, exam: { provider: { not: PRACTICE_PROVIDER } } },
+    select: { examId: true, answers: true, keyOverrides: true, peerStatsAnswers: true },
+  })
+
+const shuffle = <T>(items: T[]) => {
+  const result = [...items]
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(Math.random() * (index + 1))
+    ;[result[index], result[swap]] = [result[swap], result[index]]
+  }
+  return result
+}
+
+const isMiss = (status: string) => status === 'incorrect' || status === 'partial'
+
+export const selectPracticeQuestions = async (payload: {
+  userId: string
+  subjects: string[]
+  qtypes: string[]
+  count: number
+  source: PracticeSource
+}) => {
+  const exams = await loadBank(payload)
+
+  if (payload.source === 'all') {
+    return shuffle(exams.flatMap((exam) => exam.questions)).slice(0, payload.count)
+  }
+
+  const ownAttempts = new Map(
+    (await loadOwnAttempts(payload.userId)).map((attempt) => [attempt.examId, attempt]),
+  )
+
+  if (payload.source === 'mine-wrong') {
+    return shuffle(
+      exams.flatMap((exam) => {
+        const attempt = ownAttempts.get(exam.id)
+        if (!attempt) {
+          return []
+        }
+        const answers = parseAnswers(attempt.answers)
+        const scored = toScoredQuestions(exam.questions, attempt.keyOverrides)
+        return exam.questions.filter((question, index) =>
+          isMiss(scoreQuestion(scored[index], answers[question.id], scored[index].key).status),
+        )
+      }),
+    ).slice(0, payload.count)
+  }
+
+  // Miss rates come from the peer aggregates rather than from every attempt.
+  // The rows count the caller too, so the answers counted for their own
+  // attempt are taken out, as getPeerStats does.
+  const stats = await prisma.peerQuestionStat.findMany({
+    where: {
+      question: {
+        ...bankQuestionWhere(payload),
+        exam: { provider: { not: PRACTICE_PROVIDER } },
+      },
+    },
+    select: { questionId: true, total: true, incorrect: true, partial: true },
+  })
+  const statsByQuestion = new Map(stats.map((stat) => [stat.questionId, stat]))
+
+  const ranked: Array<{ question: BankQuestion; missRate: number }> = []
+  exams.forEach((exam) => {
+    const counted = parseAnswers(ownAttempts.get(exam.id)?.peerStatsAnswers ?? '{}')
+    const scored = toScoredQuestions(exam.questions, '{}')
+    exam.questions.forEach((question, index) => {
+      const stat = statsByQuestion.get(question.id)
+      if (!stat) {
+        return
+      }
+      let total = stat.total
+      let misses = stat.incorrect + stat.partial
+      if (question.id in counted) {
+        total -= 1
+        const { status } = scoreQuestion(
+          scored[index],
+          counted[question.id],
+          scored[index].key,
+        )
+        if (isMiss(status)) {
+          misses -= 1
+        }
+      }
+      if (total > 0) {
+        ranked.push({ question, missRate: misses / total })
+      }
+    })
+  })
+  return shuffle(ranked)
+    .sort((a, b) => b.missRate - a.missRate)
+    .slice(0, payload.count)
+    .map((item) => item.question)
+}
+
+// Copies the picked questions into a fresh exam so the finished practice test
+// is an ordinary attempt and every existing analysis view works on it.
+export const createPracticeExam = async (payload: {
+  userId: string
+  questions: BankQuestion[]
+  source: PracticeSource
+  durationSec: number
+}) => {
+  const startedAt = new Date()
+  return prisma.practiceSession.create({
+    data: {
+      user: { connect: { id: payload.userId } },
+      source: payload.source,
+      durationSec: payload.durationSec,
+      startedAt,
+      endsAt: new Date(startedAt.getTime() + payload.durationSec * 1000),
+      exam: {
+        create: {
+          title: `Practice test - ${startedAt.toISOString().slice(0, 10)}`,
+          provider: PRACTICE_PROVIDER,
+          externalExamId: randomUUID(),
+          examDate: startedAt.toISOString().slice(0, 10),
+          questions: {
+            create: payload.questions.map((question, index) => ({
+              subject: question.subject,
+              qtype: question.qtype,
+              correctAnswer: question.correctAnswer,
+              keyUpdate: question.keyUpdate,
+              lastKeyUpdateTime: question.lastKeyUpdateTime,
+              questionContent: question.questionContent,
+              optionContentA: question.optionContentA,
+              optionContentB: question.optionContentB,
+              optionContentC: question.optionContentC,
+              optionContentD: question.optionContentD,
+              hasPartial: question.hasPartial,
+              correctMarking: question.correctMarking,
+              incorrectMarking: question.incorrectMarking,
+              unattemptedMarking: question.unattemptedMarking,
+              partialMarking: question.partialMarking,
+              partialPolicy: question.partialPolicy,
+              topicId: question.topicId,
+              questionNumber: index + 1,
+            })),
+          },
+        },
+      },
+    },
+  })
+}
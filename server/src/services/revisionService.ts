@@ -0,0 +1,82 @@
+import { prisma } from '../db.js'
+import { parseAnswers, parseStoredJson, toScoredQuestions } from './attemptScoring.js'
+import { scoreQuestion, type ScoreStatus } from '../../../shared/scoring.js'
+import { parseAnnotations } from '../../../shared/mistakes.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_EASE_FACTOR = 1.3
+
+// Reviews are graded automatically, so the SM-2 quality (0-5) comes from the
+// scoring status instead of a self-assessment.
+export const reviewQuality: Record<ScoreStatus, number> = {
+  correct: 5,
+  partial: 3,
+  incorrect: 1,
+  unattempted: 0,
+}
+
+export const scheduleReview = (
+  card: { easeFactor: number; interval: number; repetitions: number },
+  quality: number,
+  now = new Date(),
+) => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  )
+  const repetitions = quality >= 3 ? card.repetitions + 1 : 0
+  const interval =
+    repetitions === 0 || repetitions === 1
+      ? 1
+      : repetitions === 2
+        ? 6
+        : Math.round(card.interval * card.easeFactor)
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  }
+}
+
+// Adds a card for every incorrect, partial or starred question the user does
+// not have a card for yet. Existing cards keep their schedule.
+export const syncRevisionDeck = async (userId: string) => {
+  const [attempts, cards] = await Promise.all([
+    prisma.attempt.findMany({
+      where: { userId },
+      include: { exam: { include: { questions: true } } },
+    }),
+    prisma.reviewCard.findMany({
+      where: { userId },
+      select: { questionId: true },
+    }),
+  ])
+  const carded = new Set(cards.map((card) => card.questionId))
+
+  const data = attempts.flatMap((attempt) => {
+    const answers = parseAnswers(attempt.answers)
+    const annotations = parseAnnotations(parseStoredJson(attempt.annotations))
+    return toScoredQuestions(attempt.exam.questions, attempt.keyOverrides)
+      .filter((question) => {
+        if (carded.has(question.id)) {
+          return false
+        }
+        if (annotations[question.id]) {
+          return true
+        }
+        const { status } = scoreQuestion(question, answers[question.id], question.key)
+        return status === 'incorrect' || status === 'partial'
+      })
+      .map((question) => ({
+        userId,
+        attemptId: attempt.id,
+        questionId: question.id,
+      }))
+  })
+
+  if (data.length > 0) {
+    await prisma.reviewCard.createMany({ data })
+  }
+  return data.length
+}
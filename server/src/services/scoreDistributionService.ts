@@ -0,0 +1,104 @@
+import { prisma } from '../db.js'
+import { analysisQuestionSelect, getAttemptAnalyses } from './analysisService.js'
+
+const HISTOGRAM_BINS = 10
+
+const roundScore = (value: number) => Math.round(value * 100) / 100
+
+// Share of peers scoring below the given score, counting ties as half.
+const toPercentile = (score: number, peerScores: number[]) => {
+  if (peerScores.length === 0) {
+    return null
+  }
+  const below = peerScores.filter((value) => value < score).length
+  const equal = peerScores.filter((value) => value === score).length
+  return Math.round(((below + equal / 2) / peerScores.length) * 1000) / 10
+}
+
+const buildHistogram = (scores: number[], maxMarks: number, score: number) => {
+  const lower = Math.floor(Math.min(0, ...scores))
+  const upper = Math.ceil(Math.max(maxMarks, ...scores))
+  const width = Math.max(1, Math.ceil((upper - lower) / HISTOGRAM_BINS))
+  const bins = Array.from({ length: Math.ceil((upper - lower) / width) || 1 }, (_, index) => ({
+    from: lower + index * width,
+    to: lower + (index + 1) * width,
+    count: 0,
+    mine: false,
+  }))
+  const binIndex = (value: number) =>
+    Math.min(bins.length - 1, Math.floor((value - lower) / width))
+  scores.forEach((value) => {
+    bins[binIndex(value)].count += 1
+  })
+  bins[binIndex(score)].mine = true
+  return bins
+}
+
+// Scores every attempt on the attempt's exam with the revised keys, using
+// the cached analyses, and places the attempt among them.
+export const getScoreDistribution = async (attempt: {
+  id: string
+  examId: string
+  rank: number | null
+}) => {
+  const [questions, attempts] = await Promise.all([
+    prisma.question.findMany({
+      where: { examId: attempt.examId },
+      select: analysisQuestionSelect,
+    }),
+    prisma.attempt.findMany({
+      where: { examId: attempt.examId },
+      select: { id: true, answers: true, timings: true, keyOverrides: true },
+    }),
+  ])
+  const analyses = await getAttemptAnalyses(
+    attempts.map((item) => ({ ...item, exam: { questions } })),
+    'revised',
+  )
+  const mine = analyses.get(attempt.id)
+  if (!mine) {
+    return null
+  }
+  const peers = attempts.flatMap((item) => {
+    const analysis = analyses.get(item.id)
+    return item.id !== attempt.id && analysis ? [analysis] : []
+  })
+
+  const peerScores = peers.map((peer) => peer.scoreCurrent)
+  const aboveRevised = peerScores.filter((value) => value > mine.scoreCurrent).length
+  const aboveOriginal = peers.filter(
+    (peer) => peer.scoreOriginal > mine.scoreOriginal,
+  ).length
+  // The scraped rank reflects the original keys, so it is shifted by how many
+  // known peers moved above or below this attempt under the revised keys.
+  const estimatedRank =
+    attempt.rank !== null
+      ? Math.max(1, attempt.rank + aboveRevised - aboveOriginal)
+      : aboveRevised + 1
+
+  return {
+    attemptCount: attempts.length,
+    score: roundScore(mine.scoreCurrent),
+    scoreOriginal: roundScore(mine.scoreOriginal),
+    maxMarks: mine.maxMarks,
+    percentile: toPercentile(mine.scoreCurrent, peerScores),
+    subjects: mine.perSection.map((section) => ({
+      subject: section.id,
+      score: roundScore(section.score),
+      maxMarks: section.maxMarks,
+      percentile: toPercentile(
+        section.score,
+        peers.map(
+          (peer) => peer.perSection.find((entry) => entry.id === section.id)?.score ?? 0,
+        ),
+      ),
+    })),
+    histogram: buildHistogram(
+      [mine.scoreCurrent, ...peerScores],
+      mine.maxMarks,
+      mine.scoreCurrent,
+    ),
+    scrapedRank: attempt.rank,
+    estimatedRank,
+  }
+}
@@ -0,0 +1,84 @@
+import { EventEmitter } from 'events'
+
+export type SyncEvent =
+  | {
+      type: 'job'
+      jobId: string
+      accountId: string
+      status: string
+      error?: string | null
+    }
+  | {
+      type: 'progress'
+      jobId: string
+      accountId: string
+      completed: number
+      total: number
+      currentTitle: string | null
+    }
+  | {
+      type: 'warning'
+      jobId: string
+      accountId: string
+      message: string
+    }
+  | {
+      type: 'result'
+      jobId: string
+      accountId: string
+      attemptId: string
+      externalExamId: string
+      title: string
+    }
+
+type JobSnapshot = {
+  userId: string
+  events: SyncEvent[]
+}
+
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0)
+
+const snapshots = new Map<string, JobSnapshot>()
+
+const channelFor = (userId: string) => `user:${userId}`
+
+const isFinalStatus = (status: string) =>
+  status === 'SUCCEEDED' || status === 'FAILED'
+
+const rememberEvent = (userId: string, event: SyncEvent) => {
+  if (event.type === 'job' && isFinalStatus(event.status)) {
+    snapshots.delete(event.jobId)
+    return
+  }
+  const snapshot = snapshots.get(event.jobId) ?? { userId, events: [] }
+  if (event.type === 'progress') {
+    snapshot.events = snapshot.events.filter((item) => item.type !== 'progress')
+  }
+  if (event.type === 'job') {
+    snapshot.events = snapshot.events.filter((item) => item.type !== 'job')
+  }
+  snapshot.events.push(event)
+  snapshots.set(event.jobId, snapshot)
+}
+
+export const publishSyncEvent = (userId: string, event: SyncEvent) => {
+  rememberEvent(userId, event)
+  emitter.emit(channelFor(userId), event)
+}
+
+export const subscribeSyncEvents = (
+  userId: string,
+  listener: (event: SyncEvent) => void,
+) => {
+  const channel = channelFor(userId)
+  emitter.on(channel, listener)
+  return () => {
+    emitter.off(channel, listener)
+  }
+}
+
+export const getSyncEventSnapshot = (userId: string) =>
+  Array.from(snapshots.values())
+    .filter((snapshot) => snapshot.userId === userId)
+    .flatMap((snapshot) => snapshot.events)
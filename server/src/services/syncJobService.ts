@@ -0,0 +1,418 @@
+import { env } from '../config.js'
+import { prisma } from '../db.js'
+import type { ScrapeProgress } from '../scraper/types.js'
+import { decryptSecret } from '../utils/crypto.js'
+import { parseStoredJson } from './attemptScoring.js'
+import { publishSyncEvent } from './syncEvents.js'
+import { syncExternalAccount } from './syncService.js'
+
+export type SyncJobKind = 'SYNC' | 'RESYNC'
+
+export type SyncJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+
+export type SyncJobPayload = {
+  verificationCode?: string
+  onlyExamIds?: string[]
+  forceAttemptExamIds?: string[]
+  attemptsOnly?: boolean
+}
+
+type SyncJobRecord = {
+  id: string
+  userId: string
+  accountId: string
+  kind: string
+  status: string
+  payload: string
+  result: string | null
+  error: string | null
+  total: number
+  completed: number
+  attempts: number
+  startedAt: Date | null
+  finishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const MAX_JOB_ATTEMPTS = 2
+
+// One-time codes stay in memory and are never written to SyncJob.payload.
+// They expire within minutes, so a job recovered after a restart could not
+// use one anyway.
+const verificationCodes = new Map<string, string>()
+
+const activeStatuses: SyncJobStatus[] = ['QUEUED', 'RUNNING']
+
+const toStringList = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter(
+        (item): item is string => typeof item === 'string' && item.trim().length > 0,
+      )
+    : undefined
+
+const parseJobPayload = (value: string): SyncJobPayload => {
+  const parsed = parseStoredJson(value)
+  if (!parsed || typeof parsed !== 'object') {
+    return {}
+  }
+  const raw = parsed as Record<string, unknown>
+  return {
+    onlyExamIds: toStringList(raw.onlyExamIds),
+    forceAttemptExamIds: toStringList(raw.forceAttemptExamIds),
+    attemptsOnly: Boolean(raw.attemptsOnly),
+  }
+}
+
+export const serializeSyncJob = (job: SyncJobRecord) => ({
+  id: job.id,
+  accountId: job.accountId,
+  kind: job.kind,
+  status: job.status,
+  total: job.total,
+  completed: job.completed,
+  result: parseStoredJson(job.result),
+  error: job.error,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+})
+
+export const findActiveSyncJob = async (accountId: string) =>
+  prisma.syncJob.findFirst({
+    where: { accountId, status: { in: activeStatuses } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+export const findActiveSyncJobIds = async (accountIds: string[]) => {
+  if (accountIds.length === 0) {
+    return new Map<string, string>()
+  }
+  const jobs = await prisma.syncJob.findMany({
+    where: { accountId: { in: accountIds }, status: { in: activeStatuses } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, accountId: true },
+  })
+  return new Map(jobs.map((job) => [job.accountId, job.id]))
+}
+
+export const enqueueSyncJob = async (payload: {
+  userId: string
+  accountId: string
+  kind: SyncJobKind
+  options?: SyncJobPayload
+}) => {
+  const { verificationCode, ...options } = payload.options ?? {}
+  const job = await prisma.syncJob.create({
+    data: {
+      userId: payload.userId,
+      accountId: payload.accountId,
+      kind: payload.kind,
+      status: 'QUEUED',
+      payload: JSON.stringify(options),
+    },
+  })
+  if (verificationCode) {
+    verificationCodes.set(job.id, verificationCode)
+  }
+
+  const account = await prisma.externalAccount.update({
+    where: { id: payload.accountId },
+    data: {
+      status: 'CONNECTED',
+      statusMessage: null,
+      syncStatus: 'SYNCING',
+      syncTotal: 0,
+      syncCompleted: 0,
+      syncStartedAt: new Date(),
+      syncFinishedAt: null,
+    },
+  })
+
+  publishSyncEvent(job.userId, {
+    type: 'job',
+    jobId: job.id,
+    accountId: job.accountId,
+    status: job.status,
+  })
+  wakeSyncWorker()
+  return { job, account }
+}
+
+const claimNextJob = async () => {
+  const next = await prisma.syncJob.findFirst({
+    where: { status: 'QUEUED' },
+    orderBy: { createdAt: 'asc' },
+  })
+  if (!next) {
+    return null
+  }
+
+  const claimed = await prisma.syncJob.updateMany({
+    where: { id: next.id, status: 'QUEUED' },
+    data: {
+      status: 'RUNNING',
+      startedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  })
+  if (claimed.count === 0) {
+    return null
+  }
+
+  return prisma.syncJob.findUnique({ where: { id: next.id } })
+}
+
+const runSyncJob = async (job: SyncJobRecord) => {
+  const verificationCode = verificationCodes.get(job.id)
+  verificationCodes.delete(job.id)
+  const account = await prisma.externalAccount.findUnique({
+    where: { id: job.accountId },
+    include: { credential: true },
+  })
+  if (!account || !account.credential) {
+    throw new Error('External account not connected.')
+  }
+
+  await prisma.externalAccount.update({
+    where: { id: account.id },
+    data: {
+      status: 'CONNECTED',
+      statusMessage: null,
+      syncStatus: 'SYNCING',
+      syncTotal: 0,
+      syncCompleted: 0,
+      syncStartedAt: new Date(),
+      syncFinishedAt: null,
+    },
+  })
+
+  const password = decryptSecret({
+    encrypted: account.credential.encryptedPassword,
+    iv: account.credential.iv,
+    tag: account.credential.tag,
+  })
+  const options = parseJobPayload(job.payload)
+
+  return syncExternalAccount({
+    userId: job.userId,
+    provider: account.provider,
+    username: account.username,
+    password,
+    verificationCode,
+    onlyExamIds: options.onlyExamIds,
+    forceAttemptExamIds: options.forceAttemptExamIds,
+    attemptsOnly: options.attemptsOnly,
+    onProgress: async (progress: ScrapeProgress) => {
+      publishSyncEvent(job.userId, {
+        type: 'progress',
+        jobId: job.id,
+        accountId: account.id,
+        completed: progress.completed,
+        total: progress.total,
+        currentTitle: progress.currentTitle ?? null,
+      })
+      try {
+        await prisma.$transaction([
+          prisma.externalAccount.update({
+            where: { id: account.id },
+            data: {
+              syncTotal: progress.total,
+              syncCompleted: progress.completed,
+            },
+          }),
+          prisma.syncJob.update({
+            where: { id: job.id },
+            data: {
+              total: progress.total,
+              completed: progress.completed,
+            },
+          }),
+        ])
+      } catch (progressError) {
+        console.error(progressError)
+      }
+    },
+    onWarning: (message) => {
+      publishSyncEvent(job.userId, {
+        type: 'warning',
+        jobId: job.id,
+        accountId: account.id,
+        message,
+      })
+    },
+    onReport: (report) => {
+      publishSyncEvent(job.userId, {
+        type: 'result',
+        jobId: job.id,
+        accountId: account.id,
+        ...report,
+      })
+    },
+  })
+}
+
+const processJob = async (job: SyncJobRecord) => {
+  publishSyncEvent(job.userId, {
+    type: 'job',
+    jobId: job.id,
+    accountId: job.accountId,
+    status: 'RUNNING',
+  })
+  try {
+    const result = await runSyncJob(job)
+    const now = new Date()
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'SUCCEEDED',
+        result: JSON.stringify(result),
+        finishedAt: now,
+      },
+    })
+    await prisma.externalAccount.update({
+      where: { id: job.accountId },
+      data: {
+        status: 'CONNECTED',
+        statusMessage: null,
+        lastSyncAt: now,
+        syncStatus: 'IDLE',
+        syncFinishedAt: now,
+      },
+    })
+    publishSyncEvent(job.userId, {
+      type: 'job',
+      jobId: job.id,
+      accountId: job.accountId,
+      status: 'SUCCEEDED',
+    })
+  } catch (error) {
+    console.error(error)
+    const message =
+      error instanceof Error ? error.message : 'Sync failed. Check logs.'
+    const now = new Date()
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: { status: 'FAILED', error: message, finishedAt: now },
+    })
+    await prisma.externalAccount.updateMany({
+      where: { id: job.accountId },
+      data: {
+        status: 'ERROR',
+        statusMessage: message,
+        syncStatus: 'ERROR',
+        syncFinishedAt: now,
+      },
+    })
+    publishSyncEvent(job.userId, {
+      type: 'job',
+      jobId: job.id,
+      accountId: job.accountId,
+      status: 'FAILED',
+      error: message,
+    })
+  }
+}
+
+let workerTimer: ReturnType<typeof setTimeout> | null = null
+let workerRunning = false
+let workerStarted = false
+
+const tick = async () => {
+  if (workerRunning) {
+    return
+  }
+  workerRunning = true
+  workerTimer = null
+  try {
+    let job = await claimNextJob()
+    while (job) {
+      await processJob(job)
+      job = await claimNextJob()
+    }
+  } catch (error) {
+    console.error(error)
+  } finally {
+    workerRunning = false
+    workerTimer = setTimeout(() => void tick(), env.syncWorkerPollMs)
+  }
+}
+
+export const wakeSyncWorker = () => {
+  if (!workerStarted || workerRunning) {
+    return
+  }
+  if (workerTimer) {
+    clearTimeout(workerTimer)
+    workerTimer = null
+  }
+  void tick()
+}
+
+export const startSyncWorker = () => {
+  if (workerStarted) {
+    return
+  }
+  workerStarted = true
+  void tick()
+}
+
+export const recoverSyncJobs = async () => {
+  const now = new Date()
+  const interrupted = await prisma.syncJob.findMany({
+    where: { status: 'RUNNING' },
+  })
+  let requeued = 0
+  let failed = 0
+
+  // Older jobs stored the code in their payload; drop it from every row.
+  const withCodes = await prisma.syncJob.findMany({
+    where: { payload: { contains: 'verificationCode' } },
+    select: { id: true, payload: true },
+  })
+  for (const job of withCodes) {
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: { payload: JSON.stringify(parseJobPayload(job.payload)) },
+    })
+  }
+
+  for (const job of interrupted) {
+    if (job.attempts < MAX_JOB_ATTEMPTS) {
+      await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { status: 'QUEUED', startedAt: null },
+      })
+      requeued += 1
+      continue
+    }
+    failed += 1
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'FAILED',
+        error: 'Sync interrupted by a server restart.',
+        finishedAt: now,
+      },
+    })
+  }
+
+  const pending = await prisma.syncJob.findMany({
+    where: { status: { in: activeStatuses } },
+    select: { accountId: true },
+  })
+  await prisma.externalAccount.updateMany({
+    where: {
+      syncStatus: 'SYNCING',
+      id: { notIn: pending.map((job) => job.accountId) },
+    },
+    data: {
+      status: 'ERROR',
+      statusMessage: 'Sync interrupted by a server restart.',
+      syncStatus: 'ERROR',
+      syncFinishedAt: now,
+    },
+  })
+
+  return { requeued, failed }
+}
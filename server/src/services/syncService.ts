@@ -1,5 +1,11 @@
 ﻿import { prisma } from '../db.js'
-import { scrapeTestZ7iV2 } from '../scraper/testZ7iScraperV2.js'
+import { getProvider } from '../providers/registry.js'
+import { notifyRankChange } from './notificationService.js'
+import { suggestTopics } from './topicClassifier.js'
+import { parseStoredJson } from './attemptScoring.js'
+import { rescorePeerStats, updatePeerStatsForAttempt } from './peerStatsService.js'
+import { scrapeProvider } from '../providers/scrapeProvider.js'
+import type { ProviderAdapter } from '../providers/types.js'
 import type {
   ScrapeProgress,
   ScrapedAnswer,
@@ -8,6 +14,13 @@ import type {
   ScrapedReport,
   ScrapedScoreOverview,
 } from '../scraper/types.js'
+import { isMultiSelectType } from '../../../shared/scoring.js'
+
+export type SyncedReport = {
+  attemptId: string
+  externalExamId: string
+  title: string
+}
 
 type ExistingQuestion = {
   id: string
@@ -62,17 +75,6 @@ const buildAttemptOverviewUpdate = (overview?: ScrapedScoreOverview | null) => {
   return { rank }
 }
 
-const parseStoredJson = (value: string | null) => {
-  if (value === null) {
-    return null
-  }
-  try {
-    return JSON.parse(value) as unknown
-  } catch {
-    return value
-  }
-}
-
 const serializeJson = (value: unknown) => JSON.stringify(value ?? null)
 
 const parseOptionTokens = (value: string) =>
@@ -123,7 +125,7 @@ const parseAnswerValue = (
     return null
   }
 
-  if (qtype === 'MAQ') {
+  if (isMultiSelectType(qtype)) {
     return Array.from(new Set(tokens)).sort()
   }
 
@@ -137,7 +139,7 @@ const ensureAnswerValue = (
   if (value !== null && value !== undefined) {
     return value
   }
-  if (qtype === 'MAQ') {
+  if (isMultiSelectType(qtype)) {
     return []
   }
   if (qtype === 'NAT') {
@@ -161,7 +163,7 @@ const assignQuestionNumbers = (questions: ScrapedQuestion[]) => {
   })
 }
 
-const upsertExam = async (report: ScrapedReport) => {
+const upsertExam = async (provider: string, report: ScrapedReport) => {
   const normalized = normalizeReport(report)
   if (!normalized.externalExamId) {
     throw new Error('Missing external exam id.')
@@ -174,12 +176,18 @@ const upsertExam = async (report: ScrapedReport) => {
   }
 
   const exam = await prisma.exam.upsert({
-    where: { externalExamId: normalized.externalExamId },
+    where: {
+      provider_externalExamId: {
+        provider,
+        externalExamId: normalized.externalExamId,
+      },
+    },
     update: {
       title: normalized.title,
       examDate: normalized.examDate,
     },
     create: {
+      provider,
       externalExamId: normalized.externalExamId,
       title: normalized.title,
       examDate: normalized.examDate,
@@ -211,10 +219,10 @@ const upsertExam = async (report: ScrapedReport) => {
       question.correctAnswerRaw ??
       answerKeyBySourceNumber.get(question.sourceNumber) ??
       null
-    const parsedCorrectAnswer = parseAnswerValue(
-      fallbackCorrectAnswer,
-      question.qtype,
-    )
+    const parsedCorrectAnswer =
+      question.correctKey !== undefined
+        ? question.correctKey
+        : parseAnswerValue(fallbackCorrectAnswer, question.qtype)
     const ensuredCorrectAnswer = ensureAnswerValue(
       parsedCorrectAnswer,
       question.qtype,
@@ -239,6 +247,7 @@ const upsertExam = async (report: ScrapedReport) => {
           correctMarking: question.correctMarking,
           incorrectMarking: question.incorrectMarking,
           unattemptedMarking: question.unattemptedMarking,
+          partialMarking: question.partialMarking,
           questionNumber: question.questionNumber,
           keyUpdate: storedKeyUpdate,
           lastKeyUpdateTime: null,
@@ -277,6 +286,7 @@ const upsertExam = async (report: ScrapedReport) => {
         correctMarking: question.correctMarking,
         incorrectMarking: question.incorrectMarking,
         unattemptedMarking: question.unattemptedMarking,
+        partialMarking: question.partialMarking,
         questionNumber: question.questionNumber,
         ...(shouldSetKeyUpdate
           ? { keyUpdate: serializeJson(nextCorrectAnswer) }
@@ -296,6 +306,15 @@ const upsertExam = async (report: ScrapedReport) => {
     })
   }
 
+  await rescorePeerStats(exam.id)
+
+  // A broken or missing topic model must never fail the sync itself.
+  try {
+    await suggestTopics({ examId: exam.id })
+  } catch (error) {
+    console.error(error)
+  }
+
   return { examId: exam.id, questionBySourceNumber, questionByNumber }
 }
 
@@ -356,6 +375,15 @@ const upsertAttempt = async (payload: {
   }
 
   const overview = buildAttemptOverviewUpdate(payload.scoreOverview)
+  const existing = await prisma.attempt.findUnique({
+    where: {
+      userId_examId: {
+        userId: payload.userId,
+        examId: payload.examId,
+      },
+    },
+    select: { rank: true },
+  })
   const attempt = await prisma.attempt.upsert({
     where: {
       userId_examId: {
@@ -373,14 +401,52 @@ const upsertAttempt = async (payload: {
       examId: payload.examId,
       answers: serializeJson(answerByQuestionId),
       timings: serializeJson(timingByQuestionId),
-      bookmarks: serializeJson({}),
+      annotations: serializeJson({}),
       ...overview,
     },
   })
 
+  await updatePeerStatsForAttempt(attempt.id)
+
+  if (
+    existing?.rank !== null &&
+    existing?.rank !== undefined &&
+    attempt.rank !== null &&
+    attempt.rank !== existing.rank
+  ) {
+    await notifyRankChange({
+      attemptId: attempt.id,
+      previousRank: existing.rank,
+      rank: attempt.rank,
+    })
+  }
+
   return attempt
 }
 
+export const importReport = async (payload: {
+  userId: string
+  provider: string
+  report: ScrapedReport
+}): Promise<SyncedReport> => {
+  const normalized = normalizeReport(payload.report)
+  const created = await upsertExam(payload.provider, payload.report)
+  const attempt = await upsertAttempt({
+    userId: payload.userId,
+    examId: created.examId,
+    questionByNumber: created.questionBySourceNumber,
+    fallbackByNumber: created.questionByNumber,
+    answers: normalized.answers,
+    scoreOverview: normalized.scoreOverview,
+  })
+
+  return {
+    attemptId: attempt.id,
+    externalExamId: normalized.externalExamId,
+    title: normalized.title,
+  }
+}
+
 export const syncExternalAccount = async (payload: {
   userId: string
   provider: string
@@ -391,13 +457,18 @@ export const syncExternalAccount = async (payload: {
   forceAttemptExamIds?: string[]
   attemptsOnly?: boolean
   onProgress?: (progress: ScrapeProgress) => Promise<void> | void
+  onWarning?: (message: string) => Promise<void> | void
+  onReport?: (report: SyncedReport) => Promise<void> | void
+  // Overrides the registered adapter; the replay script passes its own.
+  adapter?: ProviderAdapter
 }) => {
-  if (payload.provider !== 'test.z7i.in') {
+  const provider = payload.adapter ?? getProvider(payload.provider)
+  if (!provider) {
     throw new Error(`Unsupported provider: ${payload.provider}`)
   }
 
   const existingAttempts = await prisma.attempt.findMany({
-    where: { userId: payload.userId },
+    where: { userId: payload.userId, exam: { provider: provider.id } },
     select: { exam: { select: { externalExamId: true } } },
   })
   const attemptedExamIds = new Set(
@@ -412,44 +483,27 @@ export const syncExternalAccount = async (payload: {
     attemptedExamIds.delete(examId)
   })
 
-  const existingExams = await prisma.exam.findMany({
-    select: {
-      externalExamId: true,
-      questions: { select: { id: true }, take: 1 },
-    },
-  })
-  const existingIds = new Set(
-    existingExams
-      .map((exam: { externalExamId: string | null }) => exam.externalExamId)
-      .filter(Boolean) as string[],
-  )
-  const forceFullIds = new Set(
-    existingExams
-      .filter(
-        (exam: { externalExamId: string | null; questions: Array<{ id: string }> }) =>
-          exam.externalExamId && exam.questions.length === 0,
-      )
-      .map((exam: { externalExamId: string | null }) => exam.externalExamId as string),
-  )
-
-  const result = await scrapeTestZ7iV2({
+  const result = await scrapeProvider(provider, {
     username: payload.username,
     password: payload.password,
     verificationCode: payload.verificationCode,
-    existingExamIds: Array.from(existingIds),
-    forceFullExamIds: Array.from(forceFullIds),
     skipExamIds: Array.from(attemptedExamIds),
     onlyExamIds: payload.onlyExamIds,
     onProgress: payload.onProgress,
+    onWarning: payload.onWarning,
   })
 
   const saved = [] as Array<{ id: string; title: string }>
   const warnings = [...result.warnings]
+  const warn = async (message: string) => {
+    warnings.push(message)
+    await payload.onWarning?.(message)
+  }
 
   for (const report of result.reports) {
     const normalized = normalizeReport(report)
     if (!normalized.externalExamId) {
-      warnings.push('Skipping report with missing exam id.')
+      await warn('Skipping report with missing exam id.')
       continue
     }
 
@@ -464,7 +518,7 @@ export const syncExternalAccount = async (payload: {
       | undefined
 
     if (useQuestions.length > 0) {
-      const created = await upsertExam({
+      const created = await upsertExam(provider.id, {
         externalExamId: normalized.externalExamId,
         title: normalized.title,
         examDate: normalized.examDate,
@@ -476,10 +530,15 @@ export const syncExternalAccount = async (payload: {
       fallbackByNumber = created.questionByNumber
     } else {
       const exam = await prisma.exam.findUnique({
-        where: { externalExamId: normalized.externalExamId },
+        where: {
+          provider_externalExamId: {
+            provider: provider.id,
+            externalExamId: normalized.externalExamId,
+          },
+        },
       })
       if (!exam) {
-        warnings.push(`Exam not found for report ${normalized.title}.`)
+        await warn(`Exam not found for report ${normalized.title}.`)
         continue
       }
       examId = exam.id
@@ -500,6 +559,11 @@ export const syncExternalAccount = async (payload: {
     })
 
     saved.push({ id: attempt.id, title: normalized.title })
+    await payload.onReport?.({
+      attemptId: attempt.id,
+      externalExamId: normalized.externalExamId,
+      title: normalized.title,
+    })
   }
 
   return {
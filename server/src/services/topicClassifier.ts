@@ -0,0 +1,234 @@
+import { readFile, stat, writeFile } from 'fs/promises'
+import { env } from '../config.js'
+import { prisma } from '../db.js'
+import { PRACTICE_PROVIDER } from './practiceService.js'
+
+export const MIN_SUGGESTION_CONFIDENCE = 0.1
+const MAX_TERMS_PER_TOPIC = 300
+
+export type TopicModel = {
+  version: 1
+  trainedAt: string
+  documentCount: number
+  idf: Record<string, number>
+  topics: Array<{ id: string; subject: string; terms: Record<string, number> }>
+}
+
+type Vector = Map<string, number>
+
+let cachedModel: { mtimeMs: number; model: TopicModel } | null = null
+
+type ClassifiableQuestion = {
+  subject: string
+  questionContent: string
+  optionContentA: string | null
+  optionContentB: string | null
+  optionContentC: string | null
+  optionContentD: string | null
+}
+
+const stopWords = new Set(
+  `the and for are but not you all any can had her was one our out has him his how its may new now
+  see two who did get let put say she too use that with have this will your from they been were
+  which their there what when where then than them these those into only other some such also each
+  given find value following statement statements correct incorrect option options respectively
+  shown figure below above let true false both none either number equal equals`.split(/\s+/),
+)
+
+const tokenize = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z0-9#]+;/gi, ' ')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((token) => token.length >= 3 && !stopWords.has(token))
+
+const questionText = (question: ClassifiableQuestion) =>
+  [
+    question.questionContent,
+    question.optionContentA,
+    question.optionContentB,
+    question.optionContentC,
+    question.optionContentD,
+  ]
+    .filter(Boolean)
+    .join(' ')
+
+const normalize = (vector: Vector) => {
+  const length = Math.sqrt(
+    Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0),
+  )
+  if (length > 0) {
+    vector.forEach((weight, term) => vector.set(term, weight / length))
+  }
+  return vector
+}
+
+const toVector = (tokens: string[], idf: Record<string, number>) => {
+  const vector: Vector = new Map()
+  tokens.forEach((token) => {
+    const weight = idf[token]
+    if (weight !== undefined) {
+      vector.set(token, (vector.get(token) ?? 0) + weight)
+    }
+  })
+  return normalize(vector)
+}
+
+// Builds one TF-IDF centroid per topic from every admin-confirmed tag. Only the
+// heaviest terms of each centroid are kept so the artifact stays small.
+export const trainTopicModel = async (): Promise<TopicModel> => {
+  const questions = await prisma.question.findMany({
+    where: { topicId: { not: null }, exam: { provider: { not: PRACTICE_PROVIDER } } },
+    select: {
+      topicId: true,
+      subject: true,
+      questionContent: true,
+      optionContentA: true,
+      optionContentB: true,
+      optionContentC: true,
+      optionContentD: true,
+    },
+  })
+
+  const documents = questions.map((question) => ({
+    topicId: question.topicId as string,
+    subject: question.subject,
+    tokens: tokenize(questionText(question)),
+  }))
+
+  const documentFrequency = new Map<string, number>()
+  documents.forEach(({ tokens }) => {
+    new Set(tokens).forEach((token) => {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1)
+    })
+  })
+  const idf: Record<string, number> = {}
+  documentFrequency.forEach((count, token) => {
+    idf[token] = Math.log((documents.length + 1) / (count + 1)) + 1
+  })
+
+  const centroids = new Map<string, { subject: string; vector: Vector }>()
+  documents.forEach((document) => {
+    const centroid = centroids.get(document.topicId) ?? {
+      subject: document.subject,
+      vector: new Map(),
+    }
+    toVector(document.tokens, idf).forEach((weight, term) => {
+      centroid.vector.set(term, (centroid.vector.get(term) ?? 0) + weight)
+    })
+    centroids.set(document.topicId, centroid)
+  })
+
+  const topics = Array.from(centroids.entries()).map(([id, centroid]) => {
+    const kept = new Map(
+      Array.from(normalize(centroid.vector).entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_TERMS_PER_TOPIC),
+    )
+    const terms: Record<string, number> = {}
+    normalize(kept).forEach((weight, term) => {
+      terms[term] = Number(weight.toFixed(5))
+    })
+    return { id, subject: centroid.subject, terms }
+  })
+
+  const usedTerms = new Set(topics.flatMap((topic) => Object.keys(topic.terms)))
+  const model: TopicModel = {
+    version: 1,
+    trainedAt: new Date().toISOString(),
+    documentCount: documents.length,
+    idf: Object.fromEntries(
+      Object.entries(idf)
+        .filter(([term]) => usedTerms.has(term))
+        .map(([term, weight]) => [term, Number(weight.toFixed(5))]),
+    ),
+    topics,
+  }
+
+  await writeFile(env.topicModelPath, JSON.stringify(model), 'utf8')
+  cachedModel = null
+  return model
+}
+
+export const loadTopicModel = async () => {
+  try {
+    const { mtimeMs } = await stat(env.topicModelPath)
+    if (cachedModel && cachedModel.mtimeMs >= mtimeMs) {
+      return cachedModel.model
+    }
+    const model = JSON.parse(await readFile(env.topicModelPath, 'utf8')) as TopicModel
+    cachedModel = { mtimeMs, model }
+    return model
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+export const classifyQuestion = (model: TopicModel, question: ClassifiableQuestion) => {
+  const vector = toVector(tokenize(questionText(question)), model.idf)
+  let best: { topicId: string; confidence: number } | null = null
+  for (const topic of model.topics) {
+    if (topic.subject !== question.subject) {
+      continue
+    }
+    let similarity = 0
+    vector.forEach((weight, term) => {
+      similarity += weight * (topic.terms[term] ?? 0)
+    })
+    if (!best || similarity > best.confidence) {
+      best = { topicId: topic.id, confidence: similarity }
+    }
+  }
+  if (!best || best.confidence < MIN_SUGGESTION_CONFIDENCE) {
+    return null
+  }
+  return { topicId: best.topicId, confidence: Number(best.confidence.toFixed(3)) }
+}
+
+// Refreshes pending suggestions for untagged questions. A suggestion the admin
+// rejected is only replaced when the model now points at a different topic.
+export const suggestTopics = async (where: { examId?: string } = {}) => {
+  const model = await loadTopicModel()
+  if (!model || model.topics.length === 0) {
+    return 0
+  }
+
+  const [questions, topics] = await Promise.all([
+    prisma.question.findMany({
+      where: { ...where, topicId: null, exam: { provider: { not: PRACTICE_PROVIDER } } },
+      include: { topicSuggestion: true },
+    }),
+    prisma.topic.findMany({ select: { id: true } }),
+  ])
+  const topicIds = new Set(topics.map((topic) => topic.id))
+
+  let suggested = 0
+  for (const question of questions) {
+    const result = classifyQuestion(model, question)
+    const existing = question.topicSuggestion
+    if (!result || !topicIds.has(result.topicId)) {
+      if (existing?.status === 'pending') {
+        await prisma.topicSuggestion.delete({ where: { id: existing.id } })
+      }
+      continue
+    }
+    if (existing?.status === 'rejected' && existing.topicId === result.topicId) {
+      continue
+    }
+    await prisma.topicSuggestion.upsert({
+      where: { questionId: question.id },
+      update: { topicId: result.topicId, confidence: result.confidence, status: 'pending' },
+      create: {
+        questionId: question.id,
+        topicId: result.topicId,
+        confidence: result.confidence,
+      },
+    })
+    suggested += 1
+  }
+  return suggested
+}
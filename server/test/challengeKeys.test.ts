@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { validateAnswerKey } from '../../shared/scoring.js'
+
+// Mirrors what the challenge routes store for a proposed key. The duplicate
+// check and isCurrentKey compare this string, so keys written differently
+// must store the same way.
+const storedKey = (input: unknown, qtype: string) => {
+  const validated = validateAnswerKey(
+    typeof input === 'string' ? input.trim().toUpperCase() : input,
+    qtype,
+  )
+  assert.ok(validated.ok, `${JSON.stringify(input)} should be a valid ${qtype} key`)
+  return JSON.stringify(validated.key)
+}
+
+const sameKeys = (qtype: string, inputs: unknown[], expected: string) => {
+  inputs.forEach((input) => {
+    it(`stores ${JSON.stringify(input)} as ${expected}`, () => {
+      assert.equal(storedKey(input, qtype), expected)
+    })
+  })
+}
+
+describe('proposed challenge keys', () => {
+  describe('BONUS', () => {
+    sameKeys('MCQ', ['BONUS', 'bonus', ' Bonus ', { bonus: true }], '{"bonus":true}')
+    sameKeys('NAT', ['BONUS'], '{"bonus":true}')
+  })
+
+  describe('MAQ written in different ways', () => {
+    sameKeys('MAQ', ['AC', 'A,C', 'c, a', 'A C', ['C', 'A']], '["A","C"]')
+    sameKeys('VMAQ', ['BD OR AC', 'db | ca'], '"BD OR AC"')
+  })
+
+  describe('MCQ with several accepted options', () => {
+    sameKeys('MCQ', ['A,C', 'A OR C', 'c|a'], '"A OR C"')
+  })
+
+  describe('NAT ranges', () => {
+    sameKeys('NAT', ['1.5 to 2', '1.5-2', '1.5 TO 2'], '{"min":1.5,"max":2}')
+  })
+})
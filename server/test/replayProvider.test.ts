@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict'
+import { fileURLToPath } from 'node:url'
+import { after, before, describe, it } from 'node:test'
+import type { ProviderSession, ProviderTest } from '../src/providers/types.js'
+
+// config.ts requires these at import time; replay never reaches the database
+// or the live site.
+process.env.DATABASE_URL ??= 'file:./test.db'
+process.env.JWT_SECRET ??= 'test-secret'
+process.env.ENCRYPTION_KEY ??= 'test-encryption-key'
+process.env.SCRAPER_PACKAGE_ID = ''
+process.env.SCRAPER_DEBUG_DIR = ''
+
+const { createTestZ7iReplayProvider } = await import('../src/scraper/testZ7iScraperV2.js')
+
+const fixtureDir = fileURLToPath(new URL('./fixtures/z7i-replay', import.meta.url))
+
+describe('test.z7i.in replay provider', () => {
+  let session: ProviderSession
+  let tests: ProviderTest[]
+
+  before(async () => {
+    session = await createTestZ7iReplayProvider(fixtureDir).openSession({
+      username: 'replay',
+      password: 'replay',
+    })
+    tests = await session.listTests()
+  })
+
+  after(() => session.close())
+
+  it('lists the tests from the package details', () => {
+    assert.deepEqual(tests, [
+      {
+        externalExamId: '65f1a0c2e4b0a1b2c3d40001',
+        title: 'JEE Main Mock 1',
+        examDate: '2025-01-10',
+      },
+      {
+        externalExamId: '65f1a0c2e4b0a1b2c3d40002',
+        title: 'JEE Main Mock 2',
+        examDate: '2025-01-24',
+      },
+    ])
+  })
+
+  it('parses the score overview and questionwise report', async () => {
+    const warnings: string[] = []
+    const report = await session.fetchReport(tests[0], async (message) => {
+      warnings.push(message)
+    })
+
+    assert.equal(report.externalExamId, '65f1a0c2e4b0a1b2c3d40001')
+    assert.equal(report.title, 'JEE Main Mock 1 (Shift 2)')
+    assert.equal(report.examDate, '2025-01-12')
+    assert.deepEqual(report.scoreOverview, { rank: 120 })
+    assert.deepEqual(warnings, ['Unknown subject for question 4.'])
+
+    assert.deepEqual(
+      report.questions?.map((question) => ({
+        sourceNumber: question.sourceNumber,
+        subject: question.subject,
+        qtype: question.qtype,
+        correctAnswerRaw: question.correctAnswerRaw,
+        options: [
+          question.optionContentA,
+          question.optionContentB,
+          question.optionContentC,
+          question.optionContentD,
+        ],
+        hasPartial: question.hasPartial,
+        marking: [
+          question.correctMarking,
+          question.incorrectMarking,
+          question.unattemptedMarking,
+          question.partialMarking,
+        ],
+      })),
+      [
+        {
+          sourceNumber: 1,
+          subject: 'PHYSICS',
+          qtype: 'MCQ',
+          correctAnswerRaw: 'B',
+          options: ['1 m/s', '2 m/s', '3 m/s', '4 m/s'],
+          hasPartial: false,
+          marking: [4, -1, 0, 0],
+        },
+        {
+          sourceNumber: 2,
+          subject: 'CHEMISTRY',
+          qtype: 'MAQ',
+          correctAnswerRaw: 'A,C',
+          options: ['Benzene', 'Cyclohexane', 'Pyridine', 'Cyclobutadiene'],
+          hasPartial: true,
+          marking: [4, -2, 0, 1],
+        },
+        {
+          sourceNumber: 3,
+          subject: 'MATHEMATICS',
+          qtype: 'NAT',
+          correctAnswerRaw: '2.5',
+          options: [null, null, null, null],
+          hasPartial: false,
+          marking: [4, -1, 0, 0],
+        },
+      ],
+    )
+    assert.deepEqual(report.answers, [
+      { sourceNumber: 1, selectedAnswerRaw: 'B', correctAnswerRaw: 'B', timeSpentSec: 45 },
+      { sourceNumber: 2, selectedAnswerRaw: 'A', correctAnswerRaw: 'A,C', timeSpentSec: 90 },
+      { sourceNumber: 3, selectedAnswerRaw: null, correctAnswerRaw: '2.5', timeSpentSec: 0 },
+    ])
+  })
+
+  it('warns and returns no questions when a report was not captured', async () => {
+    const warnings: string[] = []
+    const report = await session.fetchReport(tests[1], async (message) => {
+      warnings.push(message)
+    })
+
+    assert.equal(report.title, 'JEE Main Mock 2')
+    assert.equal(report.scoreOverview, undefined)
+    assert.deepEqual(report.questions, [])
+    assert.deepEqual(warnings, ['Questionwise response malformed for JEE Main Mock 2.'])
+  })
+})
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  scoreQuestion,
+  type QuestionScore,
+  type ScoringQuestion,
+} from '../../shared/scoring.js'
+
+const mcq: ScoringQuestion = {
+  qtype: 'MCQ',
+  correctMarking: 4,
+  incorrectMarking: -1,
+  unattemptedMarking: 0,
+  partialMarking: 0,
+  partialPolicy: 'per-option',
+}
+
+const maq: ScoringQuestion = {
+  ...mcq,
+  qtype: 'MAQ',
+  incorrectMarking: -2,
+  partialMarking: 1,
+}
+
+const nat: ScoringQuestion = { ...mcq, qtype: 'NAT', incorrectMarking: 0 }
+
+type Case = {
+  name: string
+  question: ScoringQuestion
+  answer: unknown
+  key: unknown
+  expected: QuestionScore
+}
+
+const correct = (mark: number): QuestionScore => ({ status: 'correct', mark, bonus: false })
+const incorrect = (mark: number): QuestionScore => ({ status: 'incorrect', mark, bonus: false })
+const partial = (mark: number): QuestionScore => ({ status: 'partial', mark, bonus: false })
+const unattempted = (mark: number): QuestionScore => ({
+  status: 'unattempted',
+  mark,
+  bonus: false,
+})
+
+const runCases = (cases: Case[]) => {
+  cases.forEach(({ name, question, answer, key, expected }) => {
+    it(name, () => {
+      assert.deepEqual(scoreQuestion(question, answer, key), expected)
+    })
+  })
+}
+
+describe('scoreQuestion', () => {
+  describe('MCQ', () => {
+    runCases([
+      { name: 'matches the key', question: mcq, answer: 'B', key: 'B', expected: correct(4) },
+      { name: 'ignores case', question: mcq, answer: 'b', key: 'B', expected: correct(4) },
+      { name: 'marks a wrong option', question: mcq, answer: 'A', key: 'B', expected: incorrect(-1) },
+      { name: 'treats null as unattempted', question: mcq, answer: null, key: 'B', expected: unattempted(0) },
+      { name: 'treats a blank string as unattempted', question: mcq, answer: '  ', key: 'B', expected: unattempted(0) },
+      { name: 'accepts any option of a comma key', question: mcq, answer: 'C', key: 'A,C', expected: correct(4) },
+      { name: 'rejects options outside a comma key', question: mcq, answer: 'B', key: 'A,C', expected: incorrect(-1) },
+    ])
+  })
+
+  describe('MAQ partial credit', () => {
+    runCases([
+      { name: 'gives full marks for the exact set', question: maq, answer: ['A', 'C'], key: ['A', 'C'], expected: correct(4) },
+      { name: 'ignores option order', question: maq, answer: 'CA', key: 'AC', expected: correct(4) },
+      { name: 'gives per-option credit for a correct subset', question: maq, answer: ['A'], key: ['A', 'C', 'D'], expected: partial(1) },
+      { name: 'marks any wrong option as incorrect', question: maq, answer: ['A', 'B'], key: ['A', 'C'], expected: incorrect(-2) },
+      { name: 'treats an empty selection as unattempted', question: maq, answer: [], key: ['A', 'C'], expected: unattempted(0) },
+      {
+        name: 'scales marks under the proportional policy',
+        question: { ...maq, partialPolicy: 'proportional' },
+        answer: ['A'],
+        key: ['A', 'C', 'D'],
+        expected: partial(1.33),
+      },
+      {
+        name: 'gives nothing short of the full set under all-or-nothing',
+        question: { ...maq, partialPolicy: 'all-or-nothing' },
+        answer: ['A'],
+        key: ['A', 'C'],
+        expected: incorrect(-2),
+      },
+      {
+        name: 'nets correct and wrong options under penalty-per-wrong',
+        question: { ...maq, partialPolicy: 'penalty-per-wrong', incorrectMarking: -1 },
+        answer: ['A', 'C', 'B'],
+        key: ['A', 'C', 'D'],
+        expected: partial(1),
+      },
+      {
+        name: 'falls back to per-option for an unknown policy',
+        question: { ...maq, partialPolicy: 'unknown' },
+        answer: ['A'],
+        key: ['A', 'C'],
+        expected: partial(1),
+      },
+    ])
+  })
+
+  describe('VMAQ', () => {
+    const vmaq: ScoringQuestion = { ...maq, qtype: 'VMAQ' }
+    runCases([
+      { name: 'scores like MAQ for the exact set', question: vmaq, answer: 'BD', key: 'BD', expected: correct(4) },
+      { name: 'gives partial credit like MAQ', question: vmaq, answer: 'B', key: 'BD', expected: partial(1) },
+      { name: 'marks a wrong option as incorrect', question: vmaq, answer: 'BC', key: 'BD', expected: incorrect(-2) },
+    ])
+  })
+
+  describe('NAT', () => {
+    runCases([
+      { name: 'matches an exact number', question: nat, answer: '12', key: 12, expected: correct(4) },
+      { name: 'matches a numeric string key', question: nat, answer: 2.5, key: '2.5', expected: correct(4) },
+      { name: 'rejects a different number', question: nat, answer: '13', key: 12, expected: incorrect(0) },
+      { name: 'accepts a value inside a range key', question: nat, answer: '1.75', key: { min: 1.5, max: 2 }, expected: correct(4) },
+      { name: 'includes the range bounds', question: nat, answer: '2', key: { min: 1.5, max: 2 }, expected: correct(4) },
+      { name: 'rejects a value outside a range key', question: nat, answer: '2.01', key: { min: 1.5, max: 2 }, expected: incorrect(0) },
+      { name: 'reads a "to" range string', question: nat, answer: '1.6', key: '1.5 to 2', expected: correct(4) },
+      { name: 'reads a dashed range string', question: nat, answer: '1.6', key: '1.5-2', expected: correct(4) },
+      { name: 'rejects a non-numeric answer', question: nat, answer: 'abc', key: 12, expected: incorrect(0) },
+    ])
+  })
+
+  describe('OR alternatives', () => {
+    runCases([
+      { name: 'accepts either MCQ option', question: mcq, answer: 'C', key: 'A OR C', expected: correct(4) },
+      { name: 'accepts pipe-separated MCQ options', question: mcq, answer: 'A', key: 'A | C', expected: correct(4) },
+      { name: 'rejects an MCQ option in no alternative', question: mcq, answer: 'B', key: 'A OR C', expected: incorrect(-1) },
+      { name: 'accepts any complete MAQ group', question: maq, answer: 'BD', key: 'AC OR BD', expected: correct(4) },
+      { name: 'gives the best partial credit across MAQ groups', question: maq, answer: 'B', key: 'AC OR BD', expected: partial(1) },
+      { name: 'accepts a NAT answer in the second range', question: nat, answer: '3', key: '1 to 2 OR 3', expected: correct(4) },
+      { name: 'accepts a NAT answer in the first range', question: nat, answer: '1.5', key: '1 to 2 OR 3', expected: correct(4) },
+      { name: 'rejects a NAT answer in no alternative', question: nat, answer: '2.5', key: '1 to 2 OR 3', expected: incorrect(0) },
+    ])
+  })
+
+  describe('bonus keys', () => {
+    const bonus = (mark: number): QuestionScore => ({ status: 'correct', mark, bonus: true })
+    runCases([
+      { name: 'awards full marks for a wrong answer', question: mcq, answer: 'A', key: { bonus: true }, expected: bonus(4) },
+      { name: 'awards full marks when unattempted', question: mcq, answer: null, key: { bonus: true }, expected: bonus(4) },
+      { name: 'applies to MAQ', question: maq, answer: ['A'], key: { bonus: true }, expected: bonus(4) },
+      { name: 'applies to NAT', question: nat, answer: '7', key: { bonus: true }, expected: bonus(4) },
+    ])
+  })
+})
@@ -0,0 +1,541 @@
+import {
+  isBonusKey,
+  isUnattemptedAnswer,
+  scoreQuestion,
+  type AnswerValue,
+  type ScoringQuestion,
+} from './scoring.js'
+
+export const analysisKeySources = ['official', 'revised', 'personal'] as const
+
+export type AnalysisKeySource = (typeof analysisKeySources)[number]
+
+export const isAnalysisKeySource = (value: unknown): value is AnalysisKeySource =>
+  typeof value === 'string' && (analysisKeySources as readonly string[]).includes(value)
+
+export type AnalysisQuestion = ScoringQuestion & {
+  id: string
+  subject: string
+  questionNumber: number
+  correctAnswer: AnswerValue
+  keyUpdate: AnswerValue
+  lastKeyUpdateTime: string | null
+  topicId: string | null
+}
+
+export type AnalysisAttempt<Q extends AnalysisQuestion = AnalysisQuestion> = {
+  answers: Record<string, AnswerValue>
+  timings: Record<string, number>
+  keyOverrides?: Record<string, AnswerValue>
+  questions: Q[]
+}
+
+export type AnalysisTopic = {
+  id: string
+  subject: string
+  name: string
+}
+
+const round = (value: number, digits = 1) =>
+  Number(value.toFixed(digits))
+
+const getAccuracy = (correct: number, attempted: number) =>
+  attempted === 0 ? 0 : round((correct / attempted) * 100, 1)
+
+const getPercent = (value: number, total: number) =>
+  total === 0 ? 0 : round((value / total) * 100, 1)
+
+const getPercentile = (values: number[], percentile: number) => {
+  if (values.length === 0) {
+    return 0
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1),
+  )
+  return sorted[index]
+}
+
+export const getAnswerForQuestion = (
+  test: Pick<AnalysisAttempt, 'answers'>,
+  question: { id: string },
+): AnswerValue => test.answers[question.id] ?? null
+
+export const getTimeForQuestion = (
+  test: Pick<AnalysisAttempt, 'timings'>,
+  question: { id: string },
+): number => test.timings[question.id] ?? 0
+
+const statusLabels = {
+  correct: 'Correct',
+  partial: 'Partial',
+  incorrect: 'Incorrect',
+  unattempted: 'Unattempted',
+} as const
+
+export const resolveQuestionKey = (
+  test: Pick<AnalysisAttempt, 'keyOverrides'>,
+  question: Pick<AnalysisQuestion, 'id' | 'correctAnswer' | 'keyUpdate'>,
+  source: AnalysisKeySource = 'personal',
+): AnswerValue => {
+  if (source === 'official') {
+    return question.correctAnswer
+  }
+  const override = source === 'personal' ? test.keyOverrides?.[question.id] : null
+  return override ?? question.keyUpdate
+}
+
+const scoreTestQuestion = (
+  test: AnalysisAttempt,
+  question: AnalysisQuestion,
+  source: AnalysisKeySource,
+) =>
+  scoreQuestion(
+    question,
+    getAnswerForQuestion(test, question),
+    resolveQuestionKey(test, question, source),
+  )
+
+export const getQuestionMark = (
+  test: AnalysisAttempt,
+  question: AnalysisQuestion,
+  source: AnalysisKeySource = 'personal',
+) => scoreTestQuestion(test, question, source).mark
+
+export const getQuestionStatus = (
+  test: AnalysisAttempt,
+  question: AnalysisQuestion,
+  source: AnalysisKeySource = 'personal',
+) => statusLabels[scoreTestQuestion(test, question, source).status]
+
+export const buildAttemptAnalysis = <
+  Q extends AnalysisQuestion,
+  T extends AnalysisTopic = AnalysisTopic,
+>(
+  test: AnalysisAttempt<Q>,
+  keySource: AnalysisKeySource = 'personal',
+  topics: T[] = [],
+) => {
+  const questions = [...test.questions].sort(
+    (a, b) => a.questionNumber - b.questionNumber,
+  )
+
+  let attempted = 0
+  let correct = 0
+  let partial = 0
+  let scoreCurrent = 0
+  let scoreOriginal = 0
+  let maxMarks = 0
+  let totalTime = 0
+  let attemptedTime = 0
+
+  const questionSnapshots = questions.map((question) => {
+    const selected = getAnswerForQuestion(test, question)
+    const status = getQuestionStatus(test, question, keySource)
+    const timeSpent = getTimeForQuestion(test, question)
+    const attemptedFlag =
+      isBonusKey(resolveQuestionKey(test, question, keySource)) ||
+      !isUnattemptedAnswer(selected)
+    if (attemptedFlag) {
+      attempted += 1
+      attemptedTime += timeSpent
+    }
+    if (status === 'Correct') {
+      correct += 1
+    }
+    if (status === 'Partial') {
+      partial += 1
+    }
+    scoreCurrent += getQuestionMark(test, question, keySource)
+    scoreOriginal += getQuestionMark(test, question, 'official')
+    maxMarks += question.correctMarking
+    totalTime += timeSpent
+
+    return {
+      id: question.id,
+      number: question.questionNumber,
+      subject: question.subject,
+      qtype: question.qtype,
+      topicId: question.topicId,
+      status,
+      time: timeSpent,
+      attempted: attemptedFlag,
+    }
+  })
+
+  const total = questions.length
+  const incorrect = Math.max(attempted - correct - partial, 0)
+  const unattempted = total - attempted
+  const avgTime = total === 0 ? 0 : totalTime / total
+  const avgAttemptedTime = attempted === 0 ? 0 : attemptedTime / attempted
+  const attemptRate = getPercent(attempted, total)
+
+  const subjectMap = new Map<
+    string,
+    {
+      total: number
+      attempted: number
+      correct: number
+      partial: number
+      score: number
+      maxMarks: number
+      time: number
+      attemptedTime: number
+    }
+  >()
+
+  questions.forEach((question) => {
+    const selected = getAnswerForQuestion(test, question)
+    const status = getQuestionStatus(test, question, keySource)
+    const entry = subjectMap.get(question.subject) ?? {
+      total: 0,
+      attempted: 0,
+      correct: 0,
+      partial: 0,
+      score: 0,
+      maxMarks: 0,
+      time: 0,
+      attemptedTime: 0,
+    }
+
+    entry.total += 1
+    entry.score += getQuestionMark(test, question, keySource)
+    entry.maxMarks += question.correctMarking
+    entry.time += getTimeForQuestion(test, question)
+
+    if (
+      isBonusKey(resolveQuestionKey(test, question, keySource)) ||
+      !isUnattemptedAnswer(selected)
+    ) {
+      entry.attempted += 1
+      entry.attemptedTime += getTimeForQuestion(test, question)
+    }
+    if (status === 'Correct') {
+      entry.correct += 1
+    }
+    if (status === 'Partial') {
+      entry.partial += 1
+    }
+
+    subjectMap.set(question.subject, entry)
+  })
+
+  const perSection = Array.from(subjectMap.entries()).map(([subject, data]) => {
+    const incorrectCount = Math.max(data.attempted - data.correct - data.partial, 0)
+    return {
+      id: subject,
+      name: subject,
+      total: data.total,
+      attempted: data.attempted,
+      correct: data.correct,
+      partial: data.partial,
+      accuracy: getAccuracy(data.correct, data.attempted),
+      avgTime: round(data.total === 0 ? 0 : data.time / data.total, 1),
+      avgAttemptedTime: round(
+        data.attempted === 0 ? 0 : data.attemptedTime / data.attempted,
+        1,
+      ),
+      score: data.score,
+      maxMarks: data.maxMarks,
+      unattempted: data.total - data.attempted,
+      incorrect: incorrectCount,
+    }
+  })
+
+  const typeMap = new Map<
+    Q['qtype'],
+    {
+      total: number
+      attempted: number
+      correct: number
+      partial: number
+      score: number
+      maxMarks: number
+      time: number
+      attemptedTime: number
+    }
+  >()
+
+  questionSnapshots.forEach((item, index) => {
+    const entry = typeMap.get(item.qtype) ?? {
+      total: 0,
+      attempted: 0,
+      correct: 0,
+      partial: 0,
+      score: 0,
+      maxMarks: 0,
+      time: 0,
+      attemptedTime: 0,
+    }
+    entry.total += 1
+    entry.score += getQuestionMark(test, questions[index], keySource)
+    entry.maxMarks += questions[index].correctMarking
+    entry.time += item.time
+    if (item.attempted) {
+      entry.attempted += 1
+      entry.attemptedTime += item.time
+    }
+    if (item.status === 'Correct') {
+      entry.correct += 1
+    }
+    if (item.status === 'Partial') {
+      entry.partial += 1
+    }
+    typeMap.set(item.qtype, entry)
+  })
+
+  const perType = Array.from(typeMap.entries()).map(([qtype, data]) => {
+    const incorrectCount = Math.max(data.attempted - data.correct - data.partial, 0)
+    return {
+      id: qtype,
+      name: qtype,
+      total: data.total,
+      attempted: data.attempted,
+      correct: data.correct,
+      partial: data.partial,
+      accuracy: getAccuracy(data.correct, data.attempted),
+      avgTime: round(data.total === 0 ? 0 : data.time / data.total, 1),
+      avgAttemptedTime: round(
+        data.attempted === 0 ? 0 : data.attemptedTime / data.attempted,
+        1,
+      ),
+      score: data.score,
+      maxMarks: data.maxMarks,
+      unattempted: data.total - data.attempted,
+      incorrect: incorrectCount,
+    }
+  })
+
+  const topicMap = new Map<
+    string,
+    {
+      total: number
+      attempted: number
+      correct: number
+      partial: number
+      score: number
+      maxMarks: number
+      time: number
+      attemptedTime: number
+    }
+  >()
+
+  questionSnapshots.forEach((item, index) => {
+    if (!item.topicId) {
+      return
+    }
+    const entry = topicMap.get(item.topicId) ?? {
+      total: 0,
+      attempted: 0,
+      correct: 0,
+      partial: 0,
+      score: 0,
+      maxMarks: 0,
+      time: 0,
+      attemptedTime: 0,
+    }
+    entry.total += 1
+    entry.score += getQuestionMark(test, questions[index], keySource)
+    entry.maxMarks += questions[index].correctMarking
+    entry.time += item.time
+    if (item.attempted) {
+      entry.attempted += 1
+      entry.attemptedTime += item.time
+    }
+    if (item.status === 'Correct') {
+      entry.correct += 1
+    }
+    if (item.status === 'Partial') {
+      entry.partial += 1
+    }
+    topicMap.set(item.topicId, entry)
+  })
+
+  const perTopic = Array.from(topicMap.entries()).flatMap(([topicId, data]) => {
+    const topic = topics.find((item) => item.id === topicId)
+    if (!topic) {
+      return []
+    }
+    const incorrectCount = Math.max(data.attempted - data.correct - data.partial, 0)
+    return [
+      {
+        id: topicId,
+        name: topic.name,
+        subject: topic.subject,
+        total: data.total,
+        attempted: data.attempted,
+        correct: data.correct,
+        partial: data.partial,
+        accuracy: getAccuracy(data.correct, data.attempted),
+        avgTime: round(data.total === 0 ? 0 : data.time / data.total, 1),
+        avgAttemptedTime: round(
+          data.attempted === 0 ? 0 : data.attemptedTime / data.attempted,
+          1,
+        ),
+        score: data.score,
+        maxMarks: data.maxMarks,
+        unattempted: data.total - data.attempted,
+        incorrect: incorrectCount,
+      },
+    ]
+  })
+
+  const sectionTypeMap = new Map<
+    string,
+    {
+      subject: Q['subject']
+      qtype: Q['qtype']
+      correct: number
+      partial: number
+      incorrect: number
+      unattempted: number
+    }
+  >()
+
+  questionSnapshots.forEach((item) => {
+    const mapKey = `${item.subject}:${item.qtype}`
+    const entry = sectionTypeMap.get(mapKey) ?? {
+      subject: item.subject,
+      qtype: item.qtype,
+      correct: 0,
+      partial: 0,
+      incorrect: 0,
+      unattempted: 0,
+    }
+    if (item.status === 'Correct') {
+      entry.correct += 1
+    } else if (item.status === 'Partial') {
+      entry.partial += 1
+    } else if (item.status === 'Incorrect') {
+      entry.incorrect += 1
+    } else {
+      entry.unattempted += 1
+    }
+    sectionTypeMap.set(mapKey, entry)
+  })
+
+  const perSectionType = Array.from(sectionTypeMap.values())
+
+  const keyChangeCount = questions.filter(
+    (question) => !isSameKey(question.correctAnswer, question.keyUpdate),
+  ).length
+  const latestKeyUpdate = questions.reduce<string | null>((latest, question) => {
+    if (!question.lastKeyUpdateTime) {
+      return latest
+    }
+    if (!latest || question.lastKeyUpdateTime > latest) {
+      return question.lastKeyUpdateTime
+    }
+    return latest
+  }, null)
+
+  const scoreDelta = scoreCurrent - scoreOriginal
+
+  const baseTime = avgAttemptedTime || avgTime
+  const speedThreshold = baseTime * 0.75
+  const slowThreshold = baseTime * 1.35
+  const fastWrong = questionSnapshots.filter(
+    (item) => item.status === 'Incorrect' && item.time < speedThreshold,
+  ).length
+  const slowWrong = questionSnapshots.filter(
+    (item) => item.status === 'Incorrect' && item.time > slowThreshold,
+  ).length
+
+  const attemptedSnapshots = questionSnapshots.filter((item) => item.attempted)
+  const timeValues = attemptedSnapshots.map((item) => item.time)
+  const timeMedian = round(getPercentile(timeValues, 50), 1)
+  const timeP75 = round(getPercentile(timeValues, 75), 1)
+  const timeMin = timeValues.length === 0 ? 0 : Math.min(...timeValues)
+  const timeMax = timeValues.length === 0 ? 0 : Math.max(...timeValues)
+
+  const timeBuckets = [
+    { label: '<=30s', min: 0, max: 30 },
+    { label: '31-60s', min: 31, max: 60 },
+    { label: '1-2m', min: 61, max: 120 },
+    { label: '2-3m', min: 121, max: 180 },
+    { label: '>3m', min: 181, max: Number.POSITIVE_INFINITY },
+  ].map((bucket) => {
+    const count = timeValues.filter(
+      (time) => time >= bucket.min && time <= bucket.max,
+    ).length
+    return {
+      label: bucket.label,
+      count,
+      pct: getPercent(count, timeValues.length),
+    }
+  })
+
+  let longestSuccess = 0
+  let longestMiss = 0
+  let currentSuccess = 0
+  let currentMiss = 0
+  questionSnapshots.forEach((item) => {
+    const isSuccess = item.status === 'Correct' || item.status === 'Partial'
+    if (isSuccess) {
+      currentSuccess += 1
+      longestSuccess = Math.max(longestSuccess, currentSuccess)
+      currentMiss = 0
+      return
+    }
+    currentMiss += 1
+    longestMiss = Math.max(longestMiss, currentMiss)
+    currentSuccess = 0
+  })
+
+  const slowestQuestions = [...attemptedSnapshots]
+    .sort((a, b) => b.time - a.time)
+    .slice(0, 5)
+  const fastestQuestions = [...attemptedSnapshots]
+    .sort((a, b) => a.time - b.time)
+    .slice(0, 5)
+  const fastestIncorrect = attemptedSnapshots
+    .filter((item) => item.status === 'Incorrect')
+    .sort((a, b) => a.time - b.time)
+    .slice(0, 4)
+
+  return {
+    total,
+    attempted,
+    correct,
+    partial,
+    incorrect,
+    unattempted,
+    accuracy: getAccuracy(correct, attempted),
+    attemptRate,
+    avgTime: round(avgTime, 1),
+    avgAttemptedTime: round(avgAttemptedTime, 1),
+    totalTime,
+    attemptedTime,
+    perSection,
+    perType,
+    perTopic,
+    perSectionType,
+    timeBuckets,
+    timeMedian,
+    timeP75,
+    timeMin,
+    timeMax,
+    longestSuccess,
+    longestMiss,
+    slowestQuestions,
+    fastestQuestions,
+    fastestIncorrect,
+    keyChangeCount,
+    latestKeyUpdate,
+    scoreOriginal,
+    scoreCurrent,
+    maxMarks,
+    scoreDelta,
+    fastWrong,
+    slowWrong,
+  }
+}
+
+export const isSameKey = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+export type AttemptAnalysis<
+  Q extends AnalysisQuestion = AnalysisQuestion,
+  T extends AnalysisTopic = AnalysisTopic,
+> = ReturnType<typeof buildAttemptAnalysis<Q, T>>
@@ -0,0 +1,53 @@
+export const mistakeTags = [
+  'conceptual',
+  'silly',
+  'misread',
+  'time-pressure',
+  'guess',
+] as const
+
+export type MistakeTag = (typeof mistakeTags)[number]
+
+export const mistakeTagLabels: Record<MistakeTag, string> = {
+  conceptual: 'Conceptual gap',
+  silly: 'Silly mistake',
+  misread: 'Misread',
+  'time-pressure': 'Time pressure',
+  guess: 'Guess',
+}
+
+export const isMistakeTag = (value: unknown): value is MistakeTag =>
+  typeof value === 'string' && (mistakeTags as readonly string[]).includes(value)
+
+export const MAX_ANNOTATION_REASON_LENGTH = 2000
+
+export type QuestionAnnotation = {
+  tag: MistakeTag | null
+  reason: string
+  updatedAt: string | null
+}
+
+// Older attempts stored a bare `true` per bookmarked question; those read back
+// as untagged annotations.
+export const parseAnnotations = (value: unknown) => {
+  const annotations: Record<string, QuestionAnnotation> = {}
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return annotations
+  }
+  Object.entries(value as Record<string, unknown>).forEach(([questionId, entry]) => {
+    if (entry === true) {
+      annotations[questionId] = { tag: null, reason: '', updatedAt: null }
+      return
+    }
+    if (!entry || typeof entry !== 'object') {
+      return
+    }
+    const { tag, reason, updatedAt } = entry as Record<string, unknown>
+    annotations[questionId] = {
+      tag: isMistakeTag(tag) ? tag : null,
+      reason: typeof reason === 'string' ? reason : '',
+      updatedAt: typeof updatedAt === 'string' ? updatedAt : null,
+    }
+  })
+  return annotations
+}
@@ -0,0 +1,360 @@
+export type NumericRange = {
+  min: number
+  max: number
+}
+
+export type BonusKey = {
+  bonus: true
+}
+
+export type AnswerValue =
+  | string
+  | number
+  | NumericRange
+  | string[]
+  | BonusKey
+  | null
+
+export const partialPolicies = [
+  'per-option',
+  'proportional',
+  'all-or-nothing',
+  'penalty-per-wrong',
+] as const
+
+export type PartialPolicy = (typeof partialPolicies)[number]
+
+export const DEFAULT_PARTIAL_POLICY: PartialPolicy = 'per-option'
+
+export const isPartialPolicy = (value: unknown): value is PartialPolicy =>
+  typeof value === 'string' && (partialPolicies as readonly string[]).includes(value)
+
+export type ScoringQuestion = {
+  qtype: string
+  correctMarking: number
+  incorrectMarking: number
+  unattemptedMarking: number
+  partialMarking: number
+  partialPolicy: string
+}
+
+export type ScoreStatus = 'correct' | 'partial' | 'incorrect' | 'unattempted'
+
+export type QuestionScore = {
+  status: ScoreStatus
+  mark: number
+  bonus: boolean
+}
+
+export const isMultiSelectType = (qtype: string) =>
+  qtype === 'MAQ' || qtype === 'VMAQ'
+
+export const isRangeValue = (value: unknown): value is NumericRange =>
+  Boolean(
+    value &&
+      typeof value === 'object' &&
+      'min' in value &&
+      'max' in value &&
+      typeof (value as { min?: unknown }).min === 'number' &&
+      typeof (value as { max?: unknown }).max === 'number',
+  )
+
+export const isBonusKey = (value: unknown): value is BonusKey =>
+  Boolean(
+    value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      'bonus' in value &&
+      (value as { bonus?: unknown }).bonus === true,
+  )
+
+export const normalizeNumericValue = (value: unknown): number | NumericRange | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value
+  }
+  if (isRangeValue(value)) {
+    return value.min === value.max ? value.min : value
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.replace(/[−–—]/g, '-').trim()
+    if (!trimmed) {
+      return null
+    }
+    const rangeMatch = trimmed.match(
+      /(-?\d+(?:\.\d+)?)\s*(?:to|-)\s*(-?\d+(?:\.\d+)?)/i,
+    )
+    if (rangeMatch) {
+      const min = Number(rangeMatch[1])
+      const max = Number(rangeMatch[2])
+      if (!Number.isNaN(min) && !Number.isNaN(max)) {
+        return min === max ? min : { min, max }
+      }
+    }
+    const numeric = Number(trimmed)
+    if (!Number.isNaN(numeric)) {
+      return numeric
+    }
+  }
+  return null
+}
+
+const splitByOr = (value: string) =>
+  value
+    .split(/\s+(?:OR)\s+|\s*\|\s*/i)
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+export const toOptionArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item).trim().toUpperCase()).filter(Boolean)
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toUpperCase()
+    if (!normalized) {
+      return []
+    }
+    if (normalized.includes(',')) {
+      return normalized
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    }
+    if (/^[A-Z]+$/.test(normalized)) {
+      return normalized.split('')
+    }
+    return [normalized]
+  }
+  return []
+}
+
+const getKeyOptionGroups = (key: unknown): string[][] => {
+  if (Array.isArray(key)) {
+    return [toOptionArray(key)]
+  }
+  if (typeof key === 'string') {
+    return splitByOr(key).map((segment) => toOptionArray(segment))
+  }
+  return []
+}
+
+const getKeyNumericAlternatives = (key: unknown) => {
+  if (typeof key === 'string') {
+    return splitByOr(key)
+      .map((segment) => normalizeNumericValue(segment))
+      .filter((item): item is number | NumericRange => item !== null)
+  }
+  const normalized = normalizeNumericValue(key)
+  return normalized === null ? [] : [normalized]
+}
+
+export const isUnattemptedAnswer = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim().length === 0) ||
+  (Array.isArray(value) && value.length === 0)
+
+const scoreNumeric = (answer: unknown, key: unknown) => {
+  const selected = normalizeNumericValue(answer)
+  if (selected === null || typeof selected !== 'number') {
+    return false
+  }
+  return getKeyNumericAlternatives(key).some((option) =>
+    typeof option === 'number'
+      ? selected === option
+      : selected >= option.min && selected <= option.max,
+  )
+}
+
+const scoreSingleChoice = (answer: unknown, key: unknown) => {
+  const selected = toOptionArray(answer)
+  if (selected.length === 0) {
+    return false
+  }
+  return getKeyOptionGroups(key).some((group) =>
+    group.some((option) => selected.includes(option)),
+  )
+}
+
+const roundMark = (value: number) => Math.round(value * 100) / 100
+
+const scoreOptionGroup = (
+  question: ScoringQuestion,
+  selected: Set<string>,
+  keyOptions: Set<string>,
+) => {
+  let correctCount = 0
+  let wrongCount = 0
+  for (const option of selected) {
+    if (keyOptions.has(option)) {
+      correctCount += 1
+    } else {
+      wrongCount += 1
+    }
+  }
+  if (wrongCount === 0 && correctCount === keyOptions.size) {
+    return { mark: question.correctMarking, complete: true }
+  }
+
+  const policy = isPartialPolicy(question.partialPolicy)
+    ? question.partialPolicy
+    : DEFAULT_PARTIAL_POLICY
+  switch (policy) {
+    case 'all-or-nothing':
+      return { mark: question.incorrectMarking, complete: false }
+    case 'proportional':
+      return {
+        mark:
+          wrongCount > 0
+            ? question.incorrectMarking
+            : roundMark((question.correctMarking * correctCount) / keyOptions.size),
+        complete: false,
+      }
+    case 'penalty-per-wrong':
+      return {
+        mark:
+          correctCount * question.partialMarking +
+          wrongCount * question.incorrectMarking,
+        complete: false,
+      }
+    default:
+      return {
+        mark:
+          wrongCount > 0 || question.partialMarking <= 0
+            ? question.incorrectMarking
+            : correctCount * question.partialMarking,
+        complete: false,
+      }
+  }
+}
+
+const scoreMultipleChoice = (
+  question: ScoringQuestion,
+  answer: unknown,
+  key: unknown,
+) => {
+  const selected = new Set(toOptionArray(answer))
+  const scores = getKeyOptionGroups(key)
+    .filter((group) => group.length > 0)
+    .map((group) => scoreOptionGroup(question, selected, new Set(group)))
+  if (scores.length === 0) {
+    return { mark: question.incorrectMarking, complete: false }
+  }
+  return (
+    scores.find((score) => score.complete) ??
+    scores.reduce((best, score) => (score.mark > best.mark ? score : best))
+  )
+}
+
+export const scoreQuestion = (
+  question: ScoringQuestion,
+  answer: unknown,
+  key: unknown,
+): QuestionScore => {
+  if (isBonusKey(key)) {
+    return { status: 'correct', mark: question.correctMarking, bonus: true }
+  }
+  if (isUnattemptedAnswer(answer)) {
+    return {
+      status: 'unattempted',
+      mark: question.unattemptedMarking,
+      bonus: false,
+    }
+  }
+
+  if (isMultiSelectType(question.qtype)) {
+    const { mark, complete } = scoreMultipleChoice(question, answer, key)
+    const status: ScoreStatus = complete
+      ? 'correct'
+      : mark > question.unattemptedMarking
+        ? 'partial'
+        : 'incorrect'
+    return { status, mark, bonus: false }
+  }
+
+  const isCorrect =
+    question.qtype === 'NAT'
+      ? scoreNumeric(answer, key)
+      : scoreSingleChoice(answer, key)
+  return isCorrect
+    ? { status: 'correct', mark: question.correctMarking, bonus: false }
+    : { status: 'incorrect', mark: question.incorrectMarking, bonus: false }
+}
+
+const toKeyText = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+
+// Reads option letters written as "AC", "A,C", "A C" or ["A", "C"].
+export const parseOptionAnswer = (value: unknown) => {
+  const raw = Array.isArray(value) ? value.map(toKeyText).join(',') : toKeyText(value)
+  const compact = raw.toUpperCase().replace(/[\s,;/|]+/g, '')
+  if (!compact || !/^[A-D]+$/.test(compact)) {
+    return null
+  }
+  return Array.from(new Set(compact.split(''))).sort()
+}
+
+// Reads a number or a range ("1.5 to 2", "1.5-2") into its stored text.
+export const parseNumericAnswer = (value: unknown) => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : null
+  }
+  const text = toKeyText(value).replace(/[−–—]/g, '-')
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return text
+  }
+  const range = text.match(/^(-?\d+(?:\.\d+)?)\s*(?:to|-)\s*(-?\d+(?:\.\d+)?)$/i)
+  if (range && Number(range[1]) <= Number(range[2])) {
+    return `${range[1]} to ${range[2]}`
+  }
+  return null
+}
+
+// Keys accept more than answers: "BONUS" (or { "bonus": true }), any-of MCQ
+// keys ("A,C"), and alternatives separated by OR or | ("AC OR BD",
+// "1.5 to 2 OR 3"). The result is the value stored as the question's key.
+export const validateAnswerKey = (
+  value: unknown,
+  qtype: string,
+): { ok: true; key: AnswerValue } | { ok: false; message: string } => {
+  if (isBonusKey(value) || toKeyText(value).toUpperCase() === 'BONUS') {
+    return { ok: true, key: { bonus: true } }
+  }
+  if (isUnattemptedAnswer(value)) {
+    return { ok: false, message: 'a key is required' }
+  }
+  const segments = Array.isArray(value) ? [value] : splitByOr(toKeyText(value))
+  if (segments.length === 0) {
+    return { ok: false, message: 'a key is required' }
+  }
+
+  if (qtype === 'NAT') {
+    const numbers = segments.map((segment) => parseNumericAnswer(segment))
+    if (numbers.some((item) => item === null)) {
+      return {
+        ok: false,
+        message: 'expected numbers or ranges like "1.5 to 2", separated by OR',
+      }
+    }
+    if (numbers.length === 1) {
+      const single = normalizeNumericValue(numbers[0])
+      return single === null
+        ? { ok: false, message: 'expected a number or a range like "1.5 to 2"' }
+        : { ok: true, key: single }
+    }
+    return { ok: true, key: numbers.join(' OR ') }
+  }
+
+  const groups = segments.map((segment) => parseOptionAnswer(segment))
+  if (groups.some((group) => group === null)) {
+    return { ok: false, message: 'expected option letters A-D, separated by OR' }
+  }
+  const letters = groups as string[][]
+  if (isMultiSelectType(qtype)) {
+    return letters.length === 1
+      ? { ok: true, key: letters[0] }
+      : { ok: true, key: letters.map((group) => group.join('')).join(' OR ') }
+  }
+  // Any listed option is accepted for an MCQ, so groups collapse into one set.
+  const options = Array.from(new Set(letters.flat())).sort()
+  return { ok: true, key: options.length === 1 ? options[0] : options.join(' OR ') }
+}
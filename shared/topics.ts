@@ -0,0 +1,8 @@
+export const topicSubjects = ['PHYSICS', 'CHEMISTRY', 'MATHEMATICS'] as const
+
+export type TopicSubject = (typeof topicSubjects)[number]
+
+export const isTopicSubject = (value: unknown): value is TopicSubject =>
+  typeof value === 'string' && (topicSubjects as readonly string[]).includes(value)
+
+export const MAX_TOPIC_NAME_LENGTH = 80
@@ -3,11 +3,19 @@ import { AppShell } from '@/components/AppShell'
 import { useAppStore } from '@/lib/store'
 import { Auth } from '@/pages/Auth'
 import { Dashboard } from '@/pages/Dashboard'
+import { Import } from '@/pages/Import'
+import { MistakeJournal } from '@/pages/MistakeJournal'
+import { Notes } from '@/pages/Notes'
 import { NotFound } from '@/pages/NotFound'
+import { Practice } from '@/pages/Practice'
+import { PracticeExam } from '@/pages/PracticeExam'
 import { Profile } from '@/pages/Profile'
+import { Progress } from '@/pages/Progress'
 import { QuestionDetail } from '@/pages/QuestionDetail'
+import { Revision } from '@/pages/Revision'
 import { TestDetail } from '@/pages/TestDetail'
 import { Tests } from '@/pages/Tests'
+import { TopicReview } from '@/pages/TopicReview'
 
 const ProtectedLayout = () => {
   const { currentUser, isBootstrapped } = useAppStore()
@@ -41,6 +49,15 @@ export const App = () => {
         <Route index element={<Dashboard />} />
         <Route path="tests" element={<Tests />} />
         <Route path="tests/:testId" element={<TestDetail />} />
+        <Route path="progress" element={<Progress />} />
+        <Route path="import" element={<Import />} />
+        <Route path="notes" element={<Notes />} />
+        <Route path="journal" element={<MistakeJournal />} />
+        <Route path="revision" element={<Revision />} />
+        <Route path="practice" element={<Practice />} />
+        <Route path="practice/:sessionId" element={<PracticeExam />} />
+        <Route path="topics" element={<TopicReview />} />
+        <Route path="questions/:testId" element={<QuestionDetail />} />
         <Route
           path="questions/:testId/:questionId"
           element={<QuestionDetail />}
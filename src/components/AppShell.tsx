@@ -1,6 +1,17 @@
 import type { ReactNode } from "react";
 import { Link, NavLink } from "react-router-dom";
-import { LayoutDashboard, ListChecks, Settings } from "lucide-react";
+import {
+  BookX,
+  FileUp,
+  LayoutDashboard,
+  ListChecks,
+  NotebookPen,
+  Repeat,
+  Settings,
+  Tags,
+  Timer,
+  TrendingUp,
+} from "lucide-react";
 import { useAppStore } from "@/lib/store";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,6 +23,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import { Switch } from "@/components/ui/switch";
+import { NotificationBell } from "@/components/NotificationBell";
 
 const navItems = [
   {
@@ -24,6 +36,42 @@ const navItems = [
     label: "Tests",
     icon: ListChecks,
   },
+  {
+    to: "/app/progress",
+    label: "Progress",
+    icon: TrendingUp,
+  },
+  {
+    to: "/app/import",
+    label: "Import",
+    icon: FileUp,
+  },
+  {
+    to: "/app/notes",
+    label: "Notes",
+    icon: NotebookPen,
+  },
+  {
+    to: "/app/journal",
+    label: "Journal",
+    icon: BookX,
+  },
+  {
+    to: "/app/revision",
+    label: "Revision",
+    icon: Repeat,
+  },
+  {
+    to: "/app/practice",
+    label: "Practice",
+    icon: Timer,
+  },
+  {
+    to: "/app/topics",
+    label: "Topics",
+    icon: Tags,
+    adminOnly: true,
+  },
   {
     to: "/app/profile",
     label: "Preferences",
@@ -32,13 +80,18 @@ const navItems = [
 ];
 
 export const AppShell = ({ children }: { children: ReactNode }) => {
-  const { currentUser, logout, state, syncExternalAccount, setMode } =
+  const { currentUser, isAdmin, logout, state, syncExternalAccount, setMode } =
     useAppStore();
+  const visibleNavItems = navItems.filter(
+    (item) => isAdmin || !item.adminOnly
+  );
   const mode = currentUser?.preferences.mode ?? state.ui.mode;
   const isDark = mode === "dark";
-  const account = state.externalAccounts.find(
+  const accounts = state.externalAccounts.filter(
     (item) => item.userId === currentUser?.id
   );
+  const account =
+    accounts.find((item) => item.syncStatus === "syncing") ?? accounts[0];
   const isSyncing = account?.syncStatus === "syncing";
   const syncTotal = account?.syncTotal ?? 0;
   const syncCompleted = account?.syncCompleted ?? 0;
@@ -60,7 +113,7 @@ export const AppShell = ({ children }: { children: ReactNode }) => {
         <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-3">
           <div className="flex flex-wrap items-center gap-4">
             <nav className="flex flex-wrap items-center gap-2 text-sm">
-              {navItems.map((item) => (
+              {visibleNavItems.map((item) => (
                 <NavLink
                   key={item.to}
                   to={item.to}
@@ -98,7 +151,7 @@ export const AppShell = ({ children }: { children: ReactNode }) => {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                {navItems.map((item) => (
+                {visibleNavItems.map((item) => (
                   <DropdownMenuItem key={item.to} asChild>
                     <Link to={item.to}>{item.label}</Link>
                   </DropdownMenuItem>
@@ -119,13 +172,14 @@ export const AppShell = ({ children }: { children: ReactNode }) => {
             ) : (
               <Button
                 size="sm"
-                onClick={syncExternalAccount}
+                onClick={() => void syncExternalAccount()}
                 disabled={isSyncing}
                 title={syncTitle}
               >
                 {syncLabel}
               </Button>
             )}
+            <NotificationBell />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="sm">
@@ -0,0 +1,30 @@
+import { useAppStore } from '@/lib/store'
+import type { KeySource } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+
+const keySources: Array<{ value: KeySource; label: string; hint: string }> = [
+  { value: 'official', label: 'Official', hint: 'Score with the key from the exam portal' },
+  { value: 'revised', label: 'Revised', hint: 'Score with the revised key shared by admins' },
+  { value: 'personal', label: 'Mine', hint: 'Score with your own keys where you set one' },
+]
+
+export const KeySourceToggle = () => {
+  const { keySource, setKeySource } = useAppStore()
+
+  return (
+    <div className="flex items-center gap-1 rounded-lg border border-border/60 p-1">
+      {keySources.map((item) => (
+        <Button
+          key={item.value}
+          type="button"
+          size="sm"
+          variant={keySource === item.value ? 'secondary' : 'ghost'}
+          title={item.hint}
+          onClick={() => setKeySource(item.value)}
+        >
+          {item.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
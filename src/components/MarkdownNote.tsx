@@ -0,0 +1,7 @@
+import Markdown from 'react-markdown'
+
+export const MarkdownNote = ({ body }: { body: string }) => (
+  <div className="markdown-note">
+    <Markdown>{body}</Markdown>
+  </div>
+)
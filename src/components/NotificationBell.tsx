@@ -0,0 +1,123 @@
+import { Link } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import type { AppNotification } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+
+const formatScoreDelta = (delta: number) =>
+  delta === 0
+    ? 'No change to your score'
+    : `${delta > 0 ? '+' : ''}${delta} mark${Math.abs(delta) === 1 ? '' : 's'}`
+
+const NotificationBody = ({ notification }: { notification: AppNotification }) => (
+  <div className="flex w-full flex-col gap-0.5">
+    <div className="flex items-center justify-between gap-2">
+      <span
+        className={cn(
+          'text-sm',
+          notification.read ? 'text-muted-foreground' : 'font-semibold text-foreground',
+        )}
+      >
+        {notification.title}
+      </span>
+      {notification.scoreDelta !== null ? (
+        <span
+          className={cn(
+            'shrink-0 text-xs font-semibold',
+            notification.scoreDelta > 0 && 'text-emerald-600',
+            notification.scoreDelta < 0 && 'text-rose-600',
+            notification.scoreDelta === 0 && 'text-muted-foreground',
+          )}
+        >
+          {formatScoreDelta(notification.scoreDelta)}
+        </span>
+      ) : null}
+    </div>
+    <span className="text-xs text-muted-foreground">{notification.body}</span>
+    <span className="text-[11px] text-muted-foreground">
+      {new Date(notification.createdAt).toLocaleString()}
+    </span>
+  </div>
+)
+
+export const NotificationBell = () => {
+  const { state, loadNotifications, markNotificationsRead } = useAppStore()
+  const unread = state.unreadNotifications
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) {
+          void loadNotifications()
+        }
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          title={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unread > 0 ? (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          ) : null}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void markNotificationsRead()}
+            >
+              Mark all read
+            </Button>
+          ) : null}
+        </div>
+        <DropdownMenuSeparator />
+        {state.notifications.length === 0 ? (
+          <p className="px-2 py-3 text-xs text-muted-foreground">
+            Key, marking and rank changes on your tests show up here.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {state.notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                asChild={Boolean(notification.testId)}
+                onSelect={() => {
+                  if (!notification.read) {
+                    void markNotificationsRead([notification.id])
+                  }
+                }}
+              >
+                {notification.testId ? (
+                  <Link to={`/app/tests/${notification.testId}`}>
+                    <NotificationBody notification={notification} />
+                  </Link>
+                ) : (
+                  <NotificationBody notification={notification} />
+                )}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import type { ScoreDistribution, TestRecord } from '@/lib/types'
+import { ProgressBar } from '@/components/ProgressBar'
+import { Card, CardContent } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+type ScoreDistributionCardProps = {
+  test: TestRecord
+  className?: string
+}
+
+const formatPercentile = (value: number | null) =>
+  value === null ? '-' : `${value}%`
+
+export const ScoreDistributionCard = ({ test, className }: ScoreDistributionCardProps) => {
+  const { loadScoreDistribution } = useAppStore()
+  const [loaded, setLoaded] = useState<{
+    test: TestRecord
+    distribution: ScoreDistribution | null
+    message: string | null
+  } | null>(null)
+
+  // The test record is replaced after key and marking changes, which moves
+  // every score, so the distribution reloads with it.
+  useEffect(() => {
+    let cancelled = false
+    void loadScoreDistribution(test.id).then((outcome) => {
+      if (cancelled) {
+        return
+      }
+      setLoaded({
+        test,
+        distribution: outcome.distribution ?? null,
+        message: outcome.ok
+          ? null
+          : outcome.message ?? 'Unable to load the score distribution.',
+      })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [loadScoreDistribution, test])
+
+  const current = loaded && loaded.test.id === test.id ? loaded : null
+  const distribution = current?.distribution ?? null
+  const peakCount = distribution
+    ? Math.max(1, ...distribution.histogram.map((bin) => bin.count))
+    : 1
+
+  return (
+    <Card className={cn('app-panel', className)}>
+      <CardContent className="space-y-4 p-6">
+        <div className="space-y-1">
+          <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+            Where you stand
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Every attempt on this exam in the app, scored with the revised keys.
+          </p>
+        </div>
+
+        {!current ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !distribution ? (
+          <p className="text-sm text-muted-foreground">{current.message}</p>
+        ) : distribution.attemptCount < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            No one else has attempted this exam yet.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+            <div className="space-y-2">
+              <div className="flex h-32 items-end gap-1">
+                {distribution.histogram.map((bin) => (
+                  <div
+                    key={bin.from}
+                    className={cn(
+                      'flex-1 rounded-t',
+                      bin.mine ? 'bg-primary' : 'bg-muted-foreground/30',
+                    )}
+                    style={{ height: `${(bin.count / peakCount) * 100}%` }}
+                    title={`${bin.from} to ${bin.to}: ${bin.count} attempts`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>{distribution.histogram[0]?.from}</span>
+                <span>{distribution.attemptCount} attempts</span>
+                <span>{distribution.histogram[distribution.histogram.length - 1]?.to}</span>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs text-muted-foreground">Percentile</p>
+                  <p className="text-2xl font-semibold">
+                    {formatPercentile(distribution.percentile)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {distribution.score}/{distribution.maxMarks} marks
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Estimated rank</p>
+                  <p className="text-2xl font-semibold">{distribution.estimatedRank}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {distribution.scrapedRank !== null
+                      ? `Scraped ${distribution.scrapedRank} with original keys`
+                      : 'Among attempts in the app'}
+                  </p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {distribution.subjects.map((subject) => (
+                  <div key={subject.subject} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{subject.subject}</span>
+                      <span>
+                        {subject.score}/{subject.maxMarks} ·{' '}
+                        {formatPercentile(subject.percentile)}
+                      </span>
+                    </div>
+                    <ProgressBar value={subject.percentile ?? 0} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
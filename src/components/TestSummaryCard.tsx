@@ -1,20 +1,16 @@
 import { useMemo, useState, type ReactNode } from "react";
 import { Link } from "react-router-dom";
 import { ChevronDown } from "lucide-react";
-import { getQuestionStatus, type buildAnalysis } from "@/lib/analysis";
-import type { TestRecord } from "@/lib/types";
+import type { TestAnalysisSummary, TestSummary } from "@/lib/types";
 import { SegmentedProgressBar } from "@/components/SegmentedProgressBar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn, formatQuestionType } from "@/lib/utils";
-import { buildDisplayQuestions } from "@/lib/questionDisplay";
-
-type TestAnalysis = ReturnType<typeof buildAnalysis>;
 
 type TestSummaryCardProps = {
-  test: TestRecord;
-  analysis?: TestAnalysis | null;
+  test: Pick<TestSummary, "id" | "title" | "examDate" | "rank">;
+  analysis?: TestAnalysisSummary | null;
   actions?: ReactNode;
   className?: string;
   collapsedAction?: ReactNode;
@@ -73,26 +69,20 @@ export const TestSummaryCard = ({
       typeMap[type] = { correct: 0, partial: 0, incorrect: 0, unattempted: 0 };
     });
 
-    test.questions.forEach((question) => {
-      const type = question.qtype as (typeof questionTypes)[number];
+    analysis?.perSectionType.forEach((entry) => {
+      const type = entry.qtype as (typeof questionTypes)[number];
       if (!questionTypes.includes(type)) {
         return;
       }
-      const status = getQuestionStatus(test, question);
       const bucket = typeMap[type];
-      if (status === "Correct") {
-        bucket.correct += 1;
-      } else if (status === "Partial") {
-        bucket.partial += 1;
-      } else if (status === "Incorrect") {
-        bucket.incorrect += 1;
-      } else {
-        bucket.unattempted += 1;
-      }
+      bucket.correct += entry.correct;
+      bucket.partial += entry.partial;
+      bucket.incorrect += entry.incorrect;
+      bucket.unattempted += entry.unattempted;
     });
 
     return typeMap;
-  }, [test]);
+  }, [analysis]);
   const hasPartialQuestions = useMemo(
     () => Object.values(overallTypeStats).some((stats) => stats.partial > 0),
     [overallTypeStats]
@@ -132,36 +122,22 @@ export const TestSummaryCard = ({
       stats.set(subject.id, typeMap);
     });
 
-    test.questions.forEach((question) => {
-      const type = question.qtype as (typeof questionTypes)[number];
-      const subjectStats = stats.get(question.subject);
+    analysis?.perSectionType.forEach((entry) => {
+      const type = entry.qtype as (typeof questionTypes)[number];
+      const subjectStats = stats.get(entry.subject);
       if (!subjectStats || !questionTypes.includes(type)) {
         return;
       }
-      const status = getQuestionStatus(test, question);
       const bucket = subjectStats[type];
-      if (status === "Correct") {
-        bucket.correct += 1;
-      } else if (status === "Partial") {
-        bucket.partial += 1;
-      } else if (status === "Incorrect") {
-        bucket.incorrect += 1;
-      } else {
-        bucket.unattempted += 1;
-      }
+      bucket.correct += entry.correct;
+      bucket.partial += entry.partial;
+      bucket.incorrect += entry.incorrect;
+      bucket.unattempted += entry.unattempted;
     });
 
     return stats;
-  }, [test]);
-  const totalScore = test.questions.reduce(
-    (sum, question) => sum + question.correctMarking,
-    0
-  );
-  const subjectTotals = test.questions.reduce((map, question) => {
-    const current = map.get(question.subject) ?? 0;
-    map.set(question.subject, current + question.correctMarking);
-    return map;
-  }, new Map<string, number>());
+  }, [analysis]);
+  const totalScore = analysis?.maxMarks ?? 0;
   const subjectSummary = subjectOrder.map((subject) => {
     const section = analysis?.perSection.find(
       (entry) => entry.id === subject.id || entry.name === subject.id
@@ -169,7 +145,7 @@ export const TestSummaryCard = ({
     return {
       label: subject.label,
       score: section?.score ?? 0,
-      total: subjectTotals.get(subject.id) ?? 0,
+      total: section?.maxMarks ?? 0,
       correct: section?.correct ?? 0,
       partial: section?.partial ?? 0,
       incorrect: section?.incorrect ?? 0,
@@ -195,16 +171,12 @@ export const TestSummaryCard = ({
       <Link to={`/app/tests/${test.id}`}>Open review</Link>
     </Button>
   );
-  const firstQuestionId = useMemo(() => {
-    const first = buildDisplayQuestions(test.questions)[0];
-    return first?.question.id ?? "";
-  }, [test.questions]);
   const headerReviewAction = reviewAction ?? openReview;
   const actionContent = actions ?? (
     <>
       {headerReviewAction}
       <Button asChild size="sm">
-        <Link to={`/app/questions/${test.id}/${firstQuestionId}`}>
+        <Link to={`/app/questions/${test.id}`}>
           Open questions
         </Link>
       </Button>
@@ -231,7 +203,7 @@ export const TestSummaryCard = ({
             <p className="flex-1 text-base font-semibold text-foreground">
               {test.title}
             </p>
-            {analysis?.keyChanges.length ? (
+            {analysis?.keyChangeCount ? (
               <Badge variant="destructive">New key changes</Badge>
             ) : (
               <Badge variant="secondary">Key changes verified</Badge>
@@ -275,7 +247,7 @@ export const TestSummaryCard = ({
             </p>
           </div>
           <div className="flex items-center gap-2">
-            {analysis?.keyChanges.length ? (
+            {analysis?.keyChangeCount ? (
               <Badge variant="destructive">New key changes</Badge>
             ) : (
               <Badge variant="secondary">Key changes verified</Badge>
@@ -304,7 +276,7 @@ export const TestSummaryCard = ({
                 <p className="text-2xl font-semibold text-right">{rankValue}</p>
               </div>
               {analysis &&
-              analysis.keyChanges.length > 0 &&
+              analysis.keyChangeCount > 0 &&
               analysis.scoreDelta !== 0 ? (
                 <p className="mt-1 text-xs text-emerald-300">
                   Bonus {analysis.scoreDelta > 0 ? "+" : ""}
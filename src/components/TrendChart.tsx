@@ -0,0 +1,160 @@
+import { movingAverage } from '@/lib/progress'
+import { cn } from '@/lib/utils'
+
+type TrendSeries = {
+  id: string
+  label: string
+  className: string
+  values: Array<number | null>
+}
+
+type TrendChartProps = {
+  labels: string[]
+  series: TrendSeries[]
+  averageWindow?: number
+  formatValue?: (value: number) => string
+  invertAxis?: boolean
+  className?: string
+}
+
+const WIDTH = 640
+const HEIGHT = 220
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 }
+
+const buildPath = (
+  values: Array<number | null>,
+  toX: (index: number) => number,
+  toY: (value: number) => number,
+) => {
+  let path = ''
+  let penDown = false
+  values.forEach((value, index) => {
+    if (value === null) {
+      penDown = false
+      return
+    }
+    path += `${penDown ? 'L' : 'M'}${toX(index).toFixed(1)},${toY(value).toFixed(1)} `
+    penDown = true
+  })
+  return path.trim()
+}
+
+export const TrendChart = ({
+  labels,
+  series,
+  averageWindow = 3,
+  formatValue = (value) => String(value),
+  invertAxis = false,
+  className,
+}: TrendChartProps) => {
+  const averages = series.map((item) => movingAverage(item.values, averageWindow))
+  const allValues = [...series.flatMap((item) => item.values), ...averages.flat()].filter(
+    (value): value is number => value !== null,
+  )
+
+  if (allValues.length === 0) {
+    return (
+      <p className={cn('text-sm text-muted-foreground', className)}>
+        No data for this view yet.
+      </p>
+    )
+  }
+
+  const rawMin = Math.min(...allValues)
+  const rawMax = Math.max(...allValues)
+  const spread = rawMax - rawMin || Math.abs(rawMax) || 1
+  const min = rawMin - spread * 0.05
+  const max = rawMax + spread * 0.05
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const toX = (index: number) =>
+    PADDING.left + (labels.length <= 1 ? plotWidth / 2 : (index / (labels.length - 1)) * plotWidth)
+  const toY = (value: number) => {
+    const ratio = (value - min) / (max - min)
+    return PADDING.top + (invertAxis ? ratio : 1 - ratio) * plotHeight
+  }
+  const ticks = [rawMax, (rawMin + rawMax) / 2, rawMin]
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img">
+        {ticks.map((tick, index) => (
+          <g key={index} className="text-muted-foreground">
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={toY(tick)}
+              y2={toY(tick)}
+              stroke="currentColor"
+              strokeOpacity={0.15}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={toY(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={10}
+              fill="currentColor"
+            >
+              {formatValue(Math.round(tick * 10) / 10)}
+            </text>
+          </g>
+        ))}
+        {labels.length > 0 ? (
+          <g className="text-muted-foreground" fontSize={10} fill="currentColor">
+            <text x={toX(0)} y={HEIGHT - 6} textAnchor="start">
+              {labels[0]}
+            </text>
+            {labels.length > 1 ? (
+              <text x={toX(labels.length - 1)} y={HEIGHT - 6} textAnchor="end">
+                {labels[labels.length - 1]}
+              </text>
+            ) : null}
+          </g>
+        ) : null}
+        {series.map((item, seriesIndex) => (
+          <g key={item.id} className={item.className}>
+            <path
+              d={buildPath(item.values, toX, toY)}
+              fill="none"
+              stroke="currentColor"
+              strokeOpacity={0.35}
+              strokeWidth={1.5}
+            />
+            <path
+              d={buildPath(averages[seriesIndex], toX, toY)}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2.5}
+              strokeLinejoin="round"
+            />
+            {item.values.map((value, index) =>
+              value === null ? null : (
+                <circle
+                  key={index}
+                  cx={toX(index)}
+                  cy={toY(value)}
+                  r={3}
+                  fill="currentColor"
+                >
+                  <title>
+                    {item.label} - {labels[index]}: {formatValue(value)}
+                  </title>
+                </circle>
+              ),
+            )}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {series.map((item) => (
+          <span key={item.id} className="flex items-center gap-2">
+            <span className={cn('h-0.5 w-4 bg-current', item.className)} />
+            {item.label}
+          </span>
+        ))}
+        <span>Thick lines are {averageWindow}-test moving averages.</span>
+      </div>
+    </div>
+  )
+}
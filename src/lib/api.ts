@@ -1,13 +1,16 @@
 type ApiErrorPayload = {
   error?: string
+  issues?: string[]
 }
 
 export class ApiError extends Error {
   status: number
+  issues: string[]
 
-  constructor(status: number, message: string) {
+  constructor(status: number, message: string, issues: string[] = []) {
     super(message)
     this.status = status
+    this.issues = issues
   }
 }
 
@@ -41,8 +44,64 @@ export const requestJson = async <T>(
 
   if (!response.ok) {
     const message = payload?.error ?? response.statusText
-    throw new ApiError(response.status, message)
+    throw new ApiError(response.status, message, payload?.issues ?? [])
   }
 
   return payload as T
 }
+
+export const streamEvents = async (
+  path: string,
+  options: {
+    token?: string
+    signal?: AbortSignal
+    onEvent: (event: string, data: unknown) => void
+  },
+) => {
+  const headers = new Headers({ Accept: 'text/event-stream' })
+  if (options.token) {
+    headers.set('Authorization', `Bearer ${options.token}`)
+  }
+
+  const response = await fetch(buildUrl(path), {
+    headers,
+    signal: options.signal,
+  })
+  if (!response.ok || !response.body) {
+    throw new ApiError(response.status, response.statusText)
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) {
+      return
+    }
+    buffer += value.replace(/\r\n/g, '\n')
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let eventName = 'message'
+      const dataLines: string[] = []
+      block.split('\n').forEach((line) => {
+        if (line.startsWith('event:')) {
+          eventName = line.slice('event:'.length).trim()
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice('data:'.length).trimStart())
+        }
+      })
+      if (dataLines.length === 0) {
+        continue
+      }
+      try {
+        options.onEvent(eventName, JSON.parse(dataLines.join('\n')) as unknown)
+      } catch (error) {
+        console.error(error)
+      }
+    }
+  }
+}
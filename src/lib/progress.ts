@@ -0,0 +1,97 @@
+import type { AnalyticsTest, QuestionType, Subject } from './types'
+
+export const progressMetrics = [
+  'score',
+  'accuracy',
+  'attemptRate',
+  'avgAttemptedTime',
+  'rank',
+] as const
+
+export type ProgressMetric = (typeof progressMetrics)[number]
+
+export type ProgressValues = Record<Exclude<ProgressMetric, 'rank'>, number>
+
+export type ProgressPoint = {
+  testId: string
+  title: string
+  examDate: string
+  marks: number
+  maxMarks: number
+  overall: ProgressValues & { rank: number | null }
+  perSubject: Partial<Record<Subject, ProgressValues>>
+  perType: Partial<Record<QuestionType, ProgressValues>>
+}
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits))
+
+// Scores are shown as a share of the maximum marks so tests of different
+// lengths stay comparable.
+const toValues = (entry: {
+  score: number
+  maxMarks: number
+  total: number
+  attempted: number
+  accuracy: number
+  avgAttemptedTime: number
+}): ProgressValues => ({
+  score: entry.maxMarks > 0 ? round((entry.score / entry.maxMarks) * 100) : 0,
+  accuracy: entry.accuracy,
+  attemptRate: entry.total === 0 ? 0 : round((entry.attempted / entry.total) * 100),
+  avgAttemptedTime: entry.avgAttemptedTime,
+})
+
+export const buildProgress = (tests: AnalyticsTest[]): ProgressPoint[] =>
+  [...tests]
+    .sort((a, b) => new Date(a.examDate).getTime() - new Date(b.examDate).getTime())
+    .map(({ analysis, ...test }) => {
+      const perSubject: ProgressPoint['perSubject'] = {}
+      analysis.perSection.forEach((section) => {
+        perSubject[section.id as Subject] = toValues(section)
+      })
+      const perType: ProgressPoint['perType'] = {}
+      analysis.perType.forEach((entry) => {
+        perType[entry.id] = toValues(entry)
+      })
+      return {
+        testId: test.id,
+        title: test.title,
+        examDate: test.examDate,
+        marks: analysis.scoreCurrent,
+        maxMarks: analysis.maxMarks,
+        overall: {
+          ...toValues({ ...analysis, score: analysis.scoreCurrent }),
+          rank: test.rank,
+        },
+        perSubject,
+        perType,
+      }
+    })
+
+export const movingAverage = (values: Array<number | null>, window: number) =>
+  values.map((_, index) => {
+    const slice = values
+      .slice(Math.max(0, index - window + 1), index + 1)
+      .filter((value): value is number => value !== null)
+    return slice.length === 0
+      ? null
+      : round(slice.reduce((sum, value) => sum + value, 0) / slice.length)
+  })
+
+// Least-squares slope per test, skipping tests without a value.
+export const trendSlope = (values: Array<number | null>) => {
+  const points = values.flatMap((value, index) =>
+    value === null ? [] : [{ x: index, y: value }],
+  )
+  if (points.length < 2) {
+    return null
+  }
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length
+  const numerator = points.reduce(
+    (sum, point) => sum + (point.x - meanX) * (point.y - meanY),
+    0,
+  )
+  const denominator = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0)
+  return denominator === 0 ? 0 : round(numerator / denominator, 2)
+}
@@ -11,12 +11,16 @@ const getSubjectRank = (subject: string) => {
   return idx === -1 ? subjectDisplayOrder.length : idx
 }
 
-export type DisplayQuestion = {
-  question: QuestionRecord
+export type DisplayQuestion<T = QuestionRecord> = {
+  question: T
   displayNumber: number
 }
 
-export const buildDisplayQuestions = (questions: QuestionRecord[]) => {
+export const buildDisplayQuestions = <
+  T extends Pick<QuestionRecord, 'subject' | 'questionNumber'>,
+>(
+  questions: T[],
+): DisplayQuestion<T>[] => {
   const sorted = [...questions].sort((a, b) => {
     const rankA = getSubjectRank(a.subject)
     const rankB = getSubjectRank(b.subject)
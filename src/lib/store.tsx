@@ -1,37 +1,105 @@
 /* eslint-disable react-refresh/only-export-components */
 import {
   createContext,
+  useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
   type ReactNode,
 } from 'react'
-import { ApiError, requestJson } from './api'
+import { buildAttemptAnalysis } from '@shared/analysis'
+import { ApiError, requestJson, streamEvents } from './api'
 import type {
+  AnalyticsTest,
+  AppNotification,
   AppState,
   ColorMode,
+  DiscussionPost,
   ExternalAccount,
+  ExternalProvider,
+  KeyChallenge,
+  KeyChallengeStatus,
+  KeySource,
+  KeyUpdateEvent,
+  LocalNote,
+  MistakeJournalEntry,
+  MistakeTag,
+  NoteSearchResult,
+  PracticeSession,
+  PracticeSessionSummary,
+  PracticeSource,
+  QuestionNote,
+  ReviewCard,
+  ReviewQuestion,
+  ReviewResult,
+  ScoreDistribution,
+  SyncActivity,
+  SyncJob,
   ThemeName,
+  Topic,
+  TopicModelInfo,
+  TopicSuggestion,
   User,
   UserPreferences,
+  TestListFilters,
   TestRecord,
+  TestSummary,
 } from './types'
 
 const TOKEN_KEY = 'testanalyser-token'
 const USER_KEY = 'testanalyser-user'
 const UI_KEY = 'testanalyser-ui'
-const ADMIN_OVERRIDE_KEY = 'testanalyser-admin-override'
+const KEY_SOURCE_KEY = 'testanalyser-key-source'
+const LEGACY_NOTES_PREFIX = 'testanalyser-question-notes-'
+const TEST_PAGE_SIZE = 20
+const MAX_TEST_PAGE_SIZE = 100
+const DEFAULT_TEST_FILTERS: TestListFilters = { q: '', subject: '', sort: 'date-desc' }
 
 type AuthResult = { ok: boolean; message?: string }
 
+type ImportResult = AuthResult & { testId?: string; issues?: string[] }
+
+type NoteSearchOutcome = AuthResult & { results: NoteSearchResult[] }
+
+type MistakeJournalOutcome = AuthResult & { entries: MistakeJournalEntry[] }
+
+type RevisionDeckOutcome = AuthResult & { cards: ReviewCard[] }
+
+type ReviewCardOutcome = AuthResult & {
+  card?: ReviewCard
+  question?: ReviewQuestion
+}
+
+type ReviewOutcome = AuthResult & { card?: ReviewCard; result?: ReviewResult }
+
+type PracticeListOutcome = AuthResult & { sessions: PracticeSessionSummary[] }
+
+type PracticeSessionOutcome = AuthResult & { session?: PracticeSession }
+
+type TopicSuggestionsOutcome = AuthResult & {
+  model: TopicModelInfo | null
+  suggestions: TopicSuggestion[]
+}
+
+type AnalyticsSummaryOutcome = AuthResult & { tests: AnalyticsTest[] }
+
+type ScoreDistributionOutcome = AuthResult & { distribution?: ScoreDistribution }
+
+type PracticeProgress = {
+  sessionId: string
+  answers: Record<string, unknown>
+  timings: Record<string, number>
+}
+
 type Store = {
   state: AppState
   currentUser: User | null
   isAdmin: boolean
-  adminOverride: boolean
+  keySource: KeySource
+  setKeySource: (source: KeySource) => void
   fontScale: number
-  setAdminOverride: (enabled: boolean) => void
   setFontScale: (scale: number) => void
   isBootstrapped: boolean
   register: (payload: {
@@ -47,27 +115,137 @@ type Store = {
   }) => Promise<AuthResult>
   logout: () => void
   connectExternalAccount: (payload: {
+    provider: string
     username: string
     password: string
   }) => Promise<AuthResult>
   resyncAllTests: () => Promise<AuthResult>
-  syncExternalAccount: () => Promise<void>
+  syncExternalAccount: (provider?: string) => Promise<void>
   resyncTest: (testId: string) => Promise<void>
-  toggleQuestionBookmark: (payload: {
+  testFilters: TestListFilters
+  setTestFilters: (filters: Partial<TestListFilters>) => Promise<AuthResult>
+  loadMoreTests: () => Promise<AuthResult>
+  loadTest: (testId: string) => Promise<AuthResult>
+  loadAnalyticsSummary: () => Promise<AnalyticsSummaryOutcome>
+  loadScoreDistribution: (testId: string) => Promise<ScoreDistributionOutcome>
+  importTest: (payload: {
+    format: 'json' | 'csv'
+    content: string
+    title?: string
+    examDate?: string
+  }) => Promise<ImportResult>
+  setKeyOverride: (payload: {
+    testId: string
+    questionId: string
+    key: unknown
+  }) => Promise<AuthResult>
+  setQuestionAnnotation: (payload: {
     testId: string
     questionId: string
-    bookmarked?: boolean
+    annotation: { tag: MistakeTag | null; reason: string } | null
   }) => Promise<AuthResult>
   updateAnswerKey: (payload: {
     testId: string
     questionId: string
     newKey: unknown
+    reason?: string
   }) => Promise<void>
+  loadKeyHistory: (testId: string) => Promise<void>
+  loadKeyChallenges: (testId: string) => Promise<void>
+  fileKeyChallenge: (payload: {
+    testId: string
+    questionId: string
+    proposedKey: unknown
+    justification: string
+  }) => Promise<AuthResult>
+  voteKeyChallenge: (payload: {
+    testId: string
+    challengeId: string
+    voted: boolean
+  }) => Promise<AuthResult>
+  loadQuestionNote: (payload: { testId: string; questionId: string }) => Promise<void>
+  saveQuestionNote: (payload: {
+    testId: string
+    questionId: string
+    body: string
+  }) => Promise<AuthResult>
+  deleteQuestionNote: (payload: {
+    testId: string
+    questionId: string
+  }) => Promise<AuthResult>
+  searchNotes: (query: string) => Promise<NoteSearchOutcome>
+  discardLocalNote: (questionId: string) => void
+  loadMistakeJournal: () => Promise<MistakeJournalOutcome>
+  loadRevisionDeck: () => Promise<RevisionDeckOutcome>
+  loadReviewCard: (cardId: string) => Promise<ReviewCardOutcome>
+  submitReview: (payload: { cardId: string; answer: unknown }) => Promise<ReviewOutcome>
+  loadPracticeSessions: () => Promise<PracticeListOutcome>
+  createPracticeTest: (payload: {
+    subjects: string[]
+    qtypes: string[]
+    count: number
+    durationMinutes: number
+    source: PracticeSource
+  }) => Promise<PracticeSessionOutcome>
+  loadPracticeSession: (sessionId: string) => Promise<PracticeSessionOutcome>
+  savePracticeProgress: (payload: PracticeProgress) => Promise<AuthResult>
+  submitPracticeTest: (
+    payload: PracticeProgress,
+  ) => Promise<AuthResult & { testId?: string }>
+  createTopic: (payload: {
+    subject: string
+    name: string
+  }) => Promise<AuthResult & { topic?: Topic }>
+  assignQuestionTopic: (payload: {
+    questionIds: string[]
+    topicId: string | null
+  }) => Promise<AuthResult>
+  loadTopicSuggestions: () => Promise<TopicSuggestionsOutcome>
+  reviewTopicSuggestion: (payload: {
+    suggestionId: string
+    decision: 'accept' | 'reject'
+  }) => Promise<AuthResult>
+  trainTopicModel: () => Promise<
+    AuthResult & { model?: TopicModelInfo; suggested?: number }
+  >
+  loadDiscussion: (payload: { testId: string; questionId: string }) => Promise<void>
+  subscribeDiscussion: (payload: { testId: string; questionId: string }) => () => void
+  postDiscussionMessage: (payload: {
+    testId: string
+    questionId: string
+    body: string
+    parentId?: string
+  }) => Promise<AuthResult>
+  setDiscussionPostPinned: (payload: {
+    testId: string
+    questionId: string
+    postId: string
+    pinned: boolean
+  }) => Promise<AuthResult>
+  deleteDiscussionPost: (payload: {
+    testId: string
+    questionId: string
+    postId: string
+  }) => Promise<AuthResult>
+  loadNotifications: () => Promise<void>
+  markNotificationsRead: (ids?: string[]) => Promise<void>
+  resolveKeyChallenge: (payload: {
+    testId: string
+    challengeId: string
+    status: Exclude<KeyChallengeStatus, 'open'>
+    note?: string
+  }) => Promise<AuthResult>
   updateMarkingScheme: (payload: {
     testId: string
     scheme: Record<
       string,
-      { correct: number; incorrect: number; unattempted: number }
+      {
+        correct: number
+        incorrect: number
+        unattempted: number
+        partial?: number
+        policy?: string
+      }
     >
   }) => Promise<void>
   setTheme: (theme: ThemeName) => void
@@ -119,16 +297,46 @@ const saveUi = (ui: AppState['ui']) => {
   localStorage.setItem(UI_KEY, JSON.stringify(ui))
 }
 
-const loadAdminOverride = () => {
-  const raw = localStorage.getItem(ADMIN_OVERRIDE_KEY)
-  if (raw === null) {
-    return false
-  }
-  return raw === 'true'
+const loadKeySource = (): KeySource => {
+  const raw = localStorage.getItem(KEY_SOURCE_KEY)
+  return raw === 'official' || raw === 'revised' ? raw : 'personal'
+}
+
+const saveKeySource = (source: KeySource) => {
+  localStorage.setItem(KEY_SOURCE_KEY, source)
 }
 
-const saveAdminOverride = (enabled: boolean) => {
-  localStorage.setItem(ADMIN_OVERRIDE_KEY, String(enabled))
+const loadLegacyNotes = () => {
+  const notes: Array<{
+    storageKey: string
+    testId: string
+    questionId: string
+    body: string
+  }> = []
+  for (let index = 0; index < localStorage.length; index += 1) {
+    const storageKey = localStorage.key(index)
+    if (!storageKey?.startsWith(LEGACY_NOTES_PREFIX)) {
+      continue
+    }
+    const ids = storageKey.slice(LEGACY_NOTES_PREFIX.length)
+    const separator = ids.lastIndexOf('-')
+    const body = localStorage.getItem(storageKey) ?? ''
+    if (separator <= 0) {
+      continue
+    }
+    if (!body.trim()) {
+      localStorage.removeItem(storageKey)
+      index -= 1
+      continue
+    }
+    notes.push({
+      storageKey,
+      testId: ids.slice(0, separator),
+      questionId: ids.slice(separator + 1),
+      body,
+    })
+  }
+  return notes
 }
 
 const loadToken = () => localStorage.getItem(TOKEN_KEY)
@@ -245,10 +453,11 @@ const normalizeAccount = (account: {
   syncFinishedAt?: string | null
   lastSyncAt: string | null
   statusMessage?: string | null
+  activeJobId?: string | null
 }): ExternalAccount => ({
   id: account.id,
   userId: account.userId,
-  provider: 'test.z7i.in',
+  provider: account.provider,
   username: account.username,
   status: normalizeAccountStatus(account.status),
   syncStatus: normalizeSyncStatus(account.syncStatus),
@@ -259,23 +468,207 @@ const normalizeAccount = (account: {
   syncFinishedAt: account.syncFinishedAt ?? null,
   lastSyncAt: account.lastSyncAt ?? null,
   statusMessage: account.statusMessage ?? undefined,
+  activeJobId: account.activeJobId ?? null,
+})
+
+const normalizeJobStatus = (value: unknown): SyncJob['status'] => {
+  const normalized = typeof value === 'string' ? value.toLowerCase() : ''
+  if (
+    normalized === 'queued' ||
+    normalized === 'running' ||
+    normalized === 'succeeded' ||
+    normalized === 'failed'
+  ) {
+    return normalized
+  }
+  return 'queued'
+}
+
+type RawSyncJob = {
+  id: string
+  accountId: string
+  kind: string
+  status: string
+  total?: number
+  completed?: number
+  result?: unknown
+  error?: string | null
+  createdAt: string
+  startedAt?: string | null
+  finishedAt?: string | null
+}
+
+const normalizeSyncJob = (job: RawSyncJob): SyncJob => ({
+  id: job.id,
+  accountId: job.accountId,
+  kind: job.kind.toLowerCase() === 'resync' ? 'resync' : 'sync',
+  status: normalizeJobStatus(job.status),
+  total: typeof job.total === 'number' ? job.total : 0,
+  completed: typeof job.completed === 'number' ? job.completed : 0,
+  result:
+    job.result && typeof job.result === 'object'
+      ? (job.result as SyncJob['result'])
+      : null,
+  error: job.error ?? null,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt ?? null,
+  finishedAt: job.finishedAt ?? null,
+})
+
+const isJobFinished = (job: SyncJob) =>
+  job.status === 'succeeded' || job.status === 'failed'
+
+type SyncStreamEvent =
+  | { type: 'job'; jobId: string; accountId: string; status: string }
+  | {
+      type: 'progress'
+      jobId: string
+      accountId: string
+      completed: number
+      total: number
+      currentTitle: string | null
+    }
+  | { type: 'warning'; jobId: string; accountId: string; message: string }
+  | {
+      type: 'result'
+      jobId: string
+      accountId: string
+      attemptId: string
+      externalExamId: string
+      title: string
+    }
+
+const isSyncStreamEvent = (value: unknown): value is SyncStreamEvent => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const event = value as { type?: unknown; jobId?: unknown; accountId?: unknown }
+  return (
+    typeof event.type === 'string' &&
+    typeof event.jobId === 'string' &&
+    typeof event.accountId === 'string'
+  )
+}
+
+const applySyncStreamEvent = (
+  prev: AppState,
+  event: SyncStreamEvent,
+): AppState => {
+  const current = prev.syncActivity[event.accountId]
+  const activity: SyncActivity =
+    current && current.jobId === event.jobId
+      ? current
+      : { jobId: event.jobId, currentTitle: null, warnings: [], results: [] }
+  let nextActivity = activity
+  let externalAccounts = prev.externalAccounts
+
+  if (event.type === 'progress') {
+    nextActivity = {
+      ...activity,
+      currentTitle: event.currentTitle ?? activity.currentTitle,
+    }
+    externalAccounts = prev.externalAccounts.map((item) =>
+      item.id === event.accountId
+        ? {
+            ...item,
+            syncStatus: 'syncing',
+            syncCompleted: event.completed,
+            syncTotal: event.total,
+          }
+        : item,
+    )
+  } else if (event.type === 'warning') {
+    nextActivity = { ...activity, warnings: [...activity.warnings, event.message] }
+  } else if (event.type === 'result') {
+    nextActivity = {
+      ...activity,
+      results: [
+        ...activity.results,
+        {
+          attemptId: event.attemptId,
+          externalExamId: event.externalExamId,
+          title: event.title,
+        },
+      ],
+    }
+  } else if (event.status === 'SUCCEEDED' || event.status === 'FAILED') {
+    nextActivity = { ...activity, currentTitle: null }
+  }
+
+  return {
+    ...prev,
+    externalAccounts,
+    syncActivity: { ...prev.syncActivity, [event.accountId]: nextActivity },
+  }
+}
+
+const toTestSummary = (
+  test: TestRecord,
+  keySource: KeySource,
+  topics: Topic[],
+): TestSummary => ({
+  id: test.id,
+  userId: test.userId,
+  provider: test.provider,
+  externalExamId: test.externalExamId,
+  title: test.title,
+  examDate: test.examDate,
+  rank: test.rank,
+  analysis: buildAttemptAnalysis(test, keySource, topics),
 })
 
-const replaceTest = (tests: TestRecord[], updated: TestRecord) =>
-  tests.map((test) => (test.id === updated.id ? updated : test))
+// Caches a full test and refreshes its list row from it, so the list reflects
+// key and annotation changes without another round trip.
+const cacheTest = (prev: AppState, test: TestRecord, keySource: KeySource): AppState => ({
+  ...prev,
+  tests: { ...prev.tests, [test.id]: test },
+  testSummaries: prev.testSummaries.map((summary) =>
+    summary.id === test.id ? toTestSummary(test, keySource, prev.topics) : summary,
+  ),
+})
+
+const isDiscussionEvent = (
+  value: unknown,
+): value is { type: 'post'; post: DiscussionPost } => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const event = value as { type?: unknown; post?: { id?: unknown } }
+  return event.type === 'post' && typeof event.post?.id === 'string'
+}
 
 const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
 export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
   const [state, setState] = useState<AppState>(() => ({
+    externalProviders: [],
     externalAccounts: [],
-    tests: [],
+    syncActivity: {},
+    tests: {},
+    testSummaries: [],
+    testsTotal: 0,
+    keyHistory: {},
+    keyChallenges: {},
+    notifications: [],
+    unreadNotifications: 0,
+    questionNotes: {},
+    localNotes: [],
+    discussions: {},
+    topics: [],
     ui: loadUi(),
   }))
   const [currentUser, setCurrentUser] = useState<User | null>(() => loadUser())
-  const [adminOverride, setAdminOverrideState] = useState(loadAdminOverride)
   const [isBootstrapped, setIsBootstrapped] = useState(false)
+  const [keySource, setKeySourceState] = useState(loadKeySource)
+  const keySourceRef = useRef(keySource)
+  const [testFilters, setTestFiltersState] = useState(DEFAULT_TEST_FILTERS)
+  const testFiltersRef = useRef(testFilters)
+  // Bumped by every first-page load, so pages requested for older filters
+  // are dropped when they arrive late.
+  const testPageRequest = useRef(0)
   const uiSnapshot = useRef(state.ui)
+  const jobWatchers = useRef(new Map<string, Promise<SyncJob | null>>())
+  const syncStream = useRef<AbortController | null>(null)
 
   useEffect(() => {
     saveUi(state.ui)
@@ -311,18 +704,36 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [currentUser, state.ui.fontScale, state.ui.mode, state.ui.theme])
 
-  const clearSession = () => {
+  const closeSyncStream = useCallback(() => {
+    syncStream.current?.abort()
+    syncStream.current = null
+  }, [])
+
+  const clearSession = useCallback(() => {
+    closeSyncStream()
     saveToken(null)
     saveUser(null)
     setCurrentUser(null)
+    testFiltersRef.current = DEFAULT_TEST_FILTERS
+    setTestFiltersState(DEFAULT_TEST_FILTERS)
     setState((prev) => ({
       ...prev,
       externalAccounts: [],
-      tests: [],
+      syncActivity: {},
+      tests: {},
+      testSummaries: [],
+      testsTotal: 0,
+      keyHistory: {},
+      keyChallenges: {},
+      notifications: [],
+      unreadNotifications: 0,
+      questionNotes: {},
+      localNotes: [],
+      discussions: {},
     }))
-  }
+  }, [closeSyncStream])
 
-  const refreshAccounts = async (token: string) => {
+  const refreshAccounts = useCallback(async (token: string) => {
     const data = await requestJson<{ accounts: ExternalAccount[] }>('/api/external', {
       token,
     })
@@ -332,17 +743,213 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
       externalAccounts: normalized,
     }))
     return normalized
-  }
+  }, [])
+
+  const refreshProviders = useCallback(async (token: string) => {
+    const data = await requestJson<{ providers: ExternalProvider[] }>(
+      '/api/external/providers',
+      { token },
+    )
+    setState((prev) => ({
+      ...prev,
+      externalProviders: data.providers,
+    }))
+  }, [])
+
+  const refreshTopics = useCallback(async (token: string) => {
+    const data = await requestJson<{ topics: Topic[] }>('/api/topics', { token })
+    setState((prev) => ({
+      ...prev,
+      topics: data.topics,
+    }))
+  }, [])
+
+  const fetchTestPage = useCallback((token: string, offset: number, limit: number) => {
+    const { q, subject, sort } = testFiltersRef.current
+    const params = new URLSearchParams({
+      offset: String(offset),
+      limit: String(limit),
+      keySource: keySourceRef.current,
+      sort,
+    })
+    if (q) {
+      params.set('q', q)
+    }
+    if (subject) {
+      params.set('subject', subject)
+    }
+    return requestJson<{ tests: TestSummary[]; total: number }>(`/api/tests?${params}`, {
+      token,
+    })
+  }, [])
+
+  const refreshTests = useCallback(async (token: string, limit = TEST_PAGE_SIZE) => {
+    testPageRequest.current += 1
+    const request = testPageRequest.current
+    const data = await fetchTestPage(token, 0, limit)
+    if (request !== testPageRequest.current) {
+      return
+    }
+    setState((prev) => ({
+      ...prev,
+      testSummaries: data.tests,
+      testsTotal: data.total,
+    }))
+  }, [fetchTestPage])
 
-  const refreshTests = async (token: string) => {
-    const data = await requestJson<{ tests: TestRecord[] }>('/api/tests', {
+  const fetchTest = useCallback(async (token: string, testId: string) => {
+    const data = await requestJson<{ test: TestRecord }>(`/api/tests/${testId}`, {
       token,
     })
+    setState((prev) => cacheTest(prev, data.test, keySourceRef.current))
+    return data.test
+  }, [])
+
+  const refreshNotifications = useCallback(async (token: string) => {
+    const data = await requestJson<{
+      notifications: AppNotification[]
+      unreadCount: number
+    }>('/api/notifications', { token })
     setState((prev) => ({
       ...prev,
-      tests: data.tests,
+      notifications: data.notifications,
+      unreadNotifications: data.unreadCount,
     }))
-  }
+  }, [])
+
+  const migrateLegacyNotes = useCallback(async (token: string) => {
+    const legacy = loadLegacyNotes()
+    if (legacy.length === 0) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{
+        imported: number
+        merged: number
+        questionIds: string[]
+        skipped: string[]
+        conflicts: string[]
+      }>(
+        '/api/notes/import',
+        {
+          method: 'POST',
+          token,
+          body: JSON.stringify({
+            notes: legacy.map(({ testId, questionId, body }) => ({
+              testId,
+              questionId,
+              body,
+            })),
+          }),
+        },
+      )
+      const migrated = new Set(data.questionIds)
+      const skipped = new Set(data.skipped)
+      const conflicts = new Set(data.conflicts)
+      const localNotes: LocalNote[] = []
+      legacy.forEach(({ storageKey, testId, questionId, body }) => {
+        if (migrated.has(questionId)) {
+          localStorage.removeItem(storageKey)
+        } else if (skipped.has(questionId) || conflicts.has(questionId)) {
+          localNotes.push({
+            testId,
+            questionId,
+            body,
+            reason: skipped.has(questionId) ? 'too-long' : 'conflict',
+          })
+        }
+      })
+      setState((prev) => ({ ...prev, localNotes }))
+    } catch (error) {
+      console.error(error)
+    }
+  }, [])
+
+  const upsertAccount = useCallback((next: ExternalAccount) => {
+    setState((prev) => ({
+      ...prev,
+      externalAccounts: prev.externalAccounts.some((item) => item.id === next.id)
+        ? prev.externalAccounts.map((item) => (item.id === next.id ? next : item))
+        : [...prev.externalAccounts, next],
+    }))
+  }, [])
+
+  const openSyncStream = useCallback((token: string) => {
+    if (syncStream.current) {
+      return
+    }
+    const controller = new AbortController()
+    syncStream.current = controller
+
+    const listen = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          await streamEvents('/api/external/sync/events', {
+            token,
+            signal: controller.signal,
+            onEvent: (_name, data) => {
+              if (isSyncStreamEvent(data)) {
+                setState((prev) => applySyncStreamEvent(prev, data))
+              }
+            },
+          })
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return
+          }
+          console.error(error)
+        }
+        await wait(3000)
+      }
+    }
+
+    void listen()
+  }, [])
+
+  const watchSyncJob = useCallback((token: string, jobId: string) => {
+    const existing = jobWatchers.current.get(jobId)
+    if (existing) {
+      return existing
+    }
+    openSyncStream(token)
+
+    const task = (async () => {
+      try {
+        while (true) {
+          await wait(1500)
+          const data = await requestJson<{
+            job: RawSyncJob
+            account: ExternalAccount | null
+          }>(`/api/external/jobs/${jobId}`, { token })
+          if (data.account) {
+            upsertAccount(normalizeAccount(data.account))
+          }
+          const job = normalizeSyncJob(data.job)
+          if (isJobFinished(job)) {
+            if (job.status === 'succeeded') {
+              // Synced attempts may have new answers, so cached details are
+              // dropped and reloaded when next opened.
+              setState((prev) => ({ ...prev, tests: {} }))
+              await Promise.all([refreshTests(token), refreshNotifications(token)])
+            }
+            return job
+          }
+        }
+      } catch (error) {
+        console.error(error)
+        return null
+      } finally {
+        jobWatchers.current.delete(jobId)
+        if (jobWatchers.current.size === 0) {
+          closeSyncStream()
+        }
+      }
+    })()
+
+    jobWatchers.current.set(jobId, task)
+    return task
+  }, [closeSyncStream, openSyncStream, refreshNotifications, refreshTests, upsertAccount])
 
   useEffect(() => {
     const bootstrap = async () => {
@@ -377,7 +984,19 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
       }
 
       try {
-        await Promise.all([refreshAccounts(token), refreshTests(token)])
+        const [accounts] = await Promise.all([
+          refreshAccounts(token),
+          refreshProviders(token),
+          refreshTopics(token),
+          refreshTests(token),
+          refreshNotifications(token),
+          migrateLegacyNotes(token),
+        ])
+        accounts.forEach((account) => {
+          if (account.activeJobId) {
+            void watchSyncJob(token, account.activeJobId)
+          }
+        })
       } catch (error) {
         console.error(error)
       } finally {
@@ -386,9 +1005,18 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
     }
 
     void bootstrap()
-  }, [])
-
-  const register: Store['register'] = async ({ name, email, password }) => {
+  }, [
+    clearSession,
+    migrateLegacyNotes,
+    refreshAccounts,
+    refreshNotifications,
+    refreshProviders,
+    refreshTests,
+    refreshTopics,
+    watchSyncJob,
+  ])
+
+  const register = useCallback<Store['register']>(async ({ name, email, password }) => {
     try {
       const data = await requestJson<{
         user: { id: string; name: string; email: string; role: string; preferences?: unknown }
@@ -397,7 +1025,7 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         method: 'POST',
         body: JSON.stringify({ name, email, password }),
       })
-      const normalized = normalizeUser(data.user, state.ui)
+      const normalized = normalizeUser(data.user, uiSnapshot.current)
       saveToken(data.token)
       saveUser(normalized)
       setCurrentUser(normalized)
@@ -409,7 +1037,12 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
           fontScale: normalized.preferences.fontScale,
         },
       }))
-      await Promise.all([refreshAccounts(data.token), refreshTests(data.token)])
+      await Promise.all([
+        refreshAccounts(data.token),
+        refreshProviders(data.token),
+        refreshTopics(data.token),
+        refreshTests(data.token),
+      ])
       return { ok: true }
     } catch (error) {
       return {
@@ -417,9 +1050,9 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         message: error instanceof Error ? error.message : 'Unable to register.',
       }
     }
-  }
+  }, [refreshAccounts, refreshProviders, refreshTests, refreshTopics])
 
-  const login: Store['login'] = async ({ email, password }) => {
+  const login = useCallback<Store['login']>(async ({ email, password }) => {
     try {
       const data = await requestJson<{
         user: { id: string; name: string; email: string; role: string; preferences?: unknown }
@@ -428,7 +1061,7 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         method: 'POST',
         body: JSON.stringify({ email, password }),
       })
-      const normalized = normalizeUser(data.user, state.ui)
+      const normalized = normalizeUser(data.user, uiSnapshot.current)
       saveToken(data.token)
       saveUser(normalized)
       setCurrentUser(normalized)
@@ -440,7 +1073,14 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
           fontScale: normalized.preferences.fontScale,
         },
       }))
-      await Promise.all([refreshAccounts(data.token), refreshTests(data.token)])
+      await Promise.all([
+        refreshAccounts(data.token),
+        refreshProviders(data.token),
+        refreshTopics(data.token),
+        refreshTests(data.token),
+        refreshNotifications(data.token),
+        migrateLegacyNotes(data.token),
+      ])
       return { ok: true }
     } catch (error) {
       return {
@@ -448,13 +1088,13 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         message: error instanceof Error ? error.message : 'Unable to sign in.',
       }
     }
-  }
+  }, [migrateLegacyNotes, refreshAccounts, refreshNotifications, refreshProviders, refreshTests, refreshTopics])
 
-  const logout = () => {
+  const logout = useCallback(() => {
     clearSession()
-  }
+  }, [clearSession])
 
-  const updateProfile: Store['updateProfile'] = async ({ name, email }) => {
+  const updateProfile = useCallback<Store['updateProfile']>(async ({ name, email }) => {
     if (!currentUser) {
       return { ok: false, message: 'Not signed in.' }
     }
@@ -471,7 +1111,7 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         token,
         body: JSON.stringify({ name, email }),
       })
-      const normalized = normalizeUser(data.user, state.ui)
+      const normalized = normalizeUser(data.user, uiSnapshot.current)
       setCurrentUser(normalized)
       saveUser(normalized)
       return { ok: true }
@@ -481,9 +1121,9 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         message: error instanceof Error ? error.message : 'Unable to update profile.',
       }
     }
-  }
+  }, [currentUser])
 
-  const updatePassword: Store['updatePassword'] = async ({
+  const updatePassword = useCallback<Store['updatePassword']>(async ({
     currentPassword,
     nextPassword,
   }) => {
@@ -508,18 +1148,9 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         message: error instanceof Error ? error.message : 'Unable to update password.',
       }
     }
-  }
-
-  const upsertAccount = (next: ExternalAccount) => {
-    setState((prev) => ({
-      ...prev,
-      externalAccounts: prev.externalAccounts.some((item) => item.id === next.id)
-        ? prev.externalAccounts.map((item) => (item.id === next.id ? next : item))
-        : [...prev.externalAccounts, next],
-    }))
-  }
+  }, [currentUser])
 
-  const connectExternalAccount: Store['connectExternalAccount'] = async (payload) => {
+  const connectExternalAccount = useCallback<Store['connectExternalAccount']>(async (payload) => {
     if (!currentUser) {
       return { ok: false, message: 'Not signed in.' }
     }
@@ -537,7 +1168,7 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
           body: JSON.stringify({
             username: payload.username,
             password: payload.password,
-            provider: 'test.z7i.in',
+            provider: payload.provider,
           }),
         },
       )
@@ -552,81 +1183,70 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
             : 'Unable to connect account.'
       return { ok: false, message }
     }
-  }
-
-  const resyncAllTests: Store['resyncAllTests'] = async () => {
-    if (!currentUser) {
-      return { ok: false, message: 'Not signed in.' }
-    }
-    const token = loadToken()
-    if (!token) {
-      return { ok: false, message: 'Missing session token.' }
-    }
-
-    const account = state.externalAccounts.find(
-      (item) => item.userId === currentUser.id && item.provider === 'test.z7i.in',
-    )
-    if (!account) {
-      return { ok: false, message: 'External account not connected.' }
-    }
-    if (account.syncStatus === 'syncing') {
-      return { ok: false, message: 'Sync already in progress.' }
-    }
-
-    const forceAttemptExamIds = Array.from(
-      new Set(
-        state.tests
-          .map((test) => test.externalExamId)
-          .filter((value): value is string => Boolean(value)),
-      ),
-    )
-
-    if (forceAttemptExamIds.length === 0) {
-      return { ok: false, message: 'No external tests available to resync.' }
-    }
+  }, [currentUser, upsertAccount])
 
+  const resyncAccount = useCallback(async (token: string, account: ExternalAccount) => {
     try {
       const data = await requestJson<{
         account: ExternalAccount
+        job: RawSyncJob
       }>('/api/external/sync', {
         method: 'POST',
         token,
         body: JSON.stringify({
-          provider: 'test.z7i.in',
-          forceAttemptExamIds,
+          provider: account.provider,
+          forceAllAttempts: true,
           attemptsOnly: true,
         }),
       })
       upsertAccount(normalizeAccount(data.account))
-      await refreshTests(token)
-      return { ok: true }
+      const job = await watchSyncJob(token, data.job.id)
+      if (!job) {
+        return 'Lost track of the resync job.'
+      }
+      if (job.status === 'failed') {
+        return job.error ?? 'Unable to resync tests.'
+      }
+      return null
     } catch (error) {
-      const message =
-        error instanceof ApiError
+      return error instanceof ApiError
+        ? error.message
+        : error instanceof Error
           ? error.message
-          : error instanceof Error
-            ? error.message
-            : 'Unable to resync tests.'
-      return { ok: false, message }
+          : 'Unable to resync tests.'
     }
-  }
+  }, [upsertAccount, watchSyncJob])
 
-  const syncExternalAccount: Store['syncExternalAccount'] = async () => {
+  const resyncAllTests = useCallback<Store['resyncAllTests']>(async () => {
     if (!currentUser) {
-      return
+      return { ok: false, message: 'Not signed in.' }
     }
     const token = loadToken()
     if (!token) {
-      return
+      return { ok: false, message: 'Missing session token.' }
     }
 
-    const account = state.externalAccounts.find(
-      (item) => item.userId === currentUser.id && item.provider === 'test.z7i.in',
+    const accounts = state.externalAccounts.filter(
+      (item) => item.userId === currentUser.id,
     )
-    if (!account || account.syncStatus === 'syncing') {
-      return
+    if (accounts.length === 0) {
+      return { ok: false, message: 'External account not connected.' }
+    }
+    const idle = accounts.filter((item) => item.syncStatus !== 'syncing')
+    if (idle.length === 0) {
+      return { ok: false, message: 'Sync already in progress.' }
+    }
+
+    const failures = (
+      await Promise.all(idle.map((account) => resyncAccount(token, account)))
+    ).filter((message): message is string => Boolean(message))
+    if (failures.length > 0) {
+      return { ok: false, message: failures.join(' ') }
     }
+    return { ok: true }
+  }, [currentUser, resyncAccount, state.externalAccounts])
 
+  const startAccountSync = useCallback(async (token: string, account: ExternalAccount) => {
     const optimistic: ExternalAccount = {
       ...account,
       syncStatus: 'syncing',
@@ -637,115 +1257,925 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
     }
     upsertAccount(optimistic)
 
-    let keepPolling = true
-    const pollSync = async () => {
-      while (keepPolling) {
-        await wait(1500)
-        try {
-          const accounts = await refreshAccounts(token)
-          const refreshed = accounts.find((item) => item.id === account.id)
-          if (!refreshed || refreshed.syncStatus !== 'syncing') {
-            break
-          }
-        } catch (error) {
-          console.error(error)
-          break
-        }
-      }
-    }
-
-    const pollTask = pollSync()
-    let syncSucceeded = false
-    let stopPollingEarly = true
     try {
       const data = await requestJson<{
         account: ExternalAccount
+        job: RawSyncJob
       }>('/api/external/sync', {
         method: 'POST',
         token,
-        body: JSON.stringify({ provider: 'test.z7i.in' }),
+        body: JSON.stringify({ provider: account.provider }),
       })
-      syncSucceeded = true
       upsertAccount(normalizeAccount(data.account))
+      await watchSyncJob(token, data.job.id)
     } catch (error) {
-      if (error instanceof ApiError && error.status === 409) {
-        stopPollingEarly = false
-      } else {
+      if (!(error instanceof ApiError && error.status === 409)) {
         console.error(error)
       }
-    } finally {
-      if (stopPollingEarly) {
-        keepPolling = false
-      }
-      await pollTask
-      await refreshAccounts(token)
-      if (syncSucceeded) {
-        await refreshTests(token)
+      const accounts = await refreshAccounts(token)
+      const refreshed = accounts.find((item) => item.id === account.id)
+      if (refreshed?.activeJobId) {
+        await watchSyncJob(token, refreshed.activeJobId)
       }
     }
-  }
+  }, [refreshAccounts, upsertAccount, watchSyncJob])
 
-  const updateAnswerKey: Store['updateAnswerKey'] = async ({
-    testId,
-    questionId,
-    newKey,
-  }) => {
+  const syncExternalAccount = useCallback<Store['syncExternalAccount']>(async (provider) => {
+    if (!currentUser) {
+      return
+    }
     const token = loadToken()
     if (!token) {
       return
     }
 
-    try {
-      const data = await requestJson<{ test: TestRecord }>(
+    const accounts = state.externalAccounts.filter(
+      (item) =>
+        item.userId === currentUser.id &&
+        item.syncStatus !== 'syncing' &&
+        (!provider || item.provider === provider),
+    )
+    await Promise.all(accounts.map((account) => startAccountSync(token, account)))
+  }, [currentUser, startAccountSync, state.externalAccounts])
+
+  const setQuestionNote = useCallback((questionId: string, note: QuestionNote | null) => {
+    setState((prev) => ({
+      ...prev,
+      questionNotes: { ...prev.questionNotes, [questionId]: note },
+    }))
+  }, [])
+
+  const loadQuestionNote = useCallback<Store['loadQuestionNote']>(async ({
+    testId,
+    questionId,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{ note: QuestionNote | null }>(
+        `/api/tests/${testId}/questions/${questionId}/notes`,
+        { token },
+      )
+      setQuestionNote(questionId, data.note)
+    } catch (error) {
+      console.error(error)
+    }
+  }, [setQuestionNote])
+
+  const saveQuestionNote = useCallback<Store['saveQuestionNote']>(async ({
+    testId,
+    questionId,
+    body,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ note: QuestionNote | null }>(
+        `/api/tests/${testId}/questions/${questionId}/notes`,
+        body.trim()
+          ? { method: 'PUT', token, body: JSON.stringify({ body }) }
+          : { method: 'DELETE', token },
+      )
+      setQuestionNote(questionId, data.note)
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to save note.'
+      return { ok: false, message }
+    }
+  }, [setQuestionNote])
+
+  const deleteQuestionNote = useCallback<Store['deleteQuestionNote']>(
+    ({ testId, questionId }) =>
+      saveQuestionNote({ testId, questionId, body: '' }),
+    [saveQuestionNote],
+  )
+
+  const searchNotes = useCallback<Store['searchNotes']>(async (query) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.', results: [] }
+    }
+
+    try {
+      const params = new URLSearchParams({ q: query.trim() })
+      const data = await requestJson<{ results: NoteSearchResult[] }>(
+        `/api/notes?${params.toString()}`,
+        { token },
+      )
+      return { ok: true, results: data.results }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to search notes.'
+      return { ok: false, message, results: [] }
+    }
+  }, [])
+
+  const discardLocalNote = useCallback<Store['discardLocalNote']>((questionId) => {
+    loadLegacyNotes().forEach((entry) => {
+      if (entry.questionId === questionId) {
+        localStorage.removeItem(entry.storageKey)
+      }
+    })
+    setState((prev) => ({
+      ...prev,
+      localNotes: prev.localNotes.filter((note) => note.questionId !== questionId),
+    }))
+  }, [])
+
+  const loadMistakeJournal = useCallback<Store['loadMistakeJournal']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.', entries: [] }
+    }
+
+    try {
+      const data = await requestJson<{ entries: MistakeJournalEntry[] }>(
+        '/api/journal',
+        { token },
+      )
+      return { ok: true, entries: data.entries }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load the mistake journal.'
+      return { ok: false, message, entries: [] }
+    }
+  }, [])
+
+  const loadRevisionDeck = useCallback<Store['loadRevisionDeck']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.', cards: [] }
+    }
+
+    try {
+      const data = await requestJson<{ cards: ReviewCard[] }>('/api/revision', { token })
+      return { ok: true, cards: data.cards }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load the revision deck.'
+      return { ok: false, message, cards: [] }
+    }
+  }, [])
+
+  const loadReviewCard = useCallback<Store['loadReviewCard']>(async (cardId) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ card: ReviewCard; question: ReviewQuestion }>(
+        `/api/revision/${cardId}`,
+        { token },
+      )
+      return { ok: true, card: data.card, question: data.question }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load this question.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const submitReview = useCallback<Store['submitReview']>(async ({ cardId, answer }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ card: ReviewCard; result: ReviewResult }>(
+        `/api/revision/${cardId}/review`,
+        { method: 'POST', token, body: JSON.stringify({ answer }) },
+      )
+      return { ok: true, card: data.card, result: data.result }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to grade your answer.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const loadPracticeSessions = useCallback<Store['loadPracticeSessions']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.', sessions: [] }
+    }
+
+    try {
+      const data = await requestJson<{ sessions: PracticeSessionSummary[] }>(
+        '/api/practice',
+        { token },
+      )
+      return { ok: true, sessions: data.sessions }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load practice tests.'
+      return { ok: false, message, sessions: [] }
+    }
+  }, [])
+
+  const createPracticeTest = useCallback<Store['createPracticeTest']>(async (payload) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ session: PracticeSession }>('/api/practice', {
+        method: 'POST',
+        token,
+        body: JSON.stringify(payload),
+      })
+      return { ok: true, session: data.session }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to create a practice test.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const loadPracticeSession = useCallback<Store['loadPracticeSession']>(async (sessionId) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ session: PracticeSession }>(
+        `/api/practice/${sessionId}`,
+        { token },
+      )
+      return { ok: true, session: data.session }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load this practice test.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const savePracticeProgress = useCallback<Store['savePracticeProgress']>(async ({
+    sessionId,
+    answers,
+    timings,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      await requestJson<{ ok: boolean }>(`/api/practice/${sessionId}`, {
+        method: 'PUT',
+        token,
+        body: JSON.stringify({ answers, timings }),
+      })
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to save your progress.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const submitPracticeTest = useCallback<Store['submitPracticeTest']>(async ({
+    sessionId,
+    answers,
+    timings,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const { testId } = await requestJson<{ testId: string }>(
+        `/api/practice/${sessionId}/submit`,
+        { method: 'POST', token, body: JSON.stringify({ answers, timings }) },
+      )
+      await Promise.all([fetchTest(token, testId), refreshTests(token)])
+      return { ok: true, testId }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to submit the practice test.'
+      return { ok: false, message }
+    }
+  }, [fetchTest, refreshTests])
+
+  const upsertDiscussionPost = useCallback((post: DiscussionPost) => {
+    setState((prev) => {
+      const posts = prev.discussions[post.questionId] ?? []
+      const next = posts.some((item) => item.id === post.id)
+        ? posts.map((item) => (item.id === post.id ? post : item))
+        : [...posts, post]
+      return {
+        ...prev,
+        discussions: { ...prev.discussions, [post.questionId]: next },
+      }
+    })
+  }, [])
+
+  const createTopic = useCallback<Store['createTopic']>(async ({ subject, name }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ topic: Topic }>('/api/topics', {
+        method: 'POST',
+        token,
+        body: JSON.stringify({ subject, name }),
+      })
+      setState((prev) => ({
+        ...prev,
+        topics: [...prev.topics, data.topic].sort(
+          (a, b) => a.subject.localeCompare(b.subject) || a.name.localeCompare(b.name),
+        ),
+      }))
+      return { ok: true, topic: data.topic }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to create topic.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const applyQuestionTopics = useCallback((questionIds: string[], topicId: string | null) => {
+    const updated = new Set(questionIds)
+    setState((prev) =>
+      Object.values(prev.tests).reduce(
+        (next, test) =>
+          test.questions.some((question) => updated.has(question.id))
+            ? cacheTest(
+                next,
+                {
+                  ...test,
+                  questions: test.questions.map((question) =>
+                    updated.has(question.id) ? { ...question, topicId } : question,
+                  ),
+                },
+                keySourceRef.current,
+              )
+            : next,
+        prev,
+      ),
+    )
+  }, [])
+
+  const assignQuestionTopic = useCallback<Store['assignQuestionTopic']>(async ({
+    questionIds,
+    topicId,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ questionIds: string[]; topicId: string | null }>(
+        '/api/topics/assignments',
+        {
+          method: 'PUT',
+          token,
+          body: JSON.stringify({ questionIds, topicId }),
+        },
+      )
+      applyQuestionTopics(data.questionIds, data.topicId)
+      await refreshTopics(token)
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to update topics.'
+      return { ok: false, message }
+    }
+  }, [applyQuestionTopics, refreshTopics])
+
+  const loadTopicSuggestions = useCallback<Store['loadTopicSuggestions']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.', model: null, suggestions: [] }
+    }
+
+    try {
+      const data = await requestJson<{
+        model: TopicModelInfo | null
+        suggestions: TopicSuggestion[]
+      }>('/api/topics/suggestions', { token })
+      return { ok: true, model: data.model, suggestions: data.suggestions }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load topic suggestions.'
+      return { ok: false, message, model: null, suggestions: [] }
+    }
+  }, [])
+
+  const reviewTopicSuggestion = useCallback<Store['reviewTopicSuggestion']>(async ({
+    suggestionId,
+    decision,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ questionId: string; topicId: string | null }>(
+        `/api/topics/suggestions/${suggestionId}/${decision}`,
+        { method: 'POST', token },
+      )
+      if (data.topicId) {
+        applyQuestionTopics([data.questionId], data.topicId)
+        await refreshTopics(token)
+      }
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to review the suggestion.'
+      return { ok: false, message }
+    }
+  }, [applyQuestionTopics, refreshTopics])
+
+  const trainTopicModel = useCallback<Store['trainTopicModel']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ model: TopicModelInfo; suggested: number }>(
+        '/api/topics/model',
+        { method: 'POST', token },
+      )
+      return { ok: true, model: data.model, suggested: data.suggested }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to train the topic model.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const loadDiscussion = useCallback<Store['loadDiscussion']>(async ({ testId, questionId }) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{ posts: DiscussionPost[] }>(
+        `/api/tests/${testId}/questions/${questionId}/discussion`,
+        { token },
+      )
+      setState((prev) => ({
+        ...prev,
+        discussions: { ...prev.discussions, [questionId]: data.posts },
+      }))
+    } catch (error) {
+      console.error(error)
+    }
+  }, [])
+
+  const subscribeDiscussion = useCallback<Store['subscribeDiscussion']>(({ testId, questionId }) => {
+    const token = loadToken()
+    if (!token) {
+      return () => {}
+    }
+    const controller = new AbortController()
+    const path = `/api/tests/${testId}/questions/${questionId}/discussion`
+
+    const listen = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          await streamEvents(`${path}/events`, {
+            token,
+            signal: controller.signal,
+            onEvent: (_name, data) => {
+              if (isDiscussionEvent(data)) {
+                upsertDiscussionPost(data.post)
+              }
+            },
+          })
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return
+          }
+          console.error(error)
+        }
+        await wait(3000)
+        if (!controller.signal.aborted) {
+          await loadDiscussion({ testId, questionId })
+        }
+      }
+    }
+
+    void listen()
+    return () => controller.abort()
+  }, [loadDiscussion, upsertDiscussionPost])
+
+  const sendDiscussionRequest = useCallback(async (
+    path: string,
+    init: { method: string; body?: unknown },
+    fallback: string,
+  ): Promise<AuthResult> => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ post: DiscussionPost }>(path, {
+        method: init.method,
+        token,
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      })
+      upsertDiscussionPost(data.post)
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : fallback
+      return { ok: false, message }
+    }
+  }, [upsertDiscussionPost])
+
+  const postDiscussionMessage = useCallback<Store['postDiscussionMessage']>(
+    ({ testId, questionId, body, parentId }) =>
+      sendDiscussionRequest(
+        `/api/tests/${testId}/questions/${questionId}/discussion`,
+        { method: 'POST', body: { body, parentId } },
+        'Unable to post message.',
+      ),
+    [sendDiscussionRequest],
+  )
+
+  const setDiscussionPostPinned = useCallback<Store['setDiscussionPostPinned']>(
+    ({ testId, questionId, postId, pinned }) =>
+      sendDiscussionRequest(
+        `/api/tests/${testId}/questions/${questionId}/discussion/${postId}`,
+        { method: 'PATCH', body: { pinned } },
+        'Unable to update message.',
+      ),
+    [sendDiscussionRequest],
+  )
+
+  const deleteDiscussionPost = useCallback<Store['deleteDiscussionPost']>(
+    ({ testId, questionId, postId }) =>
+      sendDiscussionRequest(
+        `/api/tests/${testId}/questions/${questionId}/discussion/${postId}`,
+        { method: 'DELETE' },
+        'Unable to delete message.',
+      ),
+    [sendDiscussionRequest],
+  )
+
+  const loadNotifications = useCallback<Store['loadNotifications']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      await refreshNotifications(token)
+    } catch (error) {
+      console.error(error)
+    }
+  }, [refreshNotifications])
+
+  const markNotificationsRead = useCallback<Store['markNotificationsRead']>(async (ids) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{
+        notifications: AppNotification[]
+        unreadCount: number
+      }>('/api/notifications/read', {
+        method: 'PATCH',
+        token,
+        body: JSON.stringify({ ids }),
+      })
+      setState((prev) => ({
+        ...prev,
+        notifications: data.notifications,
+        unreadNotifications: data.unreadCount,
+      }))
+    } catch (error) {
+      console.error(error)
+    }
+  }, [])
+
+  const loadKeyHistory = useCallback<Store['loadKeyHistory']>(async (testId) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{ events: KeyUpdateEvent[] }>(
+        `/api/tests/${testId}/key-history`,
+        { token },
+      )
+      setState((prev) => ({
+        ...prev,
+        keyHistory: { ...prev.keyHistory, [testId]: data.events },
+      }))
+    } catch (error) {
+      console.error(error)
+    }
+  }, [])
+
+  const loadKeyChallenges = useCallback<Store['loadKeyChallenges']>(async (testId) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{ challenges: KeyChallenge[] }>(
+        `/api/tests/${testId}/challenges`,
+        { token },
+      )
+      setState((prev) => ({
+        ...prev,
+        keyChallenges: { ...prev.keyChallenges, [testId]: data.challenges },
+      }))
+    } catch (error) {
+      console.error(error)
+    }
+  }, [])
+
+  const sendChallengeRequest = useCallback(async (
+    testId: string,
+    path: string,
+    init: { method: string; body: unknown },
+    fallback: string,
+  ): Promise<AuthResult> => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ challenges: KeyChallenge[] }>(
+        `/api/tests/${testId}/challenges${path}`,
+        { method: init.method, token, body: JSON.stringify(init.body) },
+      )
+      setState((prev) => ({
+        ...prev,
+        keyChallenges: { ...prev.keyChallenges, [testId]: data.challenges },
+      }))
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : fallback
+      return { ok: false, message }
+    }
+  }, [])
+
+  const fileKeyChallenge = useCallback<Store['fileKeyChallenge']>(
+    ({ testId, questionId, proposedKey, justification }) =>
+      sendChallengeRequest(
+        testId,
+        '',
+        { method: 'POST', body: { questionId, proposedKey, justification } },
+        'Unable to file challenge.',
+      ),
+    [sendChallengeRequest],
+  )
+
+  const voteKeyChallenge = useCallback<Store['voteKeyChallenge']>(
+    ({ testId, challengeId, voted }) =>
+      sendChallengeRequest(
+        testId,
+        `/${challengeId}/vote`,
+        { method: 'PUT', body: { voted } },
+        'Unable to update vote.',
+      ),
+    [sendChallengeRequest],
+  )
+
+  const resolveKeyChallenge = useCallback<Store['resolveKeyChallenge']>(async ({
+    testId,
+    challengeId,
+    status,
+    note,
+  }) => {
+    const result = await sendChallengeRequest(
+      testId,
+      `/${challengeId}/resolve`,
+      { method: 'POST', body: { status, note } },
+      'Unable to resolve challenge.',
+    )
+    const token = loadToken()
+    if (!result.ok || status !== 'accepted' || !token) {
+      return result
+    }
+
+    try {
+      await fetchTest(token, testId)
+      await Promise.all([loadKeyHistory(testId), loadNotifications()])
+    } catch (error) {
+      console.error(error)
+    }
+    return result
+  }, [fetchTest, loadKeyHistory, loadNotifications, sendChallengeRequest])
+
+  const updateAnswerKey = useCallback<Store['updateAnswerKey']>(async ({
+    testId,
+    questionId,
+    newKey,
+    reason,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{ test: TestRecord }>(
         `/api/tests/${testId}/answer-key`,
         {
           method: 'POST',
           token,
-          body: JSON.stringify({ questionId, newKey }),
+          body: JSON.stringify({ questionId, newKey, reason }),
         },
       )
+      setState((prev) => cacheTest(prev, data.test, keySourceRef.current))
+      await Promise.all([loadKeyHistory(testId), loadNotifications()])
+    } catch (error) {
+      console.error(error)
+    }
+  }, [loadKeyHistory, loadNotifications])
+
+  const resyncTest = useCallback<Store['resyncTest']>(async (testId) => {
+    const token = loadToken()
+    if (!token) {
+      return
+    }
+
+    try {
+      const data = await requestJson<{
+        job: RawSyncJob
+      }>(`/api/tests/${testId}/resync`, {
+        method: 'POST',
+        token,
+      })
+      const job = normalizeSyncJob(data.job)
       setState((prev) => ({
         ...prev,
-        tests: replaceTest(prev.tests, data.test),
+        externalAccounts: prev.externalAccounts.map((item) =>
+          item.id === job.accountId
+            ? { ...item, syncStatus: 'syncing', activeJobId: job.id }
+            : item,
+        ),
       }))
+      await watchSyncJob(token, job.id)
     } catch (error) {
       console.error(error)
     }
-  }
+  }, [watchSyncJob])
 
-  const resyncTest: Store['resyncTest'] = async (testId) => {
+  const importTest = useCallback<Store['importTest']>(async (payload) => {
     const token = loadToken()
     if (!token) {
-      return
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ test: TestRecord }>('/api/tests/import', {
+        method: 'POST',
+        token,
+        body: JSON.stringify(payload),
+      })
+      setState((prev) => cacheTest(prev, data.test, keySourceRef.current))
+      await refreshTests(token)
+      return { ok: true, testId: data.test.id }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return { ok: false, message: error.message, issues: error.issues }
+      }
+      return {
+        ok: false,
+        message: error instanceof Error ? error.message : 'Unable to import test.',
+      }
+    }
+  }, [refreshTests])
+
+  const setQuestionAnnotation = useCallback<Store['setQuestionAnnotation']>(async ({
+    testId,
+    questionId,
+    annotation,
+  }) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
     }
 
     try {
       const data = await requestJson<{ test: TestRecord }>(
-        `/api/tests/${testId}/resync`,
+        `/api/tests/${testId}/questions/${questionId}/annotation`,
         {
-          method: 'POST',
+          method: 'PATCH',
           token,
+          body: JSON.stringify({ annotation }),
         },
       )
-      setState((prev) => {
-        const hasId = prev.tests.some((item) => item.id === data.test.id)
-        if (hasId) {
-          return { ...prev, tests: replaceTest(prev.tests, data.test) }
-        }
-        const filtered = prev.tests.filter(
-          (item) => item.externalExamId !== data.test.externalExamId,
-        )
-        return { ...prev, tests: [...filtered, data.test] }
-      })
+      setState((prev) => cacheTest(prev, data.test, keySourceRef.current))
+      return { ok: true }
     } catch (error) {
-      console.error(error)
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to update annotation.'
+      return { ok: false, message }
     }
-  }
+  }, [])
 
-  const toggleQuestionBookmark: Store['toggleQuestionBookmark'] = async ({
+  const setKeyOverride = useCallback<Store['setKeyOverride']>(async ({
     testId,
     questionId,
-    bookmarked,
+    key,
   }) => {
     const token = loadToken()
     if (!token) {
@@ -754,17 +2184,14 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
 
     try {
       const data = await requestJson<{ test: TestRecord }>(
-        `/api/tests/${testId}/questions/${questionId}/bookmarks`,
+        `/api/tests/${testId}/questions/${questionId}/key-override`,
         {
           method: 'PATCH',
           token,
-          body: JSON.stringify({ bookmarked }),
+          body: JSON.stringify({ key }),
         },
       )
-      setState((prev) => ({
-        ...prev,
-        tests: replaceTest(prev.tests, data.test),
-      }))
+      setState((prev) => cacheTest(prev, data.test, keySourceRef.current))
       return { ok: true }
     } catch (error) {
       const message =
@@ -772,12 +2199,12 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
           ? error.message
           : error instanceof Error
             ? error.message
-            : 'Unable to update bookmark.'
+            : 'Unable to save your key.'
       return { ok: false, message }
     }
-  }
+  }, [])
 
-  const updateMarkingScheme: Store['updateMarkingScheme'] = async ({
+  const updateMarkingScheme = useCallback<Store['updateMarkingScheme']>(async ({
     testId,
     scheme,
   }) => {
@@ -795,16 +2222,14 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
           body: JSON.stringify({ scheme }),
         },
       )
-      setState((prev) => ({
-        ...prev,
-        tests: replaceTest(prev.tests, data.test),
-      }))
+      setState((prev) => cacheTest(prev, data.test, keySourceRef.current))
+      await loadNotifications()
     } catch (error) {
       console.error(error)
     }
-  }
+  }, [loadNotifications])
 
-  const savePreferences = async (preferences: UserPreferences) => {
+  const savePreferences = useCallback(async (preferences: UserPreferences) => {
     if (!currentUser) {
       return
     }
@@ -833,15 +2258,15 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
         token,
         body: JSON.stringify({ preferences }),
       })
-      const normalized = normalizeUser(data.user, state.ui)
+      const normalized = normalizeUser(data.user, uiSnapshot.current)
       setCurrentUser(normalized)
       saveUser(normalized)
     } catch (error) {
       console.error(error)
     }
-  }
+  }, [currentUser])
 
-  const setTheme: Store['setTheme'] = (theme) => {
+  const setTheme = useCallback<Store['setTheme']>((theme) => {
     if (currentUser) {
       void savePreferences({ ...currentUser.preferences, theme })
       return
@@ -850,9 +2275,9 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
       ...prev,
       ui: { ...prev.ui, theme },
     }))
-  }
+  }, [currentUser, savePreferences])
 
-  const setMode: Store['setMode'] = (mode) => {
+  const setMode = useCallback<Store['setMode']>((mode) => {
     if (currentUser) {
       void savePreferences({ ...currentUser.preferences, mode })
       return
@@ -861,9 +2286,9 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
       ...prev,
       ui: { ...prev.ui, mode },
     }))
-  }
+  }, [currentUser, savePreferences])
 
-  const setFontScale: Store['setFontScale'] = (scale) => {
+  const setFontScale = useCallback<Store['setFontScale']>((scale) => {
     const nextScale = clampFontScale(scale)
     if (currentUser) {
       void savePreferences({ ...currentUser.preferences, fontScale: nextScale })
@@ -873,30 +2298,167 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
       ...prev,
       ui: { ...prev.ui, fontScale: nextScale },
     }))
-  }
+  }, [currentUser, savePreferences])
 
-  const setAdminOverride: Store['setAdminOverride'] = (enabled) => {
-    setAdminOverrideState(enabled)
-    saveAdminOverride(enabled)
-  }
+  const setKeySource = useCallback<Store['setKeySource']>((source) => {
+    keySourceRef.current = source
+    setKeySourceState(source)
+    saveKeySource(source)
+    const token = loadToken()
+    if (token) {
+      const limit = Math.min(
+        Math.max(state.testSummaries.length, TEST_PAGE_SIZE),
+        MAX_TEST_PAGE_SIZE,
+      )
+      refreshTests(token, limit).catch((error) => console.error(error))
+    }
+  }, [refreshTests, state.testSummaries.length])
 
-  const acknowledgeKeyUpdates: Store['acknowledgeKeyUpdates'] = async (testId) => {
-    if (!currentUser) {
-      return
+  const setTestFilters = useCallback<Store['setTestFilters']>(async (filters) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
     }
-    const test = state.tests.find((item) => item.id === testId)
-    if (!test) {
-      return
+
+    const current = testFiltersRef.current
+    const next = { ...current, ...filters }
+    if (next.q === current.q && next.subject === current.subject && next.sort === current.sort) {
+      return { ok: true }
     }
-    const latestKeyUpdate = test.questions.reduce<string | null>((latest, question) => {
-      if (!question.lastKeyUpdateTime) {
-        return latest
-      }
-      if (!latest || question.lastKeyUpdateTime > latest) {
-        return question.lastKeyUpdateTime
+    testFiltersRef.current = next
+    setTestFiltersState(next)
+    try {
+      await refreshTests(token)
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load tests.'
+      return { ok: false, message }
+    }
+  }, [refreshTests])
+
+  const loadMoreTests = useCallback<Store['loadMoreTests']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const request = testPageRequest.current
+      const data = await fetchTestPage(token, state.testSummaries.length, TEST_PAGE_SIZE)
+      if (request !== testPageRequest.current) {
+        return { ok: true }
       }
-      return latest
-    }, null)
+      setState((prev) => {
+        const known = new Set(prev.testSummaries.map((item) => item.id))
+        return {
+          ...prev,
+          testSummaries: [
+            ...prev.testSummaries,
+            ...data.tests.filter((item) => !known.has(item.id)),
+          ],
+          testsTotal: data.total,
+        }
+      })
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load more tests.'
+      return { ok: false, message }
+    }
+  }, [fetchTestPage, state.testSummaries.length])
+
+  const loadAnalyticsSummary = useCallback<Store['loadAnalyticsSummary']>(async () => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.', tests: [] }
+    }
+
+    try {
+      const data = await requestJson<{ tests: AnalyticsTest[] }>(
+        `/api/analytics/summary?keySource=${keySourceRef.current}`,
+        { token },
+      )
+      return { ok: true, tests: data.tests }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load analytics.'
+      return { ok: false, message, tests: [] }
+    }
+  }, [])
+
+  const loadScoreDistribution = useCallback<Store['loadScoreDistribution']>(async (testId) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      const data = await requestJson<{ distribution: ScoreDistribution }>(
+        `/api/tests/${testId}/distribution`,
+        { token },
+      )
+      return { ok: true, distribution: data.distribution }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load the score distribution.'
+      return { ok: false, message }
+    }
+  }, [])
+
+  const loadTest = useCallback<Store['loadTest']>(async (testId) => {
+    const token = loadToken()
+    if (!token) {
+      return { ok: false, message: 'Missing session token.' }
+    }
+
+    try {
+      await fetchTest(token, testId)
+      return { ok: true }
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.message
+          : error instanceof Error
+            ? error.message
+            : 'Unable to load test.'
+      return { ok: false, message }
+    }
+  }, [fetchTest])
+
+  const acknowledgeKeyUpdates = useCallback<Store['acknowledgeKeyUpdates']>(async (testId) => {
+    if (!currentUser) {
+      return
+    }
+    const test = state.tests[testId]
+    const summary = state.testSummaries.find((item) => item.id === testId)
+    const latestKeyUpdate = test
+      ? test.questions.reduce<string | null>((latest, question) => {
+          if (!question.lastKeyUpdateTime) {
+            return latest
+          }
+          if (!latest || question.lastKeyUpdateTime > latest) {
+            return question.lastKeyUpdateTime
+          }
+          return latest
+        }, null)
+      : summary?.analysis.latestKeyUpdate ?? null
     if (!latestKeyUpdate) {
       return
     }
@@ -909,36 +2471,141 @@ export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
       },
     }
     await savePreferences(updated)
-  }
+  }, [currentUser, savePreferences, state.testSummaries, state.tests])
 
-  const isAdmin = adminOverride || currentUser?.role === 'admin'
+  const isAdmin = currentUser?.role === 'admin'
   const fontScale = currentUser?.preferences.fontScale ?? state.ui.fontScale
 
-  const value = {
-    state,
-    currentUser,
-    isAdmin,
-    adminOverride,
-    fontScale,
-    setAdminOverride,
-    setFontScale,
-    isBootstrapped,
-    register,
-    login,
-    updateProfile,
-    updatePassword,
-    logout,
-    connectExternalAccount,
-    syncExternalAccount,
-    resyncAllTests,
-    resyncTest,
-    toggleQuestionBookmark,
-    updateAnswerKey,
-    updateMarkingScheme,
-    setTheme,
-    setMode,
-    acknowledgeKeyUpdates,
-  }
+  const value = useMemo<Store>(
+    () => ({
+      state,
+      currentUser,
+      isAdmin,
+      keySource,
+      setKeySource,
+      fontScale,
+      setFontScale,
+      isBootstrapped,
+      register,
+      login,
+      updateProfile,
+      updatePassword,
+      logout,
+      connectExternalAccount,
+      syncExternalAccount,
+      resyncAllTests,
+      importTest,
+      resyncTest,
+      testFilters,
+      setTestFilters,
+      loadMoreTests,
+      loadTest,
+      loadAnalyticsSummary,
+      loadScoreDistribution,
+      setKeyOverride,
+      setQuestionAnnotation,
+      updateAnswerKey,
+      loadKeyHistory,
+      loadKeyChallenges,
+      loadQuestionNote,
+      saveQuestionNote,
+      deleteQuestionNote,
+      searchNotes,
+      discardLocalNote,
+      loadMistakeJournal,
+      loadRevisionDeck,
+      loadReviewCard,
+      submitReview,
+      loadPracticeSessions,
+      createPracticeTest,
+      loadPracticeSession,
+      savePracticeProgress,
+      submitPracticeTest,
+      createTopic,
+      assignQuestionTopic,
+      loadTopicSuggestions,
+      reviewTopicSuggestion,
+      trainTopicModel,
+      loadDiscussion,
+      subscribeDiscussion,
+      postDiscussionMessage,
+      setDiscussionPostPinned,
+      deleteDiscussionPost,
+      loadNotifications,
+      markNotificationsRead,
+      fileKeyChallenge,
+      voteKeyChallenge,
+      resolveKeyChallenge,
+      updateMarkingScheme,
+      setTheme,
+      setMode,
+      acknowledgeKeyUpdates,
+    }),
+    [
+      acknowledgeKeyUpdates,
+      assignQuestionTopic,
+      connectExternalAccount,
+      createPracticeTest,
+      createTopic,
+      currentUser,
+      deleteDiscussionPost,
+      deleteQuestionNote,
+      discardLocalNote,
+      fileKeyChallenge,
+      fontScale,
+      importTest,
+      isAdmin,
+      isBootstrapped,
+      keySource,
+      loadAnalyticsSummary,
+      loadDiscussion,
+      loadKeyChallenges,
+      loadKeyHistory,
+      loadMistakeJournal,
+      loadMoreTests,
+      loadNotifications,
+      loadPracticeSession,
+      loadPracticeSessions,
+      loadQuestionNote,
+      loadReviewCard,
+      loadRevisionDeck,
+      loadScoreDistribution,
+      loadTest,
+      loadTopicSuggestions,
+      login,
+      logout,
+      markNotificationsRead,
+      postDiscussionMessage,
+      register,
+      resolveKeyChallenge,
+      resyncAllTests,
+      resyncTest,
+      reviewTopicSuggestion,
+      savePracticeProgress,
+      saveQuestionNote,
+      searchNotes,
+      setDiscussionPostPinned,
+      setFontScale,
+      setKeyOverride,
+      setKeySource,
+      setMode,
+      setQuestionAnnotation,
+      setTestFilters,
+      setTheme,
+      state,
+      submitPracticeTest,
+      submitReview,
+      subscribeDiscussion,
+      syncExternalAccount,
+      testFilters,
+      trainTopicModel,
+      updateAnswerKey,
+      updateMarkingScheme,
+      updatePassword,
+      updateProfile,
+      voteKeyChallenge,
+    ],
+  )
 
   return <StoreContext.Provider value={value}>{children}</StoreContext.Provider>
 }
@@ -1,3 +1,10 @@
+import type { AttemptAnalysis } from '@shared/analysis'
+import type { MistakeTag, QuestionAnnotation } from '@shared/mistakes'
+import type { AnswerValue } from '@shared/scoring'
+
+export type { MistakeTag, QuestionAnnotation } from '@shared/mistakes'
+export type { AnswerValue, BonusKey, NumericRange } from '@shared/scoring'
+
 export type UserRole = 'user' | 'admin'
 
 export type ThemeName = 'ember' | 'ocean' | 'forest' | 'slate'
@@ -22,10 +29,15 @@ export type User = {
 export type ExternalAccountStatus = 'connected' | 'error' | 'disconnected'
 export type ExternalAccountSyncStatus = 'idle' | 'syncing' | 'error'
 
+export type ExternalProvider = {
+  id: string
+  label: string
+}
+
 export type ExternalAccount = {
   id: string
   userId: string
-  provider: 'test.z7i.in'
+  provider: string
   username: string
   status: ExternalAccountStatus
   syncStatus: ExternalAccountSyncStatus
@@ -35,34 +47,57 @@ export type ExternalAccount = {
   syncFinishedAt: string | null
   lastSyncAt: string | null
   statusMessage?: string
+  activeJobId: string | null
 }
 
-export type Subject = 'PHYSICS' | 'CHEMISTRY' | 'MATHEMATICS'
+export type SyncJobKind = 'sync' | 'resync'
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
 
-export type QuestionType = 'MCQ' | 'MAQ' | 'VMAQ' | 'NAT'
+export type SyncJobResult = {
+  count: number
+  attempts: Array<{ id: string; title: string }>
+  warnings: string[]
+}
+
+export type SyncJob = {
+  id: string
+  accountId: string
+  kind: SyncJobKind
+  status: SyncJobStatus
+  total: number
+  completed: number
+  result: SyncJobResult | null
+  error: string | null
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+}
 
-export type NumericRange = {
-  min: number
-  max: number
+export type SyncedReport = {
+  attemptId: string
+  externalExamId: string
+  title: string
 }
 
-export type BonusKey = {
-  bonus: true
+export type SyncActivity = {
+  jobId: string
+  currentTitle: string | null
+  warnings: string[]
+  results: SyncedReport[]
 }
 
-export type AnswerValue =
-  | string
-  | number
-  | NumericRange
-  | string[]
-  | BonusKey
-  | null
+export type Subject = 'PHYSICS' | 'CHEMISTRY' | 'MATHEMATICS'
+
+export type QuestionType = 'MCQ' | 'MAQ' | 'VMAQ' | 'NAT'
+
+export type KeySource = 'official' | 'revised' | 'personal'
 
 export type PeerAnswerStats = {
   total: number
   unattempted: number
   correct: number
   incorrect: number
+  partial: number
   options: Record<string, number>
 }
 
@@ -81,13 +116,43 @@ export type QuestionRecord = {
   correctMarking: number
   incorrectMarking: number
   unattemptedMarking: number
+  partialMarking: number
+  partialPolicy: string
   questionNumber: number
   lastKeyUpdateTime: string | null
+  topicId: string | null
+}
+
+export type Topic = {
+  id: string
+  subject: Subject
+  name: string
+  questionCount: number
+}
+
+export type TopicModelInfo = {
+  trainedAt: string
+  documentCount: number
+  topicCount: number
+}
+
+export type TopicSuggestion = {
+  id: string
+  questionId: string
+  topicId: string
+  topicName: string
+  confidence: number
+  subject: Subject
+  qtype: QuestionType
+  questionNumber: number
+  questionContent: string
+  examTitle: string
 }
 
 export type TestRecord = {
   id: string
   userId: string
+  provider: string
   externalExamId?: string
   title: string
   examDate: string
@@ -96,13 +161,235 @@ export type TestRecord = {
   timings: Record<string, number>
   peerTimings?: Record<string, number>
   peerAnswerStats?: Record<string, PeerAnswerStats>
-  bookmarks: Record<string, boolean>
+  annotations: Record<string, QuestionAnnotation>
+  keyOverrides: Record<string, AnswerValue>
   questions: QuestionRecord[]
 }
 
+export type TestAnalysisSummary = AttemptAnalysis<QuestionRecord, Topic>
+
+// One row of the paginated test list: everything but the questions.
+export type TestSummary = Pick<
+  TestRecord,
+  'id' | 'userId' | 'provider' | 'externalExamId' | 'title' | 'examDate' | 'rank'
+> & {
+  analysis: TestAnalysisSummary
+}
+
+export type TestListSort =
+  | 'date-desc'
+  | 'date-asc'
+  | 'score-desc'
+  | 'score-asc'
+  | 'rank-asc'
+  | 'rank-desc'
+
+// Applied by the API, so paging walks the filtered list. An empty subject
+// means every subject.
+export type TestListFilters = {
+  q: string
+  subject: string
+  sort: TestListSort
+}
+
+export type AnalyticsTest = Pick<
+  TestSummary,
+  'id' | 'title' | 'examDate' | 'rank' | 'analysis'
+>
+
+// Where an attempt sits among every attempt on the same exam, scored with
+// the revised keys.
+export type ScoreDistribution = {
+  attemptCount: number
+  score: number
+  scoreOriginal: number
+  maxMarks: number
+  percentile: number | null
+  subjects: Array<{
+    subject: Subject
+    score: number
+    maxMarks: number
+    percentile: number | null
+  }>
+  histogram: Array<{ from: number; to: number; count: number; mine: boolean }>
+  scrapedRank: number | null
+  estimatedRank: number
+}
+
+export type KeyUpdateEvent = {
+  id: string
+  questionId: string
+  previousKey: AnswerValue
+  newKey: AnswerValue
+  actorName: string | null
+  reason: string | null
+  createdAt: string
+}
+
+export type KeyChallengeStatus = 'open' | 'accepted' | 'rejected'
+
+export type KeyChallenge = {
+  id: string
+  questionId: string
+  proposedKey: AnswerValue
+  justification: string
+  status: KeyChallengeStatus
+  authorName: string
+  votes: number
+  hasVoted: boolean
+  resolvedByName: string | null
+  resolutionNote: string | null
+  resolvedAt: string | null
+  createdAt: string
+}
+
+export type QuestionNote = {
+  id: string
+  questionId: string
+  body: string
+  updatedAt: string
+}
+
+// A note an older version kept in localStorage that could not be moved to the
+// account, either because it is too long or because merging it into the
+// question's existing note would be.
+export type LocalNote = {
+  testId: string
+  questionId: string
+  body: string
+  reason: 'too-long' | 'conflict'
+}
+
+export type DiscussionPost = {
+  id: string
+  questionId: string
+  parentId: string | null
+  authorId: string
+  authorName: string
+  body: string
+  pinned: boolean
+  deleted: boolean
+  createdAt: string
+}
+
+export type MistakeJournalEntry = {
+  testId: string
+  testTitle: string
+  examDate: string
+  questionId: string
+  questionNumber: number
+  subject: Subject
+  qtype: string
+  tag: MistakeTag | null
+  reason: string
+  updatedAt: string | null
+}
+
+export type ReviewStatus = 'correct' | 'partial' | 'incorrect' | 'unattempted'
+
+export type ReviewCard = {
+  id: string
+  testId: string
+  testTitle: string
+  questionId: string
+  questionNumber: number
+  subject: Subject
+  qtype: string
+  easeFactor: number
+  interval: number
+  repetitions: number
+  dueAt: string
+  reviewCount: number
+  correctCount: number
+  lastStatus: ReviewStatus | null
+  lastReviewedAt: string | null
+}
+
+export type ReviewQuestion = {
+  questionContent: string
+  optionContentA: string | null
+  optionContentB: string | null
+  optionContentC: string | null
+  optionContentD: string | null
+}
+
+export type ReviewResult = {
+  status: ReviewStatus
+  mark: number
+  key: AnswerValue
+}
+
+export type PracticeSource = 'all' | 'mine-wrong' | 'peers-wrong'
+
+export type PracticeQuestion = {
+  id: string
+  questionNumber: number
+  subject: Subject
+  qtype: string
+  questionContent: string
+  optionContentA: string | null
+  optionContentB: string | null
+  optionContentC: string | null
+  optionContentD: string | null
+}
+
+export type PracticeSessionSummary = {
+  id: string
+  testId: string | null
+  title: string
+  source: PracticeSource
+  durationSec: number
+  questionCount: number
+  startedAt: string
+  endsAt: string
+  submittedAt: string | null
+}
+
+export type PracticeSession = PracticeSessionSummary & {
+  answers: Record<string, AnswerValue>
+  timings: Record<string, number>
+  questions: PracticeQuestion[]
+}
+
+export type NoteSearchResult = {
+  id: string
+  testId: string
+  testTitle: string
+  questionId: string
+  questionNumber: number
+  subject: Subject
+  body: string
+  updatedAt: string
+}
+
+export type NotificationKind = 'key-update' | 'marking' | 'rank'
+
+export type AppNotification = {
+  id: string
+  testId: string | null
+  kind: NotificationKind
+  title: string
+  body: string
+  scoreDelta: number | null
+  read: boolean
+  createdAt: string
+}
+
 export type AppState = {
+  externalProviders: ExternalProvider[]
   externalAccounts: ExternalAccount[]
-  tests: TestRecord[]
+  syncActivity: Record<string, SyncActivity>
+  tests: Record<string, TestRecord>
+  testSummaries: TestSummary[]
+  testsTotal: number
+  keyHistory: Record<string, KeyUpdateEvent[]>
+  keyChallenges: Record<string, KeyChallenge[]>
+  notifications: AppNotification[]
+  unreadNotifications: number
+  questionNotes: Record<string, QuestionNote | null>
+  localNotes: LocalNote[]
+  discussions: Record<string, DiscussionPost[]>
+  topics: Topic[]
   ui: {
     theme: ThemeName
     mode: ColorMode
@@ -12,3 +12,13 @@ const QUESTION_TYPE_LABELS: Record<string, string> = {
 
 export const formatQuestionType = (value: string) =>
   QUESTION_TYPE_LABELS[value] ?? value
+
+const PARTIAL_POLICY_LABELS: Record<string, string> = {
+  'per-option': 'Per correct option',
+  proportional: 'Proportional',
+  'all-or-nothing': 'All or nothing',
+  'penalty-per-wrong': 'Penalty per wrong option',
+}
+
+export const formatPartialPolicy = (value: string) =>
+  PARTIAL_POLICY_LABELS[value] ?? value
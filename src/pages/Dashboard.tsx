@@ -1,7 +1,6 @@
-import { useMemo } from 'react'
 import { Link } from 'react-router-dom'
 import { useAppStore } from '@/lib/store'
-import { buildAnalysis } from '@/lib/analysis'
+import { ProgressBar } from '@/components/ProgressBar'
 import { TestSummaryCard } from '@/components/TestSummaryCard'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -10,27 +9,21 @@ import { Card, CardContent } from '@/components/ui/card'
 export const Dashboard = () => {
   const { currentUser, state, syncExternalAccount, acknowledgeKeyUpdates } =
     useAppStore()
-  const sortedTests = useMemo(
-    () =>
-      [...state.tests].sort(
-        (a, b) => new Date(b.examDate).getTime() - new Date(a.examDate).getTime(),
-      ),
-    [state.tests],
-  )
-
-  const analysisMap = useMemo(() => {
-    const map = new Map<string, ReturnType<typeof buildAnalysis>>()
-    state.tests.forEach((test) => {
-      map.set(test.id, buildAnalysis(test))
-    })
-    return map
-  }, [state.tests])
+  const sortedTests = state.testSummaries
 
   const latestTest = sortedTests[0]
-  const latestAnalysis = latestTest ? analysisMap.get(latestTest.id) : null
-  const account = state.externalAccounts.find(
+  const latestAnalysis = latestTest?.analysis ?? null
+  const accounts = state.externalAccounts.filter(
     (item) => item.userId === currentUser?.id,
   )
+  const account =
+    accounts.find((item) => item.syncStatus === 'syncing') ?? accounts[0]
+  const isSyncing = account?.syncStatus === 'syncing'
+  const syncActivity = account ? state.syncActivity[account.id] : undefined
+  const syncPercent =
+    account && account.syncTotal > 0
+      ? (account.syncCompleted / account.syncTotal) * 100
+      : 0
   const acknowledgedAt = latestTest
     ? currentUser?.preferences.acknowledgedKeyUpdates[latestTest.id]
     : null
@@ -54,7 +47,7 @@ export const Dashboard = () => {
             {account ? (
               <Button
                 variant="outline"
-                onClick={syncExternalAccount}
+                onClick={() => void syncExternalAccount()}
                 disabled={account.syncStatus === 'syncing'}
               >
                 {account.syncStatus === 'syncing' ? 'Syncing...' : 'Sync latest'}
@@ -67,6 +60,38 @@ export const Dashboard = () => {
           </div>
         </div>
 
+        {account && (isSyncing || syncActivity) ? (
+          <Card className="app-panel">
+            <CardContent className="space-y-3 p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                  Sync activity
+                </p>
+                <span className="text-xs text-muted-foreground">
+                  {account.syncCompleted}/{account.syncTotal || '?'} tests
+                </span>
+              </div>
+              <ProgressBar value={syncPercent} />
+              <p className="text-sm text-foreground">
+                {isSyncing
+                  ? syncActivity?.currentTitle
+                    ? `Scraping ${syncActivity.currentTitle}`
+                    : 'Waiting for the sync worker...'
+                  : account.syncStatus === 'error'
+                    ? account.statusMessage ?? 'Sync failed.'
+                    : `Last sync saved ${syncActivity?.results.length ?? 0} tests.`}
+              </p>
+              {syncActivity && syncActivity.warnings.length > 0 ? (
+                <div className="max-h-40 space-y-1 overflow-y-auto rounded-lg border border-border bg-background p-3 text-xs text-muted-foreground">
+                  {syncActivity.warnings.map((warning, index) => (
+                    <p key={`${index}-${warning}`}>{warning}</p>
+                  ))}
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+        ) : null}
+
         <div className="space-y-4">
           <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
             Latest test overview
@@ -100,7 +125,7 @@ export const Dashboard = () => {
                   No tests found yet. Connect your exam account and start syncing.
                 </p>
                 {account ? (
-                  <Button onClick={syncExternalAccount} disabled={account.syncStatus === 'syncing'}>
+                  <Button onClick={() => void syncExternalAccount()} disabled={account.syncStatus === 'syncing'}>
                     {account.syncStatus === 'syncing' ? 'Syncing...' : 'Sync latest'}
                   </Button>
                 ) : (
@@ -125,12 +150,11 @@ export const Dashboard = () => {
           </div>
           <div className="space-y-4">
             {sortedTests.slice(0, 5).map((test) => {
-              const summary = analysisMap.get(test.id)
               return (
                 <TestSummaryCard
                   key={test.id}
                   test={test}
-                  analysis={summary}
+                  analysis={test.analysis}
                   actions={
                     <Button asChild variant="outline" size="sm">
                       <Link to={`/app/tests/${test.id}`}>Open review</Link>
@@ -0,0 +1,210 @@
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+type ImportFormat = 'json' | 'csv'
+
+const csvExample = `number,subject,type,correct_answer,answer,time_spent_sec
+1,PHYSICS,MCQ,B,B,95
+2,CHEMISTRY,MAQ,"A,C",A,140
+3,MATHEMATICS,NAT,2.5 to 2.6,,0`
+
+const jsonExample = `{
+  "title": "Paper mock 3",
+  "examDate": "2026-01-18",
+  "questions": [
+    { "number": 1, "subject": "PHYSICS", "type": "MCQ", "correctAnswer": "B", "answer": "B", "timeSpentSec": 95 },
+    { "number": 2, "subject": "CHEMISTRY", "type": "MAQ", "correctAnswer": ["A", "C"], "answer": ["A"] }
+  ]
+}`
+
+const detectFormat = (fileName: string, content: string): ImportFormat =>
+  fileName.toLowerCase().endsWith('.csv') || !content.trim().startsWith('{')
+    ? 'csv'
+    : 'json'
+
+export const Import = () => {
+  const { importTest } = useAppStore()
+  const [format, setFormat] = useState<ImportFormat>('csv')
+  const [content, setContent] = useState('')
+  const [title, setTitle] = useState('')
+  const [examDate, setExamDate] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [issues, setIssues] = useState<string[]>([])
+  const [importedId, setImportedId] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) {
+      return
+    }
+    const text = await file.text()
+    setContent(text)
+    setFormat(detectFormat(file.name, text))
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setMessage(null)
+    setIssues([])
+    setImportedId(null)
+    setIsImporting(true)
+    try {
+      const result = await importTest({
+        format,
+        content,
+        title: title.trim() || undefined,
+        examDate: examDate || undefined,
+      })
+      if (result.ok) {
+        setMessage('Test imported.')
+        setImportedId(result.testId ?? null)
+      } else {
+        setMessage(result.message ?? 'Unable to import test.')
+        setIssues(result.issues ?? [])
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+            Manual import
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold">Import a result</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Add paper mocks or tests from portals we cannot sync. Upload a CSV or JSON
+            file with one row per question.
+          </p>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+          <Card className="app-panel">
+            <CardContent className="space-y-4 p-6">
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="import-title">Test title</Label>
+                    <Input
+                      id="import-title"
+                      value={title}
+                      placeholder={format === 'json' ? 'Taken from the file' : 'Paper mock 3'}
+                      onChange={(event) => setTitle(event.target.value)}
+                      disabled={isImporting}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="import-date">Exam date</Label>
+                    <Input
+                      id="import-date"
+                      type="date"
+                      value={examDate}
+                      onChange={(event) => setExamDate(event.target.value)}
+                      disabled={isImporting}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import-file">File</Label>
+                  <Input
+                    id="import-file"
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(event) => void handleFile(event)}
+                    disabled={isImporting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="import-content">Contents</Label>
+                    <div className="flex gap-2">
+                      {(['csv', 'json'] as const).map((item) => (
+                        <Button
+                          key={item}
+                          type="button"
+                          size="sm"
+                          variant={format === item ? 'secondary' : 'ghost'}
+                          onClick={() => setFormat(item)}
+                          disabled={isImporting}
+                        >
+                          {item.toUpperCase()}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <Textarea
+                    id="import-content"
+                    className="min-h-[240px] font-mono text-xs"
+                    value={content}
+                    placeholder={format === 'csv' ? csvExample : jsonExample}
+                    onChange={(event) => setContent(event.target.value)}
+                    disabled={isImporting}
+                  />
+                </div>
+                <Button type="submit" disabled={isImporting || !content.trim()}>
+                  {isImporting ? 'Importing...' : 'Import test'}
+                </Button>
+              </form>
+              {message ? (
+                <div className="space-y-2 rounded-lg border border-border bg-background p-3 text-xs text-muted-foreground">
+                  <p>{message}</p>
+                  {issues.length > 1 ? (
+                    <ul className="max-h-48 list-disc space-y-1 overflow-y-auto pl-4">
+                      {issues.map((issue) => (
+                        <li key={issue}>{issue}</li>
+                      ))}
+                    </ul>
+                  ) : null}
+                  {importedId ? (
+                    <Button asChild size="sm" variant="outline">
+                      <Link to={`/app/tests/${importedId}`}>Open review</Link>
+                    </Button>
+                  ) : null}
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          <Card className="app-panel">
+            <CardContent className="space-y-4 p-6 text-sm text-muted-foreground">
+              <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                File format
+              </p>
+              <p>
+                Required columns: <code>number</code>, <code>subject</code> (PHYSICS,
+                CHEMISTRY or MATHEMATICS), <code>type</code> (MCQ, MAQ, VMAQ or NAT) and{' '}
+                <code>correct_answer</code>. Leave <code>answer</code> empty for
+                unattempted questions.
+              </p>
+              <p>
+                Optional columns: <code>time_spent_sec</code>, <code>content</code>,{' '}
+                <code>option_a</code> to <code>option_d</code>, and{' '}
+                <code>correct_marking</code>, <code>incorrect_marking</code>,{' '}
+                <code>unattempted_marking</code>, <code>partial_marking</code>.
+              </p>
+              <p>
+                MCQ answers are a single letter, MAQ and VMAQ answers list letters like
+                "A,C", and NAT answers are a number or a range like "2.5 to 2.6". JSON
+                files use the same fields in camelCase inside a <code>questions</code>{' '}
+                array, with <code>options</code> and <code>marking</code> objects.
+              </p>
+              <pre className="overflow-x-auto rounded-lg border border-border bg-background p-3 text-xs">
+                {format === 'csv' ? csvExample : jsonExample}
+              </pre>
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { mistakeTagLabels, mistakeTags } from '@shared/mistakes'
+import { useAppStore } from '@/lib/store'
+import { buildDisplayQuestions, subjectDisplayOrder } from '@/lib/questionDisplay'
+import type { MistakeJournalEntry, MistakeTag } from '@/lib/types'
+import { SegmentedProgressBar } from '@/components/SegmentedProgressBar'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn, formatQuestionType } from '@/lib/utils'
+
+const ALL = 'all'
+const UNTAGGED = 'untagged'
+
+type TagBucket = MistakeTag | typeof UNTAGGED
+
+const tagBuckets: TagBucket[] = [...mistakeTags, UNTAGGED]
+
+const bucketLabels: Record<TagBucket, string> = {
+  ...mistakeTagLabels,
+  [UNTAGGED]: 'Untagged',
+}
+
+const bucketColors: Record<TagBucket, string> = {
+  conceptual: 'bg-rose-500',
+  silly: 'bg-amber-400',
+  misread: 'bg-sky-500',
+  'time-pressure': 'bg-violet-500',
+  guess: 'bg-emerald-500',
+  [UNTAGGED]: 'bg-muted-foreground/40',
+}
+
+const bucketOf = (entry: MistakeJournalEntry): TagBucket => entry.tag ?? UNTAGGED
+
+const countBuckets = (entries: MistakeJournalEntry[]) => {
+  const counts = Object.fromEntries(tagBuckets.map((bucket) => [bucket, 0])) as Record<
+    TagBucket,
+    number
+  >
+  entries.forEach((entry) => {
+    counts[bucketOf(entry)] += 1
+  })
+  return counts
+}
+
+export const MistakeJournal = () => {
+  const { state, loadMistakeJournal } = useAppStore()
+  const [entries, setEntries] = useState<MistakeJournalEntry[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [subjectFilter, setSubjectFilter] = useState(ALL)
+  const [qtypeFilter, setQtypeFilter] = useState(ALL)
+
+  useEffect(() => {
+    let cancelled = false
+    void loadMistakeJournal().then((outcome) => {
+      if (cancelled) {
+        return
+      }
+      setEntries(outcome.entries)
+      setMessage(outcome.ok ? null : outcome.message ?? 'Unable to load the mistake journal.')
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [loadMistakeJournal])
+
+  const displayNumbers = useMemo(() => {
+    const map = new Map<string, number>()
+    Object.values(state.tests).forEach((test) => {
+      buildDisplayQuestions(test.questions).forEach(({ question, displayNumber }) => {
+        map.set(question.id, displayNumber)
+      })
+    })
+    return map
+  }, [state.tests])
+
+  const subjects = useMemo(
+    () =>
+      Array.from(new Set(entries.map((entry) => entry.subject))).sort(
+        (a, b) => subjectDisplayOrder.indexOf(a) - subjectDisplayOrder.indexOf(b),
+      ),
+    [entries],
+  )
+  const qtypes = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.qtype))).sort(),
+    [entries],
+  )
+
+  const filteredEntries = useMemo(
+    () =>
+      entries.filter(
+        (entry) =>
+          (subjectFilter === ALL || entry.subject === subjectFilter) &&
+          (qtypeFilter === ALL || entry.qtype === qtypeFilter),
+      ),
+    [entries, subjectFilter, qtypeFilter],
+  )
+
+  const totals = useMemo(() => countBuckets(filteredEntries), [filteredEntries])
+
+  const timeline = useMemo(() => {
+    const byTest = new Map<
+      string,
+      { testId: string; title: string; examDate: string; entries: MistakeJournalEntry[] }
+    >()
+    filteredEntries.forEach((entry) => {
+      const current = byTest.get(entry.testId) ?? {
+        testId: entry.testId,
+        title: entry.testTitle,
+        examDate: entry.examDate,
+        entries: [],
+      }
+      current.entries.push(entry)
+      byTest.set(entry.testId, current)
+    })
+    return Array.from(byTest.values())
+      .sort((a, b) => new Date(a.examDate).getTime() - new Date(b.examDate).getTime())
+      .map((item) => ({ ...item, counts: countBuckets(item.entries) }))
+  }, [filteredEntries])
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+              Mistake journal
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold">Why questions went wrong</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Tag starred questions from the question view to see your patterns here.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Subject" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All subjects</SelectItem>
+                {subjects.map((subject) => (
+                  <SelectItem key={subject} value={subject}>
+                    {subject}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={qtypeFilter} onValueChange={setQtypeFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Question type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All question types</SelectItem>
+                {qtypes.map((qtype) => (
+                  <SelectItem key={qtype} value={qtype}>
+                    {formatQuestionType(qtype)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+          {tagBuckets.map((bucket) => (
+            <Card key={bucket} className="app-panel">
+              <CardContent className="space-y-1 p-4">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className={cn('h-2 w-2 rounded-full', bucketColors[bucket])} />
+                  {bucketLabels[bucket]}
+                </div>
+                <p className="text-2xl font-semibold">{totals[bucket]}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {message ? (
+          <p className="text-sm text-muted-foreground">{message}</p>
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading
+              ? 'Loading...'
+              : entries.length === 0
+                ? 'Your journal is empty.'
+                : 'No entries match these filters.'}
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                Over time
+              </p>
+              {timeline.map((item) => (
+                <div key={item.testId} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <Link
+                      to={`/app/tests/${item.testId}`}
+                      className="font-semibold text-foreground hover:underline"
+                    >
+                      {item.title}
+                    </Link>
+                    <span className="text-muted-foreground">
+                      {item.entries.length} tagged -{' '}
+                      {new Date(item.examDate).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <SegmentedProgressBar
+                    segments={tagBuckets.map((bucket) => ({
+                      value: item.counts[bucket],
+                      className: bucketColors[bucket],
+                    }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-3">
+              {filteredEntries.map((entry) => (
+                <Card key={`${entry.testId}-${entry.questionId}`} className="app-panel">
+                  <CardContent className="space-y-2 p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <Link
+                        to={`/app/questions/${entry.testId}/${entry.questionId}`}
+                        className="font-semibold text-foreground hover:underline"
+                      >
+                        {entry.testTitle} - Q
+                        {displayNumbers.get(entry.questionId) ?? entry.questionNumber}
+                      </Link>
+                      <div className="flex items-center gap-2">
+                        <span>
+                          {entry.subject} - {formatQuestionType(entry.qtype)}
+                        </span>
+                        <Badge variant="outline">{bucketLabels[bucketOf(entry)]}</Badge>
+                      </div>
+                    </div>
+                    {entry.reason ? (
+                      <p className="whitespace-pre-wrap text-sm text-foreground/90">
+                        {entry.reason}
+                      </p>
+                    ) : null}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  )
+}
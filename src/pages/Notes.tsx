@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useAppStore } from '@/lib/store'
+import { buildDisplayQuestions } from '@/lib/questionDisplay'
+import type { LocalNote, NoteSearchResult } from '@/lib/types'
+import { MarkdownNote } from '@/components/MarkdownNote'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+const SEARCH_DELAY_MS = 300
+
+const localNoteReasons: Record<LocalNote['reason'], string> = {
+  'too-long': 'Too long to save to your account.',
+  conflict: 'This question already has a note, and the two are too long to merge.',
+}
+
+export const Notes = () => {
+  const { state, searchNotes, discardLocalNote } = useAppStore()
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<NoteSearchResult[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSearching, setIsSearching] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      const outcome = await searchNotes(query)
+      if (cancelled) {
+        return
+      }
+      setResults(outcome.results)
+      setMessage(outcome.ok ? null : outcome.message ?? 'Unable to search notes.')
+      setIsSearching(false)
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, searchNotes])
+
+  const displayNumbers = useMemo(() => {
+    const map = new Map<string, number>()
+    Object.values(state.tests).forEach((test) => {
+      buildDisplayQuestions(test.questions).forEach(({ question, displayNumber }) => {
+        map.set(question.id, displayNumber)
+      })
+    })
+    return map
+  }, [state.tests])
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+            Notes
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold">Your question notes</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Search everything you have written across all of your tests.
+          </p>
+        </div>
+
+        <Input
+          value={query}
+          placeholder="Search notes"
+          onChange={(event) => setQuery(event.target.value)}
+        />
+
+        {message ? (
+          <p className="text-sm text-muted-foreground">{message}</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isSearching
+              ? 'Searching...'
+              : query.trim()
+                ? 'No notes match that search.'
+                : 'You have not written any notes yet.'}
+          </p>
+        ) : (
+          <div className="grid gap-3">
+            {results.map((result) => (
+              <Card key={result.id} className="app-panel">
+                <CardContent className="space-y-3 p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <Link
+                      to={`/app/questions/${result.testId}/${result.questionId}`}
+                      className="font-semibold text-foreground hover:underline"
+                    >
+                      {result.testTitle} - Q
+                      {displayNumbers.get(result.questionId) ?? result.questionNumber}
+                    </Link>
+                    <span>
+                      {result.subject} - updated{' '}
+                      {new Date(result.updatedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <MarkdownNote body={result.body} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {state.localNotes.length > 0 ? (
+        <section className="app-surface space-y-4 p-8">
+          <div>
+            <h2 className="text-xl font-semibold">Notes kept in this browser</h2>
+            <p className="mt-2 text-sm text-muted-foreground">
+              An older version saved these notes in this browser, and they could not be
+              moved to your account. Copy what you need into the question's note, then
+              discard the local copy.
+            </p>
+          </div>
+          <div className="grid gap-3">
+            {state.localNotes.map((note) => (
+              <Card key={note.questionId} className="app-panel">
+                <CardContent className="space-y-3 p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <Link
+                      to={`/app/questions/${note.testId}/${note.questionId}`}
+                      className="font-semibold text-foreground hover:underline"
+                    >
+                      {displayNumbers.has(note.questionId)
+                        ? `Q${displayNumbers.get(note.questionId)}`
+                        : 'Open question'}
+                    </Link>
+                    <span>{localNoteReasons[note.reason]}</span>
+                  </div>
+                  <MarkdownNote body={note.body} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => discardLocalNote(note.questionId)}
+                  >
+                    Discard local copy
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
+      ) : null}
+    </div>
+  )
+}
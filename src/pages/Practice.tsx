@@ -0,0 +1,207 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { useAppStore } from '@/lib/store'
+import { subjectDisplayOrder } from '@/lib/questionDisplay'
+import type { PracticeSessionSummary, PracticeSource, Subject } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatQuestionType } from '@/lib/utils'
+
+const questionTypes = ['MCQ', 'MAQ', 'VMAQ', 'NAT'] as const
+
+const practiceSourceLabels: Record<PracticeSource, string> = {
+  all: 'Any question',
+  'mine-wrong': 'Questions I got wrong',
+  'peers-wrong': 'Questions most peers got wrong',
+}
+
+const toggle = <T,>(items: T[], item: T) =>
+  items.includes(item) ? items.filter((value) => value !== item) : [...items, item]
+
+export const Practice = () => {
+  const { loadPracticeSessions, createPracticeTest } = useAppStore()
+  const navigate = useNavigate()
+  const [sessions, setSessions] = useState<PracticeSessionSummary[]>([])
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [qtypes, setQtypes] = useState<string[]>([])
+  const [count, setCount] = useState('20')
+  const [duration, setDuration] = useState('30')
+  const [source, setSource] = useState<PracticeSource>('all')
+  const [message, setMessage] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  useEffect(() => {
+    void loadPracticeSessions().then((outcome) => {
+      setSessions(outcome.sessions)
+      if (!outcome.ok) {
+        setMessage(outcome.message ?? 'Unable to load practice tests.')
+      }
+    })
+  }, [loadPracticeSessions])
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setMessage(null)
+    setIsCreating(true)
+    const outcome = await createPracticeTest({
+      subjects,
+      qtypes,
+      count: Number(count),
+      durationMinutes: Number(duration),
+      source,
+    })
+    setIsCreating(false)
+    if (!outcome.ok || !outcome.session) {
+      setMessage(outcome.message ?? 'Unable to create a practice test.')
+      return
+    }
+    navigate(`/app/practice/${outcome.session.id}`)
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+            Practice
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold">Build a custom test</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Pick questions from every synced exam. Finished tests show up with your other
+            tests and get the same analysis.
+          </p>
+        </div>
+
+        <form className="space-y-5" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label>Subjects</Label>
+            <div className="flex flex-wrap gap-2">
+              {subjectDisplayOrder.map((subject) => (
+                <Button
+                  key={subject}
+                  type="button"
+                  size="sm"
+                  variant={subjects.includes(subject) ? 'secondary' : 'outline'}
+                  onClick={() => setSubjects((prev) => toggle(prev, subject))}
+                >
+                  {subject}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Question types</Label>
+            <div className="flex flex-wrap gap-2">
+              {questionTypes.map((qtype) => (
+                <Button
+                  key={qtype}
+                  type="button"
+                  size="sm"
+                  variant={qtypes.includes(qtype) ? 'secondary' : 'outline'}
+                  onClick={() => setQtypes((prev) => toggle(prev, qtype))}
+                >
+                  {formatQuestionType(qtype)}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave subjects or types empty to include all of them.
+            </p>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="practice-count">Questions</Label>
+              <Input
+                id="practice-count"
+                type="number"
+                min={1}
+                max={90}
+                value={count}
+                onChange={(event) => setCount(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="practice-duration">Minutes</Label>
+              <Input
+                id="practice-duration"
+                type="number"
+                min={1}
+                max={300}
+                value={duration}
+                onChange={(event) => setDuration(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select
+                value={source}
+                onValueChange={(value) => setSource(value as PracticeSource)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(practiceSourceLabels) as PracticeSource[]).map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {practiceSourceLabels[item]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm text-muted-foreground">{message}</span>
+            <Button type="submit" disabled={isCreating}>
+              {isCreating ? 'Building...' : 'Start test'}
+            </Button>
+          </div>
+        </form>
+      </section>
+
+      <section className="app-surface space-y-4 p-8">
+        <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+          Your practice tests
+        </p>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No practice tests yet.</p>
+        ) : (
+          <div className="grid gap-3">
+            {sessions.map((session) => (
+              <Card key={session.id} className="app-panel">
+                <CardContent className="flex flex-wrap items-center justify-between gap-3 p-4 text-sm">
+                  <div className="space-y-1">
+                    <p className="font-semibold">{session.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {session.questionCount} questions -{' '}
+                      {Math.round(session.durationSec / 60)} min -{' '}
+                      {practiceSourceLabels[session.source]}
+                    </p>
+                  </div>
+                  {session.testId ? (
+                    <Button asChild size="sm" variant="outline">
+                      <Link to={`/app/tests/${session.testId}`}>View analysis</Link>
+                    </Button>
+                  ) : (
+                    <Button asChild size="sm">
+                      <Link to={`/app/practice/${session.id}`}>Resume</Link>
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,364 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { isMultiSelectType, isUnattemptedAnswer, toOptionArray } from '@shared/scoring'
+import { useAppStore } from '@/lib/store'
+import { buildDisplayQuestions } from '@/lib/questionDisplay'
+import type { PracticeSession } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { cn, formatQuestionType } from '@/lib/utils'
+
+const optionLabels = ['A', 'B', 'C', 'D'] as const
+
+const formatClock = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`
+}
+
+export const PracticeExam = () => {
+  const { sessionId } = useParams()
+  const navigate = useNavigate()
+  const {
+    state,
+    currentUser,
+    loadPracticeSession,
+    savePracticeProgress,
+    submitPracticeTest,
+  } = useAppStore()
+  const mode = currentUser?.preferences.mode ?? state.ui.mode
+  const [session, setSession] = useState<PracticeSession | null>(null)
+  const [answers, setAnswers] = useState<Record<string, unknown>>({})
+  const [timings, setTimings] = useState<Record<string, number>>({})
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const enteredAt = useRef(0)
+  const autoSubmitted = useRef(false)
+
+  useEffect(() => {
+    if (!sessionId) {
+      return
+    }
+    void loadPracticeSession(sessionId).then((outcome) => {
+      if (!outcome.ok || !outcome.session) {
+        setMessage(outcome.message ?? 'Unable to load this practice test.')
+        return
+      }
+      setSession(outcome.session)
+      setAnswers(outcome.session.answers)
+      setTimings(outcome.session.timings)
+      setCurrentIndex(0)
+      setNow(Date.now())
+      enteredAt.current = Date.now()
+    })
+  }, [loadPracticeSession, sessionId])
+
+  const isRunning = Boolean(session && !session.submittedAt)
+
+  useEffect(() => {
+    if (!isRunning) {
+      return
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [isRunning])
+
+  const displayQuestions = useMemo(
+    () => (session ? buildDisplayQuestions(session.questions) : []),
+    [session],
+  )
+  const current = displayQuestions[currentIndex]?.question
+  const remaining = session
+    ? Math.max(0, Math.floor((new Date(session.endsAt).getTime() - now) / 1000))
+    : 0
+  const answeredCount = displayQuestions.filter(
+    ({ question }) => !isUnattemptedAnswer(answers[question.id]),
+  ).length
+
+  const commitTiming = useCallback(() => {
+    if (!current) {
+      return timings
+    }
+    const elapsed = Math.round((Date.now() - enteredAt.current) / 1000)
+    enteredAt.current = Date.now()
+    const next = { ...timings, [current.id]: (timings[current.id] ?? 0) + elapsed }
+    setTimings(next)
+    return next
+  }, [current, timings])
+
+  const goTo = (index: number) => {
+    if (!session || index === currentIndex) {
+      return
+    }
+    const nextTimings = commitTiming()
+    setCurrentIndex(index)
+    void savePracticeProgress({ sessionId: session.id, answers, timings: nextTimings })
+  }
+
+  const handleSubmit = useCallback(async () => {
+    if (!session || isSubmitting) {
+      return
+    }
+    setConfirmOpen(false)
+    const nextTimings = commitTiming()
+    setIsSubmitting(true)
+    const outcome = await submitPracticeTest({
+      sessionId: session.id,
+      answers,
+      timings: nextTimings,
+    })
+    setIsSubmitting(false)
+    if (!outcome.ok || !outcome.testId) {
+      setMessage(outcome.message ?? 'Unable to submit the practice test.')
+      return
+    }
+    navigate(`/app/tests/${outcome.testId}`)
+  }, [answers, commitTiming, isSubmitting, navigate, session, submitPracticeTest])
+
+  // Submits when the clock runs out. handleSubmit changes with every answer,
+  // which reschedules the timer, so the ref keeps it from submitting twice.
+  useEffect(() => {
+    if (!session || session.submittedAt) {
+      return
+    }
+    const timer = setTimeout(
+      () => {
+        if (!autoSubmitted.current) {
+          autoSubmitted.current = true
+          void handleSubmit()
+        }
+      },
+      Math.max(0, new Date(session.endsAt).getTime() - Date.now()),
+    )
+    return () => clearTimeout(timer)
+  }, [handleSubmit, session])
+
+  const selectOption = (label: string) => {
+    if (!current) {
+      return
+    }
+    setAnswers((prev) => {
+      if (!isMultiSelectType(current.qtype)) {
+        return { ...prev, [current.id]: label }
+      }
+      const selected = toOptionArray(prev[current.id])
+      return {
+        ...prev,
+        [current.id]: selected.includes(label)
+          ? selected.filter((item) => item !== label)
+          : [...selected, label].sort(),
+      }
+    })
+  }
+
+  if (!session) {
+    return (
+      <section className="app-surface p-8 text-sm text-muted-foreground">
+        {message ?? 'Loading practice test...'}
+      </section>
+    )
+  }
+
+  if (session.submittedAt) {
+    return (
+      <section className="app-surface space-y-4 p-8">
+        <p className="text-sm text-muted-foreground">
+          This practice test was submitted on{' '}
+          {new Date(session.submittedAt).toLocaleString()}.
+        </p>
+        {session.testId ? (
+          <Button asChild>
+            <Link to={`/app/tests/${session.testId}`}>View analysis</Link>
+          </Button>
+        ) : null}
+      </section>
+    )
+  }
+
+  const selected = current ? toOptionArray(answers[current.id]) : []
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface flex flex-wrap items-center justify-between gap-4 p-6">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+            Practice
+          </p>
+          <h1 className="mt-1 text-2xl font-semibold">{session.title}</h1>
+          <p className="text-xs text-muted-foreground">
+            {answeredCount}/{displayQuestions.length} answered
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <span
+            className={cn(
+              'font-mono text-2xl font-semibold',
+              remaining < 60 && 'text-rose-500',
+            )}
+          >
+            {formatClock(remaining)}
+          </span>
+          <Button
+            type="button"
+            disabled={isSubmitting}
+            onClick={() => setConfirmOpen(true)}
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit test'}
+          </Button>
+        </div>
+      </section>
+
+      {message ? <p className="text-sm text-muted-foreground">{message}</p> : null}
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_280px]">
+        {current ? (
+          <Card className="app-panel">
+            <CardContent className="space-y-4 p-6">
+              <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                Q{currentIndex + 1} - {current.subject} - {formatQuestionType(current.qtype)}
+              </p>
+              <div
+                className={cn(
+                  'question-html leading-relaxed',
+                  mode === 'dark' ? 'question-html--blend-dark' : 'question-html--blend-light',
+                )}
+                dangerouslySetInnerHTML={{ __html: current.questionContent }}
+              />
+              {current.qtype === 'NAT' ? (
+                <Input
+                  value={answers[current.id] == null ? '' : String(answers[current.id])}
+                  placeholder="Your answer"
+                  onChange={(event) =>
+                    setAnswers((prev) => ({ ...prev, [current.id]: event.target.value }))
+                  }
+                />
+              ) : (
+                <div className="grid gap-3">
+                  {optionLabels.map((label) => {
+                    const content = current[`optionContent${label}`]
+                    if (!content) {
+                      return null
+                    }
+                    const isSelected = selected.includes(label)
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => selectOption(label)}
+                        className={cn(
+                          'flex gap-3 rounded-lg border p-2 text-left text-sm',
+                          isSelected
+                            ? 'border-primary bg-primary/10'
+                            : 'border-border bg-background',
+                        )}
+                      >
+                        <span
+                          className={cn(
+                            'flex h-7 w-7 flex-shrink-0 items-center justify-center place-self-center border text-xs font-semibold',
+                            isMultiSelectType(current.qtype) ? 'rounded-md' : 'rounded-full',
+                          )}
+                        >
+                          {label}
+                        </span>
+                        <div
+                          className={cn(
+                            'question-html min-w-0 flex-1 leading-relaxed',
+                            mode === 'dark'
+                              ? 'question-html--blend-dark'
+                              : 'question-html--blend-light',
+                          )}
+                          dangerouslySetInnerHTML={{ __html: content }}
+                        />
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setAnswers((prev) => ({ ...prev, [current.id]: null }))}
+                >
+                  Clear response
+                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={currentIndex === 0}
+                    onClick={() => goTo(currentIndex - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    type="button"
+                    disabled={currentIndex >= displayQuestions.length - 1}
+                    onClick={() => goTo(currentIndex + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ) : null}
+
+        <Card className="app-panel">
+          <CardContent className="grid grid-cols-5 gap-2 p-4">
+            {displayQuestions.map(({ question, displayNumber }, index) => (
+              <button
+                key={question.id}
+                type="button"
+                onClick={() => goTo(index)}
+                className={cn(
+                  'flex h-9 items-center justify-center rounded-md border text-xs font-semibold',
+                  index === currentIndex && 'ring-2 ring-primary',
+                  isUnattemptedAnswer(answers[question.id])
+                    ? 'border-border/60 text-muted-foreground'
+                    : 'border-emerald-500/60 bg-emerald-500/15 text-foreground',
+                )}
+              >
+                {displayNumber}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Submit this practice test?</DialogTitle>
+            <DialogDescription>
+              You have answered {answeredCount} of {displayQuestions.length} questions.
+              You cannot change answers after submitting.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>
+              Keep going
+            </Button>
+            <Button onClick={() => void handleSubmit()}>Submit</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -10,7 +10,6 @@ import {
   DialogDescription,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -23,8 +22,7 @@ export const Profile = () => {
     updatePassword,
     connectExternalAccount,
     state,
-    adminOverride,
-    setAdminOverride,
+    isAdmin,
     setMode,
   } = useAppStore();
   const [profileMessage, setProfileMessage] = useState<string | null>(null);
@@ -32,11 +30,20 @@ export const Profile = () => {
   const [connectMessage, setConnectMessage] = useState<string | null>(null);
   const [isConnectOpen, setIsConnectOpen] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [connectProviderId, setConnectProviderId] = useState<string | null>(
+    null
+  );
   const [searchParams, setSearchParams] = useSearchParams();
 
-  const account = state.externalAccounts.find(
+  const accounts = state.externalAccounts.filter(
     (item) => item.userId === currentUser?.id
   );
+  const providers =
+    state.externalProviders.length > 0
+      ? state.externalProviders
+      : accounts.map((item) => ({ id: item.provider, label: item.provider }));
+  const connectProvider =
+    providers.find((item) => item.id === connectProviderId) ?? providers[0];
   const mode = currentUser?.preferences.mode ?? state.ui.mode;
   const isDark = mode === "dark";
 
@@ -72,8 +79,17 @@ export const Profile = () => {
     const form = new FormData(event.currentTarget);
     const username = String(form.get("username") ?? "");
     const password = String(form.get("password") ?? "");
+    if (!connectProvider) {
+      setConnectMessage("No providers available.");
+      setIsConnecting(false);
+      return;
+    }
     try {
-      const result = await connectExternalAccount({ username, password });
+      const result = await connectExternalAccount({
+        provider: connectProvider.id,
+        username,
+        password,
+      });
       if (result.ok) {
         setConnectMessage("Connected successfully.");
         event.currentTarget.reset();
@@ -95,6 +111,12 @@ export const Profile = () => {
     setSearchParams(nextParams, { replace: true });
   };
 
+  const openConnectDialog = (providerId: string) => {
+    setConnectMessage(null);
+    setConnectProviderId(providerId);
+    setIsConnectOpen(true);
+  };
+
   const closeConnectDialog = () => {
     setIsConnectOpen(false);
     clearConnectParam();
@@ -213,19 +235,15 @@ export const Profile = () => {
             <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
               Admin access
             </p>
-            <div className="flex items-center justify-between gap-4">
-              <div>
-                <p className="text-sm font-medium text-foreground">
-                  Enable admin privileges
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  Enable to unlock admin-only tools.
-                </p>
-              </div>
-              <Switch
-                checked={adminOverride}
-                onCheckedChange={setAdminOverride}
-              />
+            <div>
+              <p className="text-sm font-medium text-foreground">
+                {isAdmin ? "Admin" : "Member"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {isAdmin
+                  ? "You can update answer keys and marking schemes."
+                  : "Answer keys and marking schemes can only be changed by admins."}
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -234,27 +252,47 @@ export const Profile = () => {
       <section className="grid gap-4">
         <Card className="app-panel">
           <CardContent className="space-y-4 p-6">
-            <div className="flex items-center justify-between">
-              <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
-                Z7i account
-              </p>
-              <Badge variant={account ? "secondary" : "outline"}>
-                {account
-                  ? `${account.provider} - ${account.status}`
-                  : "Not connected"}
-              </Badge>
-            </div>
-            <div className="rounded-lg border border-border bg-muted/30 p-4">
-              <div className="space-y-3">
-                <div className="space-y-2">
-                  <Label>Z7i username</Label>
-                  <Input
-                    readOnly
-                    value={account?.username ?? "Not connected"}
-                  />
-                </div>
+            <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+              External accounts
+            </p>
+            {providers.length === 0 ? (
+              <div className="rounded-lg border border-border bg-background p-3 text-xs text-muted-foreground">
+                No test providers are available.
               </div>
-            </div>
+            ) : null}
+            {providers.map((provider) => {
+              const account = accounts.find(
+                (item) => item.provider === provider.id
+              );
+              return (
+                <div
+                  key={provider.id}
+                  className="rounded-lg border border-border bg-muted/30 p-4"
+                >
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium">{provider.label}</p>
+                      <Badge variant={account ? "secondary" : "outline"}>
+                        {account ? account.status : "Not connected"}
+                      </Badge>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Username</Label>
+                      <Input
+                        readOnly
+                        value={account?.username ?? "Not connected"}
+                      />
+                    </div>
+                    <Button
+                      variant="secondary"
+                      onClick={() => openConnectDialog(provider.id)}
+                    >
+                      {account ? "Change account" : "Connect account"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
             <Dialog
               open={isConnectOpen}
               onOpenChange={(nextOpen) => {
@@ -264,21 +302,18 @@ export const Profile = () => {
                 }
               }}
             >
-              <DialogTrigger asChild>
-                <Button variant="secondary">
-                  {account ? "Change external account" : "Connect account"}
-                </Button>
-              </DialogTrigger>
               <DialogContent>
                 <DialogHeader>
-                  <DialogTitle>Connect z7i account</DialogTitle>
+                  <DialogTitle>
+                    Connect {connectProvider?.label ?? "external"} account
+                  </DialogTitle>
                   <DialogDescription>
-                    Provide the Z7i enrollment and password to sync tests.
+                    Provide your login for this portal to sync its tests.
                   </DialogDescription>
                 </DialogHeader>
                 <form className="space-y-4" onSubmit={handleConnect}>
                   <div className="space-y-2">
-                    <Label htmlFor="username">Z7i Enrollment Number</Label>
+                    <Label htmlFor="username">Username or enrollment number</Label>
                     <Input
                       id="username"
                       name="username"
@@ -287,7 +322,7 @@ export const Profile = () => {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="password">Z7i Password</Label>
+                    <Label htmlFor="password">Password</Label>
                     <Input
                       id="password"
                       name="password"
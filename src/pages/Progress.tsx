@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useAppStore } from '@/lib/store'
+import {
+  buildProgress,
+  movingAverage,
+  progressMetrics,
+  trendSlope,
+  type ProgressMetric,
+} from '@/lib/progress'
+import { subjectDisplayOrder } from '@/lib/questionDisplay'
+import type { AnalyticsTest, QuestionType } from '@/lib/types'
+import { TrendChart } from '@/components/TrendChart'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { formatQuestionType } from '@/lib/utils'
+
+type Breakdown = 'overall' | 'subject' | 'type'
+
+const questionTypes: QuestionType[] = ['MCQ', 'MAQ', 'VMAQ', 'NAT']
+
+const metricLabels: Record<ProgressMetric, string> = {
+  score: 'Score (% of max)',
+  accuracy: 'Accuracy',
+  attemptRate: 'Attempt rate',
+  avgAttemptedTime: 'Time per attempted question',
+  rank: 'Rank',
+}
+
+const subjectColors: Record<string, string> = {
+  PHYSICS: 'text-sky-500',
+  CHEMISTRY: 'text-amber-500',
+  MATHEMATICS: 'text-violet-500',
+}
+
+const typeColors: Record<QuestionType, string> = {
+  MCQ: 'text-emerald-500',
+  MAQ: 'text-sky-500',
+  VMAQ: 'text-violet-500',
+  NAT: 'text-rose-500',
+}
+
+const formatMetric = (metric: ProgressMetric, value: number) => {
+  if (metric === 'avgAttemptedTime') {
+    return `${Math.round(value)}s`
+  }
+  if (metric === 'rank') {
+    return String(Math.round(value))
+  }
+  return `${value}%`
+}
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { day: '2-digit', month: 'short' })
+
+export const Progress = () => {
+  const { keySource, loadAnalyticsSummary } = useAppStore()
+  const [tests, setTests] = useState<AnalyticsTest[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [message, setMessage] = useState<string | null>(null)
+  const [metric, setMetric] = useState<ProgressMetric>('score')
+  const [breakdown, setBreakdown] = useState<Breakdown>('overall')
+  const [averageWindow, setAverageWindow] = useState('3')
+
+  useEffect(() => {
+    let cancelled = false
+    void loadAnalyticsSummary().then((outcome) => {
+      if (cancelled) {
+        return
+      }
+      setTests(outcome.tests)
+      setMessage(outcome.ok ? null : outcome.message ?? 'Unable to load progress.')
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [keySource, loadAnalyticsSummary])
+
+  const points = useMemo(() => buildProgress(tests), [tests])
+  const labels = points.map((point) => formatShortDate(point.examDate))
+  const windowSize = Number(averageWindow)
+
+  const series = useMemo(() => {
+    if (breakdown === 'overall' || metric === 'rank') {
+      return [
+        {
+          id: 'overall',
+          label: 'All questions',
+          className: 'text-primary',
+          values: points.map((point) => point.overall[metric]),
+        },
+      ]
+    }
+    const valueMetric = metric
+    if (breakdown === 'subject') {
+      return subjectDisplayOrder.map((subject) => ({
+        id: subject,
+        label: subject,
+        className: subjectColors[subject],
+        values: points.map((point) => point.perSubject[subject]?.[valueMetric] ?? null),
+      }))
+    }
+    return questionTypes.map((qtype) => ({
+      id: qtype,
+      label: formatQuestionType(qtype),
+      className: typeColors[qtype],
+      values: points.map((point) => point.perType[qtype]?.[valueMetric] ?? null),
+    }))
+  }, [breakdown, metric, points])
+
+  const subjectTrends = useMemo(() => {
+    const trends = subjectDisplayOrder.flatMap((subject) => {
+      const values = points.map((point) => point.perSubject[subject]?.score ?? null)
+      const slope = trendSlope(values)
+      if (slope === null) {
+        return []
+      }
+      const latest = movingAverage(values, windowSize).filter(
+        (value): value is number => value !== null,
+      )
+      return [{ subject, slope, latest: latest[latest.length - 1] ?? 0 }]
+    })
+    const sorted = [...trends].sort((a, b) => b.slope - a.slope)
+    return {
+      trends,
+      best: sorted[0]?.subject ?? null,
+      worst: sorted.length > 1 ? sorted[sorted.length - 1].subject : null,
+    }
+  }, [points, windowSize])
+
+  const availableMetrics = progressMetrics.filter(
+    (item) => item !== 'rank' || breakdown === 'overall',
+  )
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+              Progress
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold">How you are trending</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Every test you have taken, oldest first, scored with the selected key source.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={metric}
+              onValueChange={(value) => setMetric(value as ProgressMetric)}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableMetrics.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {metricLabels[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={averageWindow} onValueChange={setAverageWindow}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {['2', '3', '5'].map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}-test average
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {message ? <p className="text-sm text-muted-foreground">{message}</p> : null}
+
+        {points.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : 'Take at least two tests to see trends.'}
+          </p>
+        ) : (
+          <>
+            <Tabs
+              value={breakdown}
+              onValueChange={(value) => {
+                setBreakdown(value as Breakdown)
+                if (value !== 'overall' && metric === 'rank') {
+                  setMetric('score')
+                }
+              }}
+            >
+              <TabsList>
+                <TabsTrigger value="overall">Overall</TabsTrigger>
+                <TabsTrigger value="subject">By subject</TabsTrigger>
+                <TabsTrigger value="type">By question type</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <Card className="app-panel">
+              <CardContent className="space-y-3 p-6">
+                <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                  {metricLabels[metric]}
+                </p>
+                <TrendChart
+                  labels={labels}
+                  series={series}
+                  averageWindow={windowSize}
+                  invertAxis={metric === 'rank'}
+                  formatValue={(value) => formatMetric(metric, value)}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="space-y-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                Subject trends
+              </p>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {subjectTrends.trends.map((trend) => (
+                  <Card key={trend.subject} className="app-panel">
+                    <CardContent className="space-y-2 p-4">
+                      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span>{trend.subject}</span>
+                        {trend.subject === subjectTrends.best ? (
+                          <Badge variant="secondary">Best trend</Badge>
+                        ) : trend.subject === subjectTrends.worst ? (
+                          <Badge variant="destructive">Worst trend</Badge>
+                        ) : null}
+                      </div>
+                      <p className="text-2xl font-semibold">
+                        {trend.slope > 0 ? '+' : ''}
+                        {trend.slope} pts
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Score change per test. Latest {windowSize}-test average{' '}
+                        {trend.latest}%.
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+
+      {points.length > 0 ? (
+        <section className="app-surface p-8">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Test</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+                <TableHead className="text-right">Attempted</TableHead>
+                <TableHead className="text-right">Time / attempt</TableHead>
+                <TableHead className="text-right">Rank</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...points].reverse().map((point) => (
+                <TableRow key={point.testId}>
+                  <TableCell>{new Date(point.examDate).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Link to={`/app/tests/${point.testId}`} className="hover:underline">
+                      {point.title}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {point.marks}/{point.maxMarks}
+                  </TableCell>
+                  <TableCell className="text-right">{point.overall.accuracy}%</TableCell>
+                  <TableCell className="text-right">{point.overall.attemptRate}%</TableCell>
+                  <TableCell className="text-right">
+                    {Math.round(point.overall.avgAttemptedTime)}s
+                  </TableCell>
+                  <TableCell className="text-right">{point.overall.rank ?? '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      ) : null}
+    </div>
+  )
+}
@@ -7,7 +7,7 @@ import {
   type MouseEvent,
   type PointerEvent,
 } from "react";
-import { Link, useParams } from "react-router-dom";
+import { Link, Navigate, useParams } from "react-router-dom";
 import { Copy, Star } from "lucide-react";
 import { useAppStore } from "@/lib/store";
 import {
@@ -18,8 +18,17 @@ import {
   getQuestionStatus,
   getTimeForQuestion,
   isBonusKey,
+  isMultiSelectType,
+  resolveQuestionKey,
 } from "@/lib/analysis";
-import type { Subject } from "@/lib/types";
+import type {
+  AnswerValue,
+  DiscussionPost,
+  KeyChallenge,
+  MistakeTag,
+  Subject,
+} from "@/lib/types";
+import { mistakeTagLabels, mistakeTags } from "@shared/mistakes";
 import {
   buildDisplayQuestions,
   subjectDisplayOrder,
@@ -40,6 +49,8 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
+import { KeySourceToggle } from "@/components/KeySourceToggle";
+import { MarkdownNote } from "@/components/MarkdownNote";
 
 const formatSeconds = (value: number) => {
   if (!Number.isFinite(value)) {
@@ -90,14 +101,6 @@ const toOptionArray = (value: unknown): string[] => {
   return [];
 };
 
-type ChatMessage = {
-  id: string;
-  author: string;
-  body: string;
-  createdAt: string;
-  pinned?: boolean;
-};
-
 type KeyAnswerGroup = {
   id: string;
   single: string;
@@ -144,11 +147,31 @@ export const QuestionDetail = () => {
   const {
     state,
     updateAnswerKey,
-    toggleQuestionBookmark,
+    setKeyOverride,
+    loadKeyHistory,
+    loadKeyChallenges,
+    fileKeyChallenge,
+    voteKeyChallenge,
+    resolveKeyChallenge,
+    setQuestionAnnotation,
+    loadQuestionNote,
+    saveQuestionNote,
+    deleteQuestionNote,
+    loadDiscussion,
+    subscribeDiscussion,
+    postDiscussionMessage,
+    setDiscussionPostPinned,
+    deleteDiscussionPost,
     currentUser,
     isAdmin,
+    keySource,
+    loadTest,
   } = useAppStore();
-  const test = state.tests.find((item) => item.id === testId);
+  const test = testId ? state.tests[testId] : undefined;
+  const [loadError, setLoadError] = useState<{
+    testId: string;
+    message: string;
+  } | null>(null);
   const mode = currentUser?.preferences.mode ?? state.ui.mode;
   const displayQuestions = useMemo(() => {
     if (!test) {
@@ -178,9 +201,9 @@ export const QuestionDetail = () => {
       current.push({
         id: item.id,
         number: displayNumber,
-        status: getQuestionStatus(test, item),
-        bonus: isBonusKey(item.keyUpdate),
-        bookmarked: Boolean(test.bookmarks?.[item.id]),
+        status: getQuestionStatus(test, item, keySource),
+        bonus: isBonusKey(resolveQuestionKey(test, item, keySource)),
+        bookmarked: Boolean(test.annotations?.[item.id]),
       });
       map.set(subject, current);
     });
@@ -190,7 +213,21 @@ export const QuestionDetail = () => {
         items: map.get(subject) ?? [],
       }))
       .filter((section) => section.items.length > 0);
-  }, [displayQuestions, test]);
+  }, [displayQuestions, test, keySource]);
+
+  useEffect(() => {
+    if (!testId || test) {
+      return;
+    }
+    void loadTest(testId).then((outcome) => {
+      if (!outcome.ok) {
+        setLoadError({
+          testId,
+          message: outcome.message ?? "Test not found.",
+        });
+      }
+    });
+  }, [loadTest, testId, test]);
 
   const [message, setMessage] = useState<string | null>(null);
   const [keyUpdateBonus, setKeyUpdateBonus] = useState(false);
@@ -198,10 +235,20 @@ export const QuestionDetail = () => {
     buildKeyGroup(),
   ]);
   const [notes, setNotes] = useState("");
+  const [notesMode, setNotesMode] = useState<"write" | "preview">("write");
+  const [noteMessage, setNoteMessage] = useState<string | null>(null);
+  const [isSavingNote, setIsSavingNote] = useState(false);
   const [chatInput, setChatInput] = useState("");
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const [chatKeyLoaded, setChatKeyLoaded] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<DiscussionPost | null>(null);
+  const [chatMessage, setChatMessage] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
   const [isBookmarking, setIsBookmarking] = useState(false);
+  const [mistakeTag, setMistakeTag] = useState<MistakeTag | null>(null);
+  const [mistakeReason, setMistakeReason] = useState("");
+  const [annotationMessage, setAnnotationMessage] = useState<string | null>(
+    null
+  );
+  const [keyUpdateReason, setKeyUpdateReason] = useState("");
   const [isCopying, setIsCopying] = useState(false);
   const [isImageOpen, setIsImageOpen] = useState(false);
   const [imageSrc, setImageSrc] = useState<string | null>(null);
@@ -230,7 +277,15 @@ export const QuestionDetail = () => {
     );
   }, [zoomLevel]);
 
-  const analysis = test ? buildAnalysis(test) : null;
+  const keyHistory = test ? state.keyHistory[test.id] : undefined;
+  const analysis = test ? buildAnalysis(test, keyHistory, keySource) : null;
+
+  useEffect(() => {
+    if (testId) {
+      void loadKeyHistory(testId);
+      void loadKeyChallenges(testId);
+    }
+  }, [loadKeyChallenges, loadKeyHistory, testId]);
   const totalScore = test
     ? test.questions.reduce((sum, question) => sum + question.correctMarking, 0)
     : 0;
@@ -244,6 +299,27 @@ export const QuestionDetail = () => {
   const questionEntry =
     currentIndex >= 0 ? displayQuestions[currentIndex] : null;
   const question = questionEntry?.question ?? null;
+  const questionKeyHistory = useMemo(
+    () =>
+      question
+        ? (keyHistory ?? []).filter((event) => event.questionId === question.id)
+        : [],
+    [keyHistory, question]
+  );
+  const keyChallenges = test ? state.keyChallenges[test.id] : undefined;
+  const questionChallenges = useMemo(
+    () =>
+      question
+        ? (keyChallenges ?? [])
+            .filter((challenge) => challenge.questionId === question.id)
+            .sort((a, b) => {
+              const openDelta =
+                Number(b.status === "open") - Number(a.status === "open");
+              return openDelta !== 0 ? openDelta : b.votes - a.votes;
+            })
+        : [],
+    [keyChallenges, question]
+  );
   const timeSpent = question && test ? getTimeForQuestion(test, question) : 0;
   const peerTimeSpent =
     question && test ? test.peerTimings?.[question.id] : undefined;
@@ -256,9 +332,22 @@ export const QuestionDetail = () => {
     : undefined;
   const hasPeerAnswerStats =
     Boolean(peerAnswerStats) && (peerAnswerStats?.total ?? 0) > 0;
+  const peerOptionSplit =
+    hasPeerAnswerStats && peerAnswerStats
+      ? Object.entries(peerAnswerStats.options)
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, 6)
+          .map(([option, count]) => ({
+            option,
+            percent: Math.round((count / peerAnswerStats.total) * 100),
+          }))
+      : [];
   const answer = question && test ? getAnswerForQuestion(test, question) : null;
+  const activeKey =
+    question && test ? resolveQuestionKey(test, question, keySource) : null;
+  const personalKey = question ? test?.keyOverrides?.[question.id] : undefined;
   const questionStatus =
-    test && question ? getQuestionStatus(test, question) : "Unattempted";
+    test && question ? getQuestionStatus(test, question, keySource) : "Unattempted";
   const userAnswerValue =
     questionStatus === "Unattempted" ? "" : formatAnswerValue(answer);
   const answerBorderClass =
@@ -273,11 +362,14 @@ export const QuestionDetail = () => {
       : questionStatus === "Incorrect"
       ? "text-rose-500"
       : "text-muted-foreground";
-  const score = question && test ? getQuestionMark(test, question) : 0;
+  const score = question && test ? getQuestionMark(test, question, keySource) : 0;
   const displayNumber = questionEntry?.displayNumber ?? 0;
-  const isBookmarked = Boolean(
-    test && question ? test.bookmarks?.[question.id] : false
-  );
+  const annotation =
+    test && question ? test.annotations?.[question.id] : undefined;
+  const isBookmarked = Boolean(annotation);
+  const isAnnotationDirty =
+    mistakeTag !== (annotation?.tag ?? null) ||
+    mistakeReason.trim() !== (annotation?.reason ?? "");
   const keyOptions = keyOptionLabels;
   const keyOptionOrder: readonly string[] = keyOptionLabels;
 
@@ -376,7 +468,7 @@ export const QuestionDetail = () => {
       return ranges.length > 0 ? ranges.join(" OR ") : null;
     }
 
-    if (question.qtype === "MAQ") {
+    if (isMultiSelectType(question.qtype)) {
       const groups = keyAnswerGroups
         .map((group) => {
           const selections = group.multi.map((item) =>
@@ -416,9 +508,159 @@ export const QuestionDetail = () => {
       testId: test.id,
       questionId: question.id,
       newKey: keyUpdateBonus ? { bonus: true } : keyValue,
+      reason: keyUpdateReason.trim() || undefined,
     });
     setMessage("Answer key updated.");
     setKeyUpdateBonus(false);
+    setKeyUpdateReason("");
+  };
+
+  const handleKeyOverride = async () => {
+    setMessage(null);
+    if (!test || !question) {
+      return;
+    }
+    const keyValue = buildKeyUpdateValue();
+    if (!keyUpdateBonus && !keyValue) {
+      setMessage("Enter a valid key or mark this question as bonus.");
+      return;
+    }
+    const result = await setKeyOverride({
+      testId: test.id,
+      questionId: question.id,
+      key: keyUpdateBonus ? { bonus: true } : keyValue,
+    });
+    setMessage(
+      result.ok
+        ? "Your key is saved for this attempt."
+        : result.message ?? "Unable to save your key."
+    );
+  };
+
+  const handleChallengeFile = async () => {
+    setMessage(null);
+    if (!test || !question) {
+      return;
+    }
+    const keyValue = buildKeyUpdateValue();
+    if (!keyUpdateBonus && !keyValue) {
+      setMessage("Enter a valid key or mark this question as bonus.");
+      return;
+    }
+    const justification = keyUpdateReason.trim();
+    if (!justification) {
+      setMessage("Explain why the key is wrong to file a challenge.");
+      return;
+    }
+    const result = await fileKeyChallenge({
+      testId: test.id,
+      questionId: question.id,
+      proposedKey: keyUpdateBonus ? { bonus: true } : keyValue,
+      justification,
+    });
+    if (result.ok) {
+      setKeyUpdateReason("");
+    }
+    setMessage(
+      result.ok
+        ? "Challenge filed."
+        : result.message ?? "Unable to file challenge."
+    );
+  };
+
+  const handleChallengeVote = async (challenge: KeyChallenge) => {
+    if (!test) {
+      return;
+    }
+    const result = await voteKeyChallenge({
+      testId: test.id,
+      challengeId: challenge.id,
+      voted: !challenge.hasVoted,
+    });
+    if (!result.ok) {
+      setMessage(result.message ?? "Unable to update vote.");
+    }
+  };
+
+  const handleChallengeResolve = async (
+    challenge: KeyChallenge,
+    status: "accepted" | "rejected"
+  ) => {
+    if (!isAdmin || !test) {
+      return;
+    }
+    setMessage(null);
+    const result = await resolveKeyChallenge({
+      testId: test.id,
+      challengeId: challenge.id,
+      status,
+    });
+    setMessage(
+      result.ok
+        ? status === "accepted"
+          ? "Challenge accepted and answer key updated."
+          : "Challenge rejected."
+        : result.message ?? "Unable to resolve challenge."
+    );
+  };
+
+  const handleKeyOverrideClear = async () => {
+    setMessage(null);
+    if (!test || !question) {
+      return;
+    }
+    const result = await setKeyOverride({
+      testId: test.id,
+      questionId: question.id,
+      key: null,
+    });
+    setMessage(
+      result.ok
+        ? "Your key is cleared."
+        : result.message ?? "Unable to clear your key."
+    );
+  };
+
+  const handleKeyRevert = async (value: AnswerValue, label: string) => {
+    if (!isAdmin || !test || !question || value === null) {
+      return;
+    }
+    await updateAnswerKey({
+      testId: test.id,
+      questionId: question.id,
+      newKey: value,
+      reason: `Reverted to ${label}.`,
+    });
+    setMessage("Answer key reverted.");
+  };
+
+  const handleNoteSave = async () => {
+    if (!test || !question || isSavingNote) {
+      return;
+    }
+    setIsSavingNote(true);
+    const result = await saveQuestionNote({
+      testId: test.id,
+      questionId: question.id,
+      body: notes,
+    });
+    setNoteMessage(result.ok ? null : result.message ?? "Unable to save note.");
+    setIsSavingNote(false);
+  };
+
+  const handleNoteDelete = async () => {
+    if (!test || !question || isSavingNote) {
+      return;
+    }
+    setIsSavingNote(true);
+    const result = await deleteQuestionNote({
+      testId: test.id,
+      questionId: question.id,
+    });
+    setNoteMessage(
+      result.ok ? null : result.message ?? "Unable to delete note."
+    );
+    setIsSavingNote(false);
   };
 
   const handleBookmarkToggle = async () => {
@@ -426,10 +668,10 @@ export const QuestionDetail = () => {
       return;
     }
     setIsBookmarking(true);
-    const result = await toggleQuestionBookmark({
+    const result = await setQuestionAnnotation({
       testId: test.id,
       questionId: question.id,
-      bookmarked: !isBookmarked,
+      annotation: isBookmarked ? null : { tag: null, reason: "" },
     });
     if (!result.ok) {
       setMessage(result.message ?? "Unable to update bookmark.");
@@ -437,41 +679,81 @@ export const QuestionDetail = () => {
     setIsBookmarking(false);
   };
 
+  const handleAnnotationSave = async () => {
+    if (!test || !question || isBookmarking) {
+      return;
+    }
+    setIsBookmarking(true);
+    const result = await setQuestionAnnotation({
+      testId: test.id,
+      questionId: question.id,
+      annotation: { tag: mistakeTag, reason: mistakeReason },
+    });
+    setAnnotationMessage(
+      result.ok ? null : result.message ?? "Unable to save annotation."
+    );
+    setIsBookmarking(false);
+  };
+
   const prev = currentIndex > 0 ? displayQuestions[currentIndex - 1] : null;
   const next =
     currentIndex < displayQuestions.length - 1
       ? displayQuestions[currentIndex + 1]
       : null;
   const selectedOptions = toOptionArray(answer);
-  const correctOptions = question ? toOptionArray(question.keyUpdate) : [];
-  const isMultiSelect = question?.qtype === "MAQ";
-  const notesKey =
-    test && question
-      ? `testanalyser-question-notes-${test.id}-${question.id}`
-      : null;
-  const chatKey =
-    test && question
-      ? `testanalyser-question-chat-${test.id}-${question.id}`
-      : null;
-  const orderedMessages = useMemo(() => {
-    return [...chatMessages].sort((a, b) => {
-      const pinDelta = Number(Boolean(b.pinned)) - Number(Boolean(a.pinned));
-      if (pinDelta !== 0) {
-        return pinDelta;
-      }
-      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-    });
-  }, [chatMessages]);
-  const activeMessages = chatKeyLoaded === chatKey ? orderedMessages : [];
+  const correctOptions = question ? toOptionArray(activeKey) : [];
+  const isMultiSelect = question ? isMultiSelectType(question.qtype) : false;
+  const savedNote = question ? state.questionNotes[question.id] : undefined;
+  const isNoteDirty = notes !== (savedNote?.body ?? "");
+  const discussionPosts = question ? state.discussions[question.id] : undefined;
+  const discussionThreads = useMemo(() => {
+    const posts = discussionPosts ?? [];
+    const byTime = (a: DiscussionPost, b: DiscussionPost) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    return posts
+      .filter((post) => !post.parentId)
+      .map((post) => ({
+        post,
+        replies: posts
+          .filter((reply) => reply.parentId === post.id && !reply.deleted)
+          .sort(byTime),
+      }))
+      .filter(({ post, replies }) => !post.deleted || replies.length > 0)
+      .sort((a, b) => {
+        const pinDelta = Number(b.post.pinned) - Number(a.post.pinned);
+        if (pinDelta !== 0) {
+          return pinDelta;
+        }
+        return byTime(a.post, b.post);
+      });
+  }, [discussionPosts]);
 
   useEffect(() => {
-    if (!notesKey) {
-      setNotes("");
+    if (testId && questionId) {
+      void loadQuestionNote({ testId, questionId });
+    }
+  }, [loadQuestionNote, testId, questionId]);
+
+  useEffect(() => {
+    setReplyTo(null);
+    setChatMessage(null);
+    if (!testId || !questionId) {
       return;
     }
-    const saved = localStorage.getItem(notesKey);
-    setNotes(saved ?? "");
-  }, [notesKey]);
+    void loadDiscussion({ testId, questionId });
+    return subscribeDiscussion({ testId, questionId });
+  }, [loadDiscussion, subscribeDiscussion, testId, questionId]);
+
+  useEffect(() => {
+    setNotes(savedNote?.body ?? "");
+    setNoteMessage(null);
+  }, [savedNote]);
+
+  useEffect(() => {
+    setMistakeTag(annotation?.tag ?? null);
+    setMistakeReason(annotation?.reason ?? "");
+    setAnnotationMessage(null);
+  }, [question?.id, annotation?.tag, annotation?.reason]);
 
   useEffect(() => {
     if (!question) {
@@ -479,7 +761,7 @@ export const QuestionDetail = () => {
       setKeyUpdateBonus(false);
       return;
     }
-    const bonusActive = isBonusKey(question.keyUpdate);
+    const bonusActive = isBonusKey(activeKey);
     setKeyUpdateBonus(bonusActive);
     if (bonusActive) {
       setKeyAnswerGroups([buildKeyGroup()]);
@@ -487,7 +769,7 @@ export const QuestionDetail = () => {
     }
 
     const nextGroups: KeyAnswerGroup[] = [];
-    const rawKey = question.keyUpdate ?? question.correctAnswer;
+    const rawKey = activeKey ?? question.correctAnswer;
 
     if (question.qtype === "NAT") {
       if (typeof rawKey === "number") {
@@ -515,7 +797,7 @@ export const QuestionDetail = () => {
           }
         });
       }
-    } else if (question.qtype === "MAQ") {
+    } else if (isMultiSelectType(question.qtype)) {
       if (Array.isArray(rawKey)) {
         nextGroups.push({
           ...buildKeyGroup(),
@@ -542,59 +824,29 @@ export const QuestionDetail = () => {
     }
 
     setKeyAnswerGroups(nextGroups.length > 0 ? nextGroups : [buildKeyGroup()]);
-  }, [question]);
-
-  useEffect(() => {
-    if (!notesKey) {
-      return;
-    }
-    localStorage.setItem(notesKey, notes);
-  }, [notes, notesKey]);
+  }, [question, activeKey]);
 
-  useEffect(() => {
-    if (!chatKey) {
-      setChatMessages([]);
-      setChatKeyLoaded(null);
-      return;
-    }
-    const raw = localStorage.getItem(chatKey);
-    if (!raw) {
-      setChatMessages([]);
-      setChatKeyLoaded(chatKey);
-      return;
-    }
-    try {
-      const parsed = JSON.parse(raw) as ChatMessage[];
-      setChatMessages(Array.isArray(parsed) ? parsed : []);
-    } catch {
-      setChatMessages([]);
-    }
-    setChatKeyLoaded(chatKey);
-  }, [chatKey]);
-
-  useEffect(() => {
-    if (!chatKey || chatKeyLoaded !== chatKey) {
-      return;
-    }
-    localStorage.setItem(chatKey, JSON.stringify(chatMessages));
-  }, [chatKey, chatKeyLoaded, chatMessages]);
-
-  const handleChatSubmit = (event: FormEvent<HTMLFormElement>) => {
+  const handleChatSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const trimmed = chatInput.trim();
-    if (!trimmed) {
+    if (!trimmed || !test || !question) {
       return;
     }
-    const author = currentUser?.name ?? "User";
-    const nextMessage: ChatMessage = {
-      id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
-      author,
+    setIsPosting(true);
+    const result = await postDiscussionMessage({
+      testId: test.id,
+      questionId: question.id,
       body: trimmed,
-      createdAt: new Date().toISOString(),
-      pinned: false,
-    };
-    setChatMessages((prevMessages) => [...prevMessages, nextMessage]);
+      parentId: replyTo?.id,
+    });
+    setIsPosting(false);
+    if (!result.ok) {
+      setChatMessage(result.message ?? "Unable to post message.");
+      return;
+    }
+    setChatMessage(null);
     setChatInput("");
+    setReplyTo(null);
   };
 
   const clampZoom = (value: number) => Math.min(4, Math.max(0.1, value));
@@ -720,25 +972,89 @@ export const QuestionDetail = () => {
     }
   };
 
-  const togglePin = (id: string) => {
-    if (!isAdmin) {
+  const canDeletePost = (post: DiscussionPost) =>
+    isAdmin || currentUser?.id === post.authorId;
+
+  const togglePin = async (post: DiscussionPost) => {
+    if (!isAdmin || !test) {
       return;
     }
-    setChatMessages((prevMessages) =>
-      prevMessages.map((message) =>
-        message.id === id ? { ...message, pinned: !message.pinned } : message
-      )
-    );
+    const result = await setDiscussionPostPinned({
+      testId: test.id,
+      questionId: post.questionId,
+      postId: post.id,
+      pinned: !post.pinned,
+    });
+    setChatMessage(result.ok ? null : result.message ?? "Unable to update message.");
   };
 
-  const deleteMessage = (id: string, author: string) => {
-    if (!isAdmin && currentUser?.name !== author) {
+  const deleteMessage = async (post: DiscussionPost) => {
+    if (!canDeletePost(post) || !test) {
       return;
     }
-    setChatMessages((prevMessages) =>
-      prevMessages.filter((message) => message.id !== id)
-    );
+    const result = await deleteDiscussionPost({
+      testId: test.id,
+      questionId: post.questionId,
+      postId: post.id,
+    });
+    if (result.ok && replyTo?.id === post.id) {
+      setReplyTo(null);
+    }
+    setChatMessage(result.ok ? null : result.message ?? "Unable to delete message.");
   };
+  const renderDiscussionPost = (post: DiscussionPost) => (
+    <>
+      <div className="flex items-center justify-between gap-2">
+        <div className="space-y-1">
+          <p className="font-semibold text-foreground">{post.authorName}</p>
+          <p className="text-[11px] text-muted-foreground">
+            {new Date(post.createdAt).toLocaleString()}
+          </p>
+        </div>
+        {post.deleted ? null : (
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setReplyTo(post)}
+            >
+              Reply
+            </Button>
+            {isAdmin && !post.parentId ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => void togglePin(post)}
+              >
+                {post.pinned ? "Unpin" : "Pin"}
+              </Button>
+            ) : null}
+            {canDeletePost(post) ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => void deleteMessage(post)}
+              >
+                Delete
+              </Button>
+            ) : null}
+          </div>
+        )}
+      </div>
+      <p
+        className={cn(
+          "mt-2 whitespace-pre-wrap text-xs",
+          post.deleted ? "italic text-muted-foreground" : "text-foreground/90"
+        )}
+      >
+        {post.deleted ? "This message was removed." : post.body}
+      </p>
+    </>
+  );
+
   // 1. New Helper: Converts images in the clone to Base64
   const embedImages = async (clonedRoot: HTMLElement) => {
     const images = Array.from(clonedRoot.querySelectorAll("img"));
@@ -957,11 +1273,27 @@ export const QuestionDetail = () => {
     }
   };
 
+  if (test && !questionId && displayQuestions.length > 0) {
+    return (
+      <Navigate
+        replace
+        to={`/app/questions/${test.id}/${displayQuestions[0].question.id}`}
+      />
+    );
+  }
+
   if (!test || !question) {
+    const failed = loadError && loadError.testId === testId;
     return (
       <Card className="app-panel">
         <CardContent className="space-y-3 p-6">
-          <p className="text-sm text-muted-foreground">Question not found.</p>
+          <p className="text-sm text-muted-foreground">
+            {test || !testId
+              ? "Question not found."
+              : failed
+                ? loadError.message
+                : "Loading test..."}
+          </p>
           <Button asChild variant="outline">
             <Link to="/app/tests">Back to tests</Link>
           </Button>
@@ -1146,6 +1478,9 @@ export const QuestionDetail = () => {
                 {scoreLabel}
               </div>
             </div>
+            <div className="mt-3 flex justify-center">
+              <KeySourceToggle />
+            </div>
           </CardContent>
         </Card>
 
@@ -1194,7 +1529,7 @@ export const QuestionDetail = () => {
                           answerTextClass
                         )}
                       >
-                        Correct: {formatAnswerValue(question.keyUpdate)}
+                        Correct: {formatAnswerValue(activeKey)}
                       </span>
                     </div>
                   ) : (
@@ -1289,7 +1624,7 @@ export const QuestionDetail = () => {
                       </span>
                     </div>
                   ) : null}
-                  {hasPeerAnswerStats && question.qtype === "NAT" ? (
+                  {hasPeerAnswerStats ? (
                     <div className="flex items-center justify-end gap-4 text-[10px] uppercase tracking-wide text-muted-foreground">
                       <span>Correct</span>
                       <span className="text-xs font-black text-foreground">
@@ -1299,6 +1634,14 @@ export const QuestionDetail = () => {
                       <span className="text-xs font-black text-foreground">
                         {peerAnswerStats?.incorrect ?? 0}
                       </span>
+                      {(peerAnswerStats?.partial ?? 0) > 0 ? (
+                        <>
+                          <span>Partial</span>
+                          <span className="text-xs font-black text-foreground">
+                            {peerAnswerStats?.partial}
+                          </span>
+                        </>
+                      ) : null}
                     </div>
                   ) : null}
                 </div>
@@ -1356,7 +1699,7 @@ export const QuestionDetail = () => {
                       <div className="flex items-center gap-1.5 mt-0.5">
                         <div className="w-1.5 h-1.5 rounded-full bg-amber-400"></div>
                         <span className="text-sm font-black text-neutral-700 dark:text-neutral-300">
-                          {formatAnswerValue(question.keyUpdate)}
+                          {formatAnswerValue(activeKey)}
                         </span>
                       </div>
                     </div>
@@ -1412,7 +1755,7 @@ export const QuestionDetail = () => {
                 <div className="flex items-center justify-between">
                   <span>Correct key</span>
                   <span className="font-semibold text-foreground">
-                    {formatAnswerValue(question.keyUpdate)}
+                    {formatAnswerValue(activeKey)}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -1435,13 +1778,117 @@ export const QuestionDetail = () => {
 
               <div className="space-y-2">
                 <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
-                  Notes
+                  Mistake journal
                 </p>
+                <div className="flex flex-wrap gap-1">
+                  {mistakeTags.map((tag) => (
+                    <Button
+                      key={tag}
+                      type="button"
+                      size="sm"
+                      variant={mistakeTag === tag ? "secondary" : "outline"}
+                      onClick={() =>
+                        setMistakeTag((prevTag) => (prevTag === tag ? null : tag))
+                      }
+                    >
+                      {mistakeTagLabels[tag]}
+                    </Button>
+                  ))}
+                </div>
                 <Textarea
-                  value={notes}
-                  onChange={(event) => setNotes(event.target.value)}
-                  placeholder="Add your notes for this question"
+                  value={mistakeReason}
+                  onChange={(event) => setMistakeReason(event.target.value)}
+                  placeholder="Why did this one go wrong?"
                 />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {annotationMessage ??
+                      (isAnnotationDirty
+                        ? "Unsaved changes"
+                        : annotation
+                        ? "Saved to your mistake journal."
+                        : "Tag this question to track it in your journal.")}
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={
+                      isBookmarking ||
+                      (annotation ? !isAnnotationDirty : !mistakeTag && !mistakeReason.trim())
+                    }
+                    onClick={() => void handleAnnotationSave()}
+                  >
+                    Save tag
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                    Notes
+                  </p>
+                  <div className="flex gap-1">
+                    {(["write", "preview"] as const).map((item) => (
+                      <Button
+                        key={item}
+                        type="button"
+                        size="sm"
+                        variant={notesMode === item ? "secondary" : "ghost"}
+                        className="capitalize"
+                        onClick={() => setNotesMode(item)}
+                      >
+                        {item}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {notesMode === "write" ? (
+                  <Textarea
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                    placeholder="Add your notes for this question. Markdown is supported."
+                  />
+                ) : notes.trim() ? (
+                  <div className="rounded-lg border border-border bg-background p-3">
+                    <MarkdownNote body={notes} />
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Nothing to preview yet.
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {noteMessage ??
+                      (isNoteDirty
+                        ? "Unsaved changes"
+                        : savedNote
+                        ? `Saved ${new Date(savedNote.updatedAt).toLocaleString()}`
+                        : "Notes sync across your devices.")}
+                  </span>
+                  <div className="flex gap-2">
+                    {savedNote ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={isSavingNote}
+                        onClick={() => void handleNoteDelete()}
+                      >
+                        Delete
+                      </Button>
+                    ) : null}
+                    <Button
+                      type="button"
+                      size="sm"
+                      disabled={!isNoteDirty || isSavingNote}
+                      onClick={() => void handleNoteSave()}
+                    >
+                      {isSavingNote ? "Saving..." : "Save note"}
+                    </Button>
+                  </div>
+                </div>
               </div>
 
               <div className="space-y-3">
@@ -1449,90 +1896,287 @@ export const QuestionDetail = () => {
                   Key discussion
                 </p>
                 <div className="space-y-2">
-                  {activeMessages.length === 0 ? (
+                  {discussionPosts === undefined ? (
+                    <p className="text-xs text-muted-foreground">
+                      Loading discussion...
+                    </p>
+                  ) : discussionThreads.length === 0 ? (
                     <p className="text-xs text-muted-foreground">
                       No messages yet. Start the discussion.
                     </p>
                   ) : (
-                    activeMessages.map((chat) => (
+                    discussionThreads.map(({ post, replies }) => (
                       <div
-                        key={chat.id}
+                        key={post.id}
                         className={cn(
                           "rounded-lg border border-border p-3 text-xs",
-                          chat.pinned ? "bg-amber-500/10" : "bg-background"
+                          post.pinned ? "bg-amber-500/10" : "bg-background"
                         )}
                       >
-                        <div className="flex items-center justify-between gap-2">
-                          <div className="space-y-1">
-                            <p className="font-semibold text-foreground">
-                              {chat.author}
-                            </p>
-                            <p className="text-[11px] text-muted-foreground">
-                              {new Date(chat.createdAt).toLocaleString()}
-                            </p>
+                        {renderDiscussionPost(post)}
+                        {replies.length > 0 ? (
+                          <div className="mt-3 space-y-3 border-l border-border pl-3">
+                            {replies.map((reply) => (
+                              <div key={reply.id}>
+                                {renderDiscussionPost(reply)}
+                              </div>
+                            ))}
                           </div>
-                          <div className="flex items-center gap-2">
+                        ) : null}
+                      </div>
+                    ))
+                  )}
+                </div>
+                {replyTo ? (
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>Replying to {replyTo.authorName}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReplyTo(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                ) : null}
+                <form className="flex gap-2" onSubmit={handleChatSubmit}>
+                  <Input
+                    value={chatInput}
+                    onChange={(event) => setChatInput(event.target.value)}
+                    placeholder={replyTo ? "Write a reply" : "Add a message"}
+                  />
+                  <Button type="submit" disabled={isPosting || !chatInput.trim()}>
+                    {isPosting ? "Sending..." : "Send"}
+                  </Button>
+                </form>
+                {chatMessage ? (
+                  <p className="text-xs text-muted-foreground">{chatMessage}</p>
+                ) : null}
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                  Key history
+                </p>
+                {questionKeyHistory.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    The answer key has not been changed.
+                  </p>
+                ) : (
+                  <ol className="space-y-2 border-l border-border/60 pl-3">
+                    {questionKeyHistory.map((event, index) => (
+                      <li key={event.id} className="space-y-1 text-xs">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-muted-foreground">
+                            {new Date(event.createdAt).toLocaleString()}
+                            {event.actorName ? ` by ${event.actorName}` : ""}
+                          </span>
+                          {isAdmin && index > 0 ? (
                             <Button
                               type="button"
                               variant="ghost"
                               size="sm"
-                              onClick={() => togglePin(chat.id)}
-                              disabled={!isAdmin}
-                              title={isAdmin ? "Toggle pin" : "Admins only"}
+                              onClick={() =>
+                                void handleKeyRevert(
+                                  event.newKey,
+                                  `the key from ${new Date(
+                                    event.createdAt
+                                  ).toLocaleString()}`
+                                )
+                              }
                             >
-                              {chat.pinned ? "Unpin" : "Pin"}
+                              Revert
                             </Button>
+                          ) : null}
+                        </div>
+                        <p className="text-foreground">
+                          {formatAnswerValue(event.previousKey)} to{" "}
+                          {formatAnswerValue(event.newKey)}
+                        </p>
+                        {event.reason ? (
+                          <p className="text-muted-foreground">
+                            {event.reason}
+                          </p>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {isAdmin &&
+                question &&
+                questionKeyHistory.length > 0 &&
+                JSON.stringify(question.correctAnswer) !==
+                  JSON.stringify(question.keyUpdate) ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      void handleKeyRevert(
+                        question.correctAnswer,
+                        "the original key"
+                      )
+                    }
+                  >
+                    Revert to original key
+                  </Button>
+                ) : null}
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                  Key challenges
+                </p>
+                {questionChallenges.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No one has challenged this key.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {questionChallenges.map((challenge) => {
+                      const proposedOptions = toOptionArray(
+                        challenge.proposedKey
+                      );
+                      return (
+                        <li
+                          key={challenge.id}
+                          className="space-y-2 rounded-lg border border-border/60 p-3 text-xs"
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-semibold text-foreground">
+                              Proposed {formatAnswerValue(challenge.proposedKey)}
+                            </span>
+                            <span
+                              className={cn(
+                                "rounded-md px-2 py-0.5 font-semibold capitalize",
+                                challenge.status === "open" &&
+                                  "bg-amber-500/15 text-amber-600",
+                                challenge.status === "accepted" &&
+                                  "bg-emerald-500/15 text-emerald-600",
+                                challenge.status === "rejected" &&
+                                  "bg-rose-500/15 text-rose-600"
+                              )}
+                            >
+                              {challenge.status}
+                            </span>
+                          </div>
+                          <p className="text-foreground/90">
+                            {challenge.justification}
+                          </p>
+                          <p className="text-muted-foreground">
+                            {challenge.authorName},{" "}
+                            {new Date(challenge.createdAt).toLocaleString()}
+                          </p>
+                          {peerOptionSplit.length > 0 ? (
+                            <div className="flex flex-wrap gap-1.5">
+                              {peerOptionSplit.map((item) => (
+                                <span
+                                  key={item.option}
+                                  className={cn(
+                                    "rounded-md border px-2 py-0.5",
+                                    proposedOptions.includes(item.option)
+                                      ? "border-primary/60 bg-primary/10 text-foreground"
+                                      : "border-border text-muted-foreground"
+                                  )}
+                                >
+                                  {item.option} {item.percent}%
+                                </span>
+                              ))}
+                            </div>
+                          ) : null}
+                          {challenge.status !== "open" ? (
+                            <p className="text-muted-foreground">
+                              {challenge.status === "accepted"
+                                ? "Accepted"
+                                : "Rejected"}
+                              {challenge.resolvedByName
+                                ? ` by ${challenge.resolvedByName}`
+                                : ""}
+                              {challenge.resolutionNote
+                                ? `: ${challenge.resolutionNote}`
+                                : ""}
+                            </p>
+                          ) : null}
+                          <div className="flex flex-wrap items-center gap-2">
                             <Button
                               type="button"
-                              variant="ghost"
+                              variant={challenge.hasVoted ? "secondary" : "outline"}
                               size="sm"
-                              onClick={() =>
-                                deleteMessage(chat.id, chat.author)
-                              }
-                              disabled={
-                                !isAdmin && currentUser?.name !== chat.author
-                              }
-                              title={
-                                isAdmin || currentUser?.name === chat.author
-                                  ? "Delete message"
-                                  : "Admins or message author only"
-                              }
+                              disabled={challenge.status !== "open"}
+                              onClick={() => void handleChallengeVote(challenge)}
                             >
-                              Delete
+                              Upvote {challenge.votes}
                             </Button>
+                            {isAdmin && challenge.status === "open" ? (
+                              <>
+                                <Button
+                                  type="button"
+                                  variant="secondary"
+                                  size="sm"
+                                  onClick={() =>
+                                    void handleChallengeResolve(
+                                      challenge,
+                                      "accepted"
+                                    )
+                                  }
+                                >
+                                  Accept
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() =>
+                                    void handleChallengeResolve(
+                                      challenge,
+                                      "rejected"
+                                    )
+                                  }
+                                >
+                                  Reject
+                                </Button>
+                              </>
+                            ) : null}
                           </div>
-                        </div>
-                        <p className="mt-2 text-xs text-foreground/90">
-                          {chat.body}
-                        </p>
-                      </div>
-                    ))
-                  )}
-                </div>
-                <form className="flex gap-2" onSubmit={handleChatSubmit}>
-                  <Input
-                    value={chatInput}
-                    onChange={(event) => setChatInput(event.target.value)}
-                    placeholder="Add a message"
-                  />
-                  <Button type="submit">Send</Button>
-                </form>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
               </div>
 
-              {isAdmin ? (
+              <div className="flex flex-wrap items-center gap-2">
                 <Dialog>
                   <DialogTrigger asChild>
-                    <Button variant="secondary">Update answer key</Button>
+                    <Button variant="secondary">
+                      {isAdmin ? "Update answer key" : "Set or challenge key"}
+                    </Button>
                   </DialogTrigger>
                   <DialogContent>
                     <DialogHeader>
-                      <DialogTitle>Update answer key</DialogTitle>
+                      <DialogTitle>
+                        {isAdmin ? "Update answer key" : "Set or challenge key"}
+                      </DialogTitle>
                       <DialogDescription>
                         Add one or more valid answers. Each entry is treated as
-                        OR.
+                        OR.{" "}
+                        {isAdmin
+                          ? "Save update changes the key for everyone; save as my key only rescores your attempt."
+                          : "Your key only rescores your attempt. File a challenge to ask admins to change the key for everyone."}
                       </DialogDescription>
                     </DialogHeader>
-                    <form className="space-y-4" onSubmit={handleKeyUpdate}>
+                    <form
+                      className="space-y-4"
+                      onSubmit={(event) => {
+                        if (isAdmin) {
+                          void handleKeyUpdate(event);
+                          return;
+                        }
+                        event.preventDefault();
+                        void handleKeyOverride();
+                      }}
+                    >
                       <div className="space-y-3">
                         <div className="space-y-1">
                           <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
@@ -1616,7 +2260,7 @@ export const QuestionDetail = () => {
                                     />
                                   </div>
                                 </div>
-                              ) : question.qtype === "MAQ" ? (
+                              ) : isMultiSelectType(question.qtype) ? (
                                 <div className="flex flex-wrap gap-2">
                                   {keyOptions.length > 0 ? (
                                     keyOptions.map((option) => (
@@ -1704,12 +2348,32 @@ export const QuestionDetail = () => {
                       >
                         Add another answer (OR)
                       </Button>
+                      <div className="space-y-2">
+                        <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                          {isAdmin ? "Reason" : "Justification"}
+                        </p>
+                        <Input
+                          value={keyUpdateReason}
+                          onChange={(event) =>
+                            setKeyUpdateReason(event.target.value)
+                          }
+                          placeholder={
+                            isAdmin
+                              ? "Why is the key changing? (optional)"
+                              : "Why is the official key wrong? Needed to file a challenge."
+                          }
+                        />
+                      </div>
                       <div className="flex items-center justify-between gap-3 rounded-lg border border-border/60 px-3 py-2 text-xs text-muted-foreground">
                         <div>
                           <p className="font-medium text-foreground">
                             Bonus question
                           </p>
-                          <p>Give full marks to everyone for this question.</p>
+                          <p>
+                            {isAdmin
+                              ? "Give full marks to everyone for this question."
+                              : "Give yourself full marks for this question."}
+                          </p>
                         </div>
                         <Switch
                           checked={keyUpdateBonus}
@@ -1717,16 +2381,45 @@ export const QuestionDetail = () => {
                         />
                       </div>
                       <DialogFooter>
-                        <Button type="submit">Save update</Button>
+                        {isAdmin ? (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => void handleKeyOverride()}
+                          >
+                            Save as my key
+                          </Button>
+                        ) : (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => void handleChallengeFile()}
+                          >
+                            File challenge
+                          </Button>
+                        )}
+                        <Button type="submit">
+                          {isAdmin ? "Save update" : "Save my key"}
+                        </Button>
                       </DialogFooter>
                     </form>
                   </DialogContent>
                 </Dialog>
-              ) : (
+                {personalKey !== undefined ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => void handleKeyOverrideClear()}
+                  >
+                    Clear my key
+                  </Button>
+                ) : null}
+              </div>
+              {personalKey !== undefined ? (
                 <p className="text-xs text-muted-foreground">
-                  Only admins can update answer keys.
+                  Your key: {formatAnswerValue(personalKey)}
                 </p>
-              )}
+              ) : null}
 
               {message ? (
                 <div className="rounded-lg border border-border bg-background p-3 text-xs text-muted-foreground">
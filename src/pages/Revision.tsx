@@ -0,0 +1,359 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toOptionArray } from '@shared/scoring'
+import { useAppStore } from '@/lib/store'
+import { formatAnswerValue, isMultiSelectType } from '@/lib/analysis'
+import { buildDisplayQuestions } from '@/lib/questionDisplay'
+import type { ReviewCard, ReviewQuestion, ReviewResult, ReviewStatus } from '@/lib/types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { cn, formatQuestionType } from '@/lib/utils'
+
+const optionLabels = ['A', 'B', 'C', 'D'] as const
+
+const statusLabels: Record<ReviewStatus, string> = {
+  correct: 'Correct',
+  partial: 'Partial',
+  incorrect: 'Incorrect',
+  unattempted: 'Skipped',
+}
+
+const statusClasses: Record<ReviewStatus, string> = {
+  correct: 'border-emerald-500/60 bg-emerald-500/15 text-emerald-600',
+  partial: 'border-amber-400/60 bg-amber-400/15 text-amber-600',
+  incorrect: 'border-rose-500/60 bg-rose-500/15 text-rose-600',
+  unattempted: 'border-border text-muted-foreground',
+}
+
+const isDue = (card: ReviewCard, now: number) => new Date(card.dueAt).getTime() <= now
+
+const formatDue = (card: ReviewCard, now: number) => {
+  if (isDue(card, now)) {
+    return 'Due now'
+  }
+  const days = Math.ceil((new Date(card.dueAt).getTime() - now) / (24 * 60 * 60 * 1000))
+  return days === 1 ? 'Due tomorrow' : `Due in ${days} days`
+}
+
+export const Revision = () => {
+  const { state, currentUser, loadRevisionDeck, loadReviewCard, submitReview } =
+    useAppStore()
+  const mode = currentUser?.preferences.mode ?? state.ui.mode
+  const [cards, setCards] = useState<ReviewCard[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const [message, setMessage] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [active, setActive] = useState<{
+    card: ReviewCard
+    question: ReviewQuestion
+  } | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [numericAnswer, setNumericAnswer] = useState('')
+  const [result, setResult] = useState<ReviewResult | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    void loadRevisionDeck().then((outcome) => {
+      if (cancelled) {
+        return
+      }
+      setCards(outcome.cards)
+      setNow(Date.now())
+      setMessage(outcome.ok ? null : outcome.message ?? 'Unable to load the revision deck.')
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [loadRevisionDeck])
+
+  const displayNumbers = useMemo(() => {
+    const map = new Map<string, number>()
+    Object.values(state.tests).forEach((test) => {
+      buildDisplayQuestions(test.questions).forEach(({ question, displayNumber }) => {
+        map.set(question.id, displayNumber)
+      })
+    })
+    return map
+  }, [state.tests])
+
+  const dueCards = useMemo(
+    () => cards.filter((card) => isDue(card, now)),
+    [cards, now],
+  )
+
+  const openCard = async (card: ReviewCard) => {
+    setMessage(null)
+    const outcome = await loadReviewCard(card.id)
+    if (!outcome.ok || !outcome.card || !outcome.question) {
+      setMessage(outcome.message ?? 'Unable to load this question.')
+      return
+    }
+    setActive({ card: outcome.card, question: outcome.question })
+    setSelected([])
+    setNumericAnswer('')
+    setResult(null)
+  }
+
+  const openNextDue = () => {
+    const next = dueCards.find((card) => card.id !== active?.card.id)
+    if (next) {
+      void openCard(next)
+    } else {
+      setActive(null)
+    }
+  }
+
+  const toggleOption = (label: string) => {
+    if (!active || result) {
+      return
+    }
+    if (!isMultiSelectType(active.card.qtype)) {
+      setSelected([label])
+      return
+    }
+    setSelected((prev) =>
+      prev.includes(label)
+        ? prev.filter((item) => item !== label)
+        : [...prev, label].sort(),
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (!active || isSubmitting) {
+      return
+    }
+    const { qtype } = active.card
+    const answer =
+      qtype === 'NAT'
+        ? numericAnswer.trim() || null
+        : isMultiSelectType(qtype)
+          ? selected
+          : selected[0] ?? null
+    setIsSubmitting(true)
+    const outcome = await submitReview({ cardId: active.card.id, answer })
+    setIsSubmitting(false)
+    if (!outcome.ok || !outcome.card || !outcome.result) {
+      setMessage(outcome.message ?? 'Unable to grade your answer.')
+      return
+    }
+    const updated = outcome.card
+    setCards((prev) => prev.map((card) => (card.id === updated.id ? updated : card)))
+    setActive((prev) => (prev ? { ...prev, card: updated } : prev))
+    setResult(outcome.result)
+    setNow(Date.now())
+  }
+
+  const activeNumber = active
+    ? displayNumbers.get(active.card.questionId) ?? active.card.questionNumber
+    : 0
+  const keyOptions = result ? toOptionArray(result.key) : []
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+              Revision
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold">Practise what went wrong</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Incorrect, partial and starred questions come back on a spaced schedule.
+            </p>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span>
+              {dueCards.length} due - {cards.length} in deck
+            </span>
+            {!active ? (
+              <Button
+                type="button"
+                disabled={dueCards.length === 0}
+                onClick={openNextDue}
+              >
+                Start review
+              </Button>
+            ) : null}
+          </div>
+        </div>
+
+        {message ? <p className="text-sm text-muted-foreground">{message}</p> : null}
+
+        {active ? (
+          <Card className="app-panel">
+            <CardContent className="space-y-4 p-6">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                <Link
+                  to={`/app/questions/${active.card.testId}/${active.card.questionId}`}
+                  className="font-semibold text-foreground hover:underline"
+                >
+                  {active.card.testTitle} - Q{activeNumber}
+                </Link>
+                <span>
+                  {active.card.subject} - {formatQuestionType(active.card.qtype)}
+                </span>
+              </div>
+              <div
+                className={cn(
+                  'question-html leading-relaxed',
+                  mode === 'dark' ? 'question-html--blend-dark' : 'question-html--blend-light',
+                )}
+                dangerouslySetInnerHTML={{ __html: active.question.questionContent }}
+              />
+              {active.card.qtype === 'NAT' ? (
+                <Input
+                  value={numericAnswer}
+                  disabled={Boolean(result)}
+                  placeholder="Your answer"
+                  onChange={(event) => setNumericAnswer(event.target.value)}
+                />
+              ) : (
+                <div className="grid gap-3">
+                  {optionLabels.map((label) => {
+                    const content = active.question[`optionContent${label}`]
+                    if (!content) {
+                      return null
+                    }
+                    const isSelected = selected.includes(label)
+                    const isKey = keyOptions.includes(label)
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleOption(label)}
+                        className={cn(
+                          'flex gap-3 rounded-lg border p-2 text-left text-sm',
+                          result && isKey && 'border-emerald-500/70 bg-emerald-500/15',
+                          result && isSelected && !isKey && 'border-rose-500/70 bg-rose-500/15',
+                          !result && isSelected && 'border-primary bg-primary/10',
+                          !(result && (isKey || isSelected)) &&
+                            !(!result && isSelected) &&
+                            'border-border bg-background',
+                        )}
+                      >
+                        <span
+                          className={cn(
+                            'flex h-7 w-7 flex-shrink-0 items-center justify-center place-self-center border text-xs font-semibold',
+                            isMultiSelectType(active.card.qtype) ? 'rounded-md' : 'rounded-full',
+                          )}
+                        >
+                          {label}
+                        </span>
+                        <div
+                          className={cn(
+                            'question-html min-w-0 flex-1 leading-relaxed',
+                            mode === 'dark'
+                              ? 'question-html--blend-dark'
+                              : 'question-html--blend-light',
+                          )}
+                          dangerouslySetInnerHTML={{ __html: content }}
+                        />
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+
+              {result ? (
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <Badge variant="outline" className={statusClasses[result.status]}>
+                      {statusLabels[result.status]}
+                    </Badge>
+                    <span>Marks {result.mark}</span>
+                    <span>Key {formatAnswerValue(result.key)}</span>
+                    <span className="text-muted-foreground">
+                      {formatDue(active.card, now)}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="button" variant="ghost" onClick={() => setActive(null)}>
+                      Stop
+                    </Button>
+                    <Button type="button" onClick={openNextDue}>
+                      {dueCards.some((card) => card.id !== active.card.id)
+                        ? 'Next question'
+                        : 'Finish'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="ghost" onClick={() => setActive(null)}>
+                    Stop
+                  </Button>
+                  <Button
+                    type="button"
+                    disabled={isSubmitting}
+                    onClick={() => void handleSubmit()}
+                  >
+                    {isSubmitting
+                      ? 'Checking...'
+                      : selected.length === 0 && !numericAnswer.trim()
+                        ? 'Skip'
+                        : 'Check answer'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : null}
+
+        <div className="space-y-3">
+          <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+            Progress
+          </p>
+          {cards.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading
+                ? 'Loading...'
+                : 'No questions to revise yet. Wrong, partial and starred questions appear here.'}
+            </p>
+          ) : (
+            <div className="grid gap-2">
+              {cards.map((card) => (
+                <div
+                  key={card.id}
+                  className="app-panel flex flex-wrap items-center justify-between gap-3 p-3 text-xs"
+                >
+                  <div className="space-y-1">
+                    <p className="font-semibold text-foreground">
+                      {card.testTitle} - Q
+                      {displayNumbers.get(card.questionId) ?? card.questionNumber}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {card.subject} - {formatQuestionType(card.qtype)}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-muted-foreground">
+                    {card.lastStatus ? (
+                      <Badge variant="outline" className={statusClasses[card.lastStatus]}>
+                        {statusLabels[card.lastStatus]}
+                      </Badge>
+                    ) : null}
+                    <span>
+                      {card.correctCount}/{card.reviewCount} correct
+                    </span>
+                    <span>{formatDue(card, now)}</span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => void openCard(card)}
+                    >
+                      Practise
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useState, type FormEvent } from "react";
 import { Link, useParams } from "react-router-dom";
-import { Star } from "lucide-react";
+import { Check, Star } from "lucide-react";
 import { useAppStore } from "@/lib/store";
 import {
   buildAnalysis,
@@ -10,8 +10,16 @@ import {
   getQuestionStatus,
   getTimeForQuestion,
   isBonusKey,
+  isMultiSelectType,
+  partialPolicies,
+  resolveQuestionKey,
 } from "@/lib/analysis";
-import type { QuestionType, Subject } from "@/lib/types";
+import type { QuestionType, Subject, TestRecord } from "@/lib/types";
+import { mistakeTagLabels } from "@shared/mistakes";
+import { topicSubjects, type TopicSubject } from "@shared/topics";
+import { KeySourceToggle } from "@/components/KeySourceToggle";
+import { ScoreDistributionCard } from "@/components/ScoreDistributionCard";
+import { SegmentedProgressBar } from "@/components/SegmentedProgressBar";
 import { TestSummaryCard } from "@/components/TestSummaryCard";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -34,7 +42,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { formatQuestionType } from "@/lib/utils";
+import { cn, formatPartialPolicy, formatQuestionType } from "@/lib/utils";
 import { buildDisplayQuestions } from "@/lib/questionDisplay";
 
 const formatSeconds = (value: number) => {
@@ -71,7 +79,13 @@ type TypeFilter = (typeof typeOptions)[number]["value"];
 type StatusFilter = (typeof statuses)[number];
 type MarkingDraft = Record<
   QuestionType,
-  { correct: string; incorrect: string; unattempted: string }
+  {
+    correct: string;
+    incorrect: string;
+    unattempted: string;
+    partial: string;
+    policy: string;
+  }
 >;
 
 const hasKeyChange = (question: {
@@ -95,12 +109,33 @@ const getStatusVariant = (status: string) => {
 };
 
 const buildEmptyMarkingDraft = (): MarkingDraft => ({
-  MCQ: { correct: "", incorrect: "", unattempted: "" },
-  MAQ: { correct: "", incorrect: "", unattempted: "" },
-  NAT: { correct: "", incorrect: "", unattempted: "" },
-  VMAQ: { correct: "", incorrect: "", unattempted: "" },
+  MCQ: { correct: "", incorrect: "", unattempted: "", partial: "", policy: "" },
+  MAQ: { correct: "", incorrect: "", unattempted: "", partial: "", policy: "" },
+  NAT: { correct: "", incorrect: "", unattempted: "", partial: "", policy: "" },
+  VMAQ: { correct: "", incorrect: "", unattempted: "", partial: "", policy: "" },
 });
 
+const buildMarkingDraft = (test: TestRecord | undefined): MarkingDraft => {
+  const draft = buildEmptyMarkingDraft();
+  test?.questions.forEach((question) => {
+    const qtype = question.qtype as QuestionType;
+    if (!questionTypes.includes(qtype)) {
+      return;
+    }
+    if (draft[qtype].correct) {
+      return;
+    }
+    draft[qtype] = {
+      correct: String(question.correctMarking),
+      incorrect: String(question.incorrectMarking),
+      unattempted: String(question.unattemptedMarking),
+      partial: String(question.partialMarking),
+      policy: question.partialPolicy,
+    };
+  });
+  return draft;
+};
+
 export const TestDetail = () => {
   const { testId } = useParams();
   const {
@@ -109,9 +144,17 @@ export const TestDetail = () => {
     acknowledgeKeyUpdates,
     updateMarkingScheme,
     isAdmin,
+    keySource,
     resyncTest,
+    createTopic,
+    assignQuestionTopic,
+    loadTest,
   } = useAppStore();
-  const test = state.tests.find((item) => item.id === testId);
+  const test = testId ? state.tests[testId] : undefined;
+  const [loadError, setLoadError] = useState<{
+    testId: string;
+    message: string;
+  } | null>(null);
   const displayQuestions = useMemo(() => {
     if (!test) {
       return [];
@@ -125,11 +168,18 @@ export const TestDetail = () => {
   const [status, setStatus] = useState<StatusFilter>("ALL");
   const [onlyKeyUpdates, setOnlyKeyUpdates] = useState(false);
   const [markingDraft, setMarkingDraft] = useState<MarkingDraft>(() =>
-    buildEmptyMarkingDraft()
+    buildMarkingDraft(test)
   );
   const [markingMessage, setMarkingMessage] = useState<string | null>(null);
   const [isResyncing, setIsResyncing] = useState(false);
   const [confirmResyncOpen, setConfirmResyncOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [topicDraft, setTopicDraft] = useState("");
+  const [newTopicSubject, setNewTopicSubject] =
+    useState<TopicSubject>("PHYSICS");
+  const [newTopicName, setNewTopicName] = useState("");
+  const [topicMessage, setTopicMessage] = useState<string | null>(null);
+  const [isTagging, setIsTagging] = useState(false);
   const [collapsedSubjects, setCollapsedSubjects] = useState<
     Record<Subject, boolean>
   >({
@@ -138,36 +188,37 @@ export const TestDetail = () => {
     MATHEMATICS: false,
   });
 
+  // The draft is rebuilt whenever the test record is replaced, during render
+  // rather than in an effect so the old draft never paints.
+  const [markingDraftTest, setMarkingDraftTest] = useState(test);
+  if (markingDraftTest !== test) {
+    setMarkingDraftTest(test);
+    setMarkingDraft(buildMarkingDraft(test));
+    setMarkingMessage(null);
+  }
+
   useEffect(() => {
-    if (!test) {
-      setMarkingDraft(buildEmptyMarkingDraft());
-      setMarkingMessage(null);
+    if (!testId || test) {
       return;
     }
-    const nextDraft = buildEmptyMarkingDraft();
-    test.questions.forEach((question) => {
-      const qtype = question.qtype as QuestionType;
-      if (!questionTypes.includes(qtype)) {
-        return;
-      }
-      if (nextDraft[qtype].correct) {
-        return;
+    void loadTest(testId).then((outcome) => {
+      if (!outcome.ok) {
+        setLoadError({
+          testId,
+          message: outcome.message ?? "Test not found.",
+        });
       }
-      nextDraft[qtype] = {
-        correct: String(question.correctMarking),
-        incorrect: String(question.incorrectMarking),
-        unattempted: String(question.unattemptedMarking),
-      };
     });
-    setMarkingDraft(nextDraft);
-    setMarkingMessage(null);
-  }, [test]);
+  }, [loadTest, testId, test]);
 
   if (!test) {
+    const failed = loadError && loadError.testId === testId;
     return (
       <Card className="app-panel">
         <CardContent className="space-y-3 p-6">
-          <p className="text-sm text-muted-foreground">Test not found.</p>
+          <p className="text-sm text-muted-foreground">
+            {!testId ? "Test not found." : failed ? loadError.message : "Loading test..."}
+          </p>
           <Button asChild variant="outline">
             <Link to="/app/tests">Back to tests</Link>
           </Button>
@@ -176,7 +227,23 @@ export const TestDetail = () => {
     );
   }
 
-  const analysis = buildAnalysis(test);
+  const analysis = buildAnalysis(
+    test,
+    state.keyHistory[test.id],
+    keySource,
+    state.topics
+  );
+  const topicNames = new Map(
+    state.topics.map((topic) => [topic.id, topic.name])
+  );
+  const selectedSubjects = new Set(
+    test.questions
+      .filter((question) => selectedIds.includes(question.id))
+      .map((question) => question.subject)
+  );
+  const selectableTopics = state.topics.filter(
+    (topic) => selectedSubjects.size === 0 || selectedSubjects.has(topic.subject)
+  );
   const acknowledgedAt =
     currentUser?.preferences.acknowledgedKeyUpdates[test.id] ?? null;
   const hasNewKeyUpdates = Boolean(
@@ -184,7 +251,7 @@ export const TestDetail = () => {
       (!acknowledgedAt || acknowledgedAt < analysis.latestKeyUpdate)
   );
   const account = state.externalAccounts.find(
-    (item) => item.userId === currentUser?.id && item.provider === "test.z7i.in"
+    (item) => item.userId === currentUser?.id && item.provider === test.provider
   );
   const canResync = Boolean(
     test.externalExamId &&
@@ -218,7 +285,13 @@ export const TestDetail = () => {
     }
     const scheme: Record<
       string,
-      { correct: number; incorrect: number; unattempted: number }
+      {
+        correct: number;
+        incorrect: number;
+        unattempted: number;
+        partial?: number;
+        policy?: string;
+      }
     > = {};
     for (const qtype of availableTypes) {
       const entry = markingDraft[qtype];
@@ -235,7 +308,24 @@ export const TestDetail = () => {
         );
         return;
       }
-      scheme[qtype] = { correct, incorrect, unattempted };
+      if (!isMultiSelectType(qtype)) {
+        scheme[qtype] = { correct, incorrect, unattempted };
+        continue;
+      }
+      const partial = Number(entry.partial);
+      if (!Number.isFinite(partial) || partial < 0) {
+        setMarkingMessage(
+          `Enter a valid partial mark for ${formatQuestionType(qtype)}.`
+        );
+        return;
+      }
+      scheme[qtype] = {
+        correct,
+        incorrect,
+        unattempted,
+        partial,
+        policy: entry.policy || undefined,
+      };
     }
     await updateMarkingScheme({ testId: test.id, scheme });
     setMarkingMessage("Marking scheme updated.");
@@ -246,23 +336,26 @@ export const TestDetail = () => {
       return [];
     }
     return displayQuestions.map(({ question, displayNumber }) => {
-      const statusLabel = getQuestionStatus(test, question);
+      const statusLabel = getQuestionStatus(test, question, keySource);
       const time = getTimeForQuestion(test, question);
       const answer = getAnswerForQuestion(test, question);
-      const score = getQuestionMark(test, question);
+      const score = getQuestionMark(test, question, keySource);
+      const key = resolveQuestionKey(test, question, keySource);
       return {
         question,
         displayNumber,
         status: statusLabel,
         time,
         answer,
+        key,
         score,
         keyChanged: hasKeyChange(question),
-        bonus: isBonusKey(question.keyUpdate),
-        bookmarked: Boolean(test.bookmarks?.[question.id]),
+        bonus: isBonusKey(key),
+        bookmarked: Boolean(test.annotations?.[question.id]),
+        mistakeTag: test.annotations?.[question.id]?.tag ?? null,
       };
     });
-  }, [displayQuestions, test]);
+  }, [displayQuestions, keySource, test]);
 
   const filteredQuestions = useMemo(() => {
     const queryValue = query.trim().toLowerCase();
@@ -289,6 +382,53 @@ export const TestDetail = () => {
     );
   }, [onlyKeyUpdates, query, questionSnapshots, status, subject, type]);
 
+  const toggleSelected = (questionId: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(questionId)
+        ? prev.filter((id) => id !== questionId)
+        : [...prev, questionId]
+    );
+
+  const handleApplyTopic = async (topicId: string | null) => {
+    if (selectedIds.length === 0) {
+      return;
+    }
+    setIsTagging(true);
+    const outcome = await assignQuestionTopic({
+      questionIds: selectedIds,
+      topicId,
+    });
+    setIsTagging(false);
+    if (!outcome.ok) {
+      setTopicMessage(outcome.message ?? "Unable to update topics.");
+      return;
+    }
+    setTopicMessage(
+      topicId
+        ? `Tagged ${selectedIds.length} questions.`
+        : `Removed the topic from ${selectedIds.length} questions.`
+    );
+    setSelectedIds([]);
+  };
+
+  const handleCreateTopic = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!newTopicName.trim()) {
+      return;
+    }
+    const outcome = await createTopic({
+      subject: newTopicSubject,
+      name: newTopicName,
+    });
+    if (!outcome.ok || !outcome.topic) {
+      setTopicMessage(outcome.message ?? "Unable to create topic.");
+      return;
+    }
+    setNewTopicName("");
+    setTopicDraft(outcome.topic.id);
+    setTopicMessage(`Added ${outcome.topic.name}.`);
+  };
+
   const groupedQuestions = useMemo(() => {
     const map = new Map<Subject, typeof filteredQuestions>();
     filteredQuestions.forEach((item) => {
@@ -316,9 +456,12 @@ export const TestDetail = () => {
             {test.title}
           </h1>
         </div>
-        <Button asChild variant="ghost" size="sm">
-          <Link to="/app/tests">Back to tests</Link>
-        </Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <KeySourceToggle />
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/app/tests">Back to tests</Link>
+          </Button>
+        </div>
       </div>
       <section className="grid grid-cols-6 gap-2">
         <TestSummaryCard
@@ -376,7 +519,9 @@ export const TestDetail = () => {
                   Marking scheme
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Update marks for each question type in this test.
+                  Update marks for each question type in this test. Multiple
+                  correct types also pick a partial marking policy; the partial
+                  mark is the credit per correct option.
                 </p>
               </div>
               <Button
@@ -395,17 +540,19 @@ export const TestDetail = () => {
               onSubmit={handleMarkingSchemeSave}
             >
               <div className="overflow-hidden rounded-lg border border-border/60">
-                <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,minmax(0,90px))] gap-3 bg-muted/50 px-3 py-2 text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
+                <div className="grid grid-cols-[minmax(0,1fr)_repeat(4,minmax(0,90px))_minmax(0,180px)] gap-3 bg-muted/50 px-3 py-2 text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
                   <span>Type</span>
                   <span className="text-right">Correct</span>
                   <span className="text-right">Incorrect</span>
                   <span className="text-right">Unattempted</span>
+                  <span className="text-right">Partial</span>
+                  <span>Policy</span>
                 </div>
                 <div className="divide-y divide-border/60">
                   {availableTypes.map((qtype) => (
                     <div
                       key={qtype}
-                      className="grid grid-cols-[minmax(0,1fr)_repeat(3,minmax(0,90px))] items-center gap-3 px-3 py-2 text-xs text-muted-foreground"
+                      className="grid grid-cols-[minmax(0,1fr)_repeat(4,minmax(0,90px))_minmax(0,180px)] items-center gap-3 px-3 py-2 text-xs text-muted-foreground"
                     >
                       <span className="text-foreground/90">
                         {formatQuestionType(qtype)}
@@ -458,6 +605,52 @@ export const TestDetail = () => {
                         className="h-8 text-right"
                         disabled={!isAdmin}
                       />
+                      {isMultiSelectType(qtype) ? (
+                        <Input
+                          type="number"
+                          step="1"
+                          min="0"
+                          value={markingDraft[qtype].partial}
+                          onChange={(event) =>
+                            setMarkingDraft((prev) => ({
+                              ...prev,
+                              [qtype]: {
+                                ...prev[qtype],
+                                partial: event.target.value,
+                              },
+                            }))
+                          }
+                          className="h-8 text-right"
+                          disabled={!isAdmin}
+                        />
+                      ) : (
+                        <span className="text-right">-</span>
+                      )}
+                      {isMultiSelectType(qtype) ? (
+                        <Select
+                          value={markingDraft[qtype].policy}
+                          onValueChange={(value) =>
+                            setMarkingDraft((prev) => ({
+                              ...prev,
+                              [qtype]: { ...prev[qtype], policy: value },
+                            }))
+                          }
+                          disabled={!isAdmin}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue placeholder="Per correct option" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {partialPolicies.map((policy) => (
+                              <SelectItem key={policy} value={policy}>
+                                {formatPartialPolicy(policy)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span>-</span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -481,6 +674,8 @@ export const TestDetail = () => {
         </Card>
       </section>
 
+      <ScoreDistributionCard test={test} />
+
       <Dialog open={confirmResyncOpen} onOpenChange={setConfirmResyncOpen}>
         <DialogContent>
           <DialogHeader>
@@ -513,6 +708,52 @@ export const TestDetail = () => {
 
       <section></section>
 
+      {analysis.perTopic.length > 0 ? (
+        <section>
+          <Card className="app-panel">
+            <CardContent className="space-y-4 p-6">
+              <div className="space-y-1">
+                <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+                  Topics
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Weakest topics first. Untagged questions are left out.
+                </p>
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                {[...analysis.perTopic]
+                  .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total)
+                  .map((topic) => (
+                    <div key={topic.id} className="space-y-2">
+                      <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="font-semibold text-foreground">
+                          {topic.name}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {topic.subject} - {topic.correct}/{topic.total}{" "}
+                          correct - {topic.accuracy}% - Score {topic.score} -{" "}
+                          {formatSeconds(topic.avgTime)} avg
+                        </span>
+                      </div>
+                      <SegmentedProgressBar
+                        segments={[
+                          { value: topic.correct, className: "bg-emerald-500" },
+                          { value: topic.partial, className: "bg-amber-400" },
+                          { value: topic.incorrect, className: "bg-rose-500" },
+                          {
+                            value: topic.unattempted,
+                            className: "bg-muted-foreground/30",
+                          },
+                        ]}
+                      />
+                    </div>
+                  ))}
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+      ) : null}
+
       <section>
         <Card className="app-panel">
           <CardContent className="space-y-5 p-6">
@@ -612,6 +853,98 @@ export const TestDetail = () => {
               </div>
             </div>
 
+            {isAdmin ? (
+              <div className="space-y-3 rounded-lg border border-border/60 p-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>{selectedIds.length} selected</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setSelectedIds(
+                        filteredQuestions.map(({ question }) => question.id)
+                      )
+                    }
+                  >
+                    Select shown
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={selectedIds.length === 0}
+                    onClick={() => setSelectedIds([])}
+                  >
+                    Clear selection
+                  </Button>
+                  <Select value={topicDraft} onValueChange={setTopicDraft}>
+                    <SelectTrigger className="h-8 w-60 text-xs">
+                      <SelectValue placeholder="Choose a topic" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectableTopics.map((topic) => (
+                        <SelectItem key={topic.id} value={topic.id}>
+                          {topic.subject} - {topic.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={!topicDraft || selectedIds.length === 0 || isTagging}
+                    onClick={() => void handleApplyTopic(topicDraft)}
+                  >
+                    Tag selected
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={selectedIds.length === 0 || isTagging}
+                    onClick={() => void handleApplyTopic(null)}
+                  >
+                    Remove topic
+                  </Button>
+                </div>
+                <form
+                  className="flex flex-wrap items-center gap-2"
+                  onSubmit={handleCreateTopic}
+                >
+                  <Select
+                    value={newTopicSubject}
+                    onValueChange={(value) =>
+                      setNewTopicSubject(value as TopicSubject)
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {topicSubjects.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {item}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={newTopicName}
+                    onChange={(event) => setNewTopicName(event.target.value)}
+                    placeholder="New topic, e.g. Rotational mechanics"
+                    className="h-8 max-w-xs text-xs"
+                  />
+                  <Button type="submit" variant="outline" size="sm">
+                    Add topic
+                  </Button>
+                </form>
+                {topicMessage ? (
+                  <p className="text-xs text-muted-foreground">{topicMessage}</p>
+                ) : null}
+              </div>
+            ) : null}
+
             <Separator />
 
             <div className="space-y-5">
@@ -651,8 +984,10 @@ export const TestDetail = () => {
                           score,
                           keyChanged,
                           answer,
+                          key,
                           bonus,
                           bookmarked,
+                          mistakeTag,
                         }) => (
                           <Link
                             key={question.id}
@@ -662,6 +997,30 @@ export const TestDetail = () => {
                             <div className="flex items-start justify-between gap-3">
                               <div>
                                 <div className="flex items-center gap-2">
+                                  {isAdmin ? (
+                                    <button
+                                      type="button"
+                                      aria-pressed={selectedIds.includes(
+                                        question.id
+                                      )}
+                                      aria-label={`Select Q${displayNumber}`}
+                                      onClick={(event) => {
+                                        event.preventDefault();
+                                        event.stopPropagation();
+                                        toggleSelected(question.id);
+                                      }}
+                                      className={cn(
+                                        "flex h-4 w-4 items-center justify-center rounded border",
+                                        selectedIds.includes(question.id)
+                                          ? "border-primary bg-primary text-primary-foreground"
+                                          : "border-border"
+                                      )}
+                                    >
+                                      {selectedIds.includes(question.id) ? (
+                                        <Check className="h-3 w-3" />
+                                      ) : null}
+                                    </button>
+                                  ) : null}
                                   {bookmarked ? (
                                     <Star
                                       className="h-4 w-4 text-amber-400"
@@ -675,6 +1034,10 @@ export const TestDetail = () => {
                                 <p className="text-xs text-muted-foreground">
                                   {formatQuestionType(question.qtype)} -{" "}
                                   {formatSeconds(time)}
+                                  {question.topicId &&
+                                  topicNames.has(question.topicId)
+                                    ? ` - ${topicNames.get(question.topicId)}`
+                                    : null}
                                 </p>
                               </div>
                               <div className="flex items-center gap-2">
@@ -688,6 +1051,11 @@ export const TestDetail = () => {
                                     Key update
                                   </Badge>
                                 ) : null}
+                                {mistakeTag ? (
+                                  <Badge variant="outline">
+                                    {mistakeTagLabels[mistakeTag]}
+                                  </Badge>
+                                ) : null}
                                 <Badge variant={getStatusVariant(statusLabel)}>
                                   {statusLabel}
                                 </Badge>
@@ -697,7 +1065,7 @@ export const TestDetail = () => {
                               <span>Score {score}</span>
                               <span>Answer {formatAnswerValue(answer)}</span>
                               <span>
-                                Correct {formatAnswerValue(question.keyUpdate)}
+                                Correct {formatAnswerValue(key)}
                               </span>
                             </div>
                           </Link>
@@ -1,8 +1,7 @@
-import { useMemo, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { useAppStore } from '@/lib/store'
-import { buildAnalysis } from '@/lib/analysis'
-import { buildDisplayQuestions } from '@/lib/questionDisplay'
+import type { TestListFilters, TestListSort } from '@/lib/types'
 import { TestSummaryCard } from '@/components/TestSummaryCard'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
@@ -27,82 +26,92 @@ const subjects = ['ALL', 'PHYSICS', 'CHEMISTRY', 'MATHEMATICS'] as const
 
 type SubjectFilter = (typeof subjects)[number]
 
-type SortOption =
-  | 'date-desc'
-  | 'date-asc'
-  | 'score-desc'
-  | 'score-asc'
-  | 'rank-asc'
-  | 'rank-desc'
+const SEARCH_DELAY_MS = 300
 
 export const Tests = () => {
-  const { state, currentUser, resyncTest, resyncAllTests } = useAppStore()
-  const [query, setQuery] = useState('')
-  const [subject, setSubject] = useState<SubjectFilter>('ALL')
-  const [sort, setSort] = useState<SortOption>('date-desc')
+  const {
+    state,
+    currentUser,
+    resyncTest,
+    resyncAllTests,
+    testFilters,
+    setTestFilters,
+    loadMoreTests,
+  } = useAppStore()
+  const [query, setQuery] = useState(testFilters.q)
+  const searchTimer = useRef<number | null>(null)
   const [resyncingId, setResyncingId] = useState<string | null>(null)
   const [isResyncingAll, setIsResyncingAll] = useState(false)
   const [resyncAllMessage, setResyncAllMessage] = useState<string | null>(null)
   const [confirmResyncAllOpen, setConfirmResyncAllOpen] = useState(false)
   const [confirmResyncId, setConfirmResyncId] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [loadMessage, setLoadMessage] = useState<string | null>(null)
 
-  const account = state.externalAccounts.find(
-    (item) => item.userId === currentUser?.id && item.provider === 'test.z7i.in',
+  const accounts = state.externalAccounts.filter(
+    (item) => item.userId === currentUser?.id,
   )
-  const isSyncing = account?.syncStatus === 'syncing'
-  const canResyncAll = Boolean(account && !isSyncing && state.tests.length > 0)
-
-  const analysisMap = useMemo(() => {
-    const map = new Map<string, ReturnType<typeof buildAnalysis>>()
-    state.tests.forEach((test) => {
-      map.set(test.id, buildAnalysis(test))
-    })
-    return map
-  }, [state.tests])
-  const questionOrderMap = useMemo(() => {
-    const map = new Map<string, string>()
-    state.tests.forEach((test) => {
-      const first = buildDisplayQuestions(test.questions)[0]
-      map.set(test.id, first?.question.id ?? '')
-    })
-    return map
-  }, [state.tests])
+  const canResyncAll = Boolean(
+    accounts.some((item) => item.syncStatus !== 'syncing') && state.testsTotal > 0,
+  )
+  const hasMore = state.testSummaries.length < state.testsTotal
 
-  const visibleTests = useMemo(() => {
-    const filtered = state.tests.filter((test) => {
-      const inQuery =
-        query.trim().length === 0 ||
-        test.title.toLowerCase().includes(query.trim().toLowerCase())
-      const inSubject =
-        subject === 'ALL' ||
-        test.questions.some((question) => question.subject === subject)
-      return inQuery && inSubject
-    })
+  const subject: SubjectFilter =
+    (subjects as readonly string[]).includes(testFilters.subject)
+      ? (testFilters.subject as SubjectFilter)
+      : 'ALL'
 
-    const sorted = [...filtered].sort((a, b) => {
-      const analysisA = analysisMap.get(a.id)
-      const analysisB = analysisMap.get(b.id)
-      const rankA = a.rank ?? Number.POSITIVE_INFINITY
-      const rankB = b.rank ?? Number.POSITIVE_INFINITY
-      switch (sort) {
-        case 'date-asc':
-          return new Date(a.examDate).getTime() - new Date(b.examDate).getTime()
-        case 'score-desc':
-          return (analysisB?.scoreCurrent ?? 0) - (analysisA?.scoreCurrent ?? 0)
-        case 'score-asc':
-          return (analysisA?.scoreCurrent ?? 0) - (analysisB?.scoreCurrent ?? 0)
-        case 'rank-asc':
-          return rankA - rankB
-        case 'rank-desc':
-          return rankB - rankA
-        case 'date-desc':
-        default:
-          return new Date(b.examDate).getTime() - new Date(a.examDate).getTime()
+  // The dashboard shows the first page as the latest tests, so the filters
+  // are reset when leaving the library.
+  useEffect(
+    () => () => {
+      if (searchTimer.current !== null) {
+        window.clearTimeout(searchTimer.current)
       }
-    })
+      void setTestFilters({ q: '', subject: '', sort: 'date-desc' })
+    },
+    [setTestFilters],
+  )
+
+  // The list is filtered and sorted by the API, so every change reloads it
+  // from the first page.
+  const applyFilters = async (filters: Partial<TestListFilters>) => {
+    setLoadMessage(null)
+    const outcome = await setTestFilters(filters)
+    if (!outcome.ok) {
+      setLoadMessage(outcome.message ?? 'Unable to load tests.')
+    }
+  }
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value)
+    if (searchTimer.current !== null) {
+      window.clearTimeout(searchTimer.current)
+    }
+    searchTimer.current = window.setTimeout(() => {
+      searchTimer.current = null
+      void applyFilters({ q: value.trim() })
+    }, SEARCH_DELAY_MS)
+  }
+
+  const clearSearch = () => {
+    if (searchTimer.current !== null) {
+      window.clearTimeout(searchTimer.current)
+      searchTimer.current = null
+    }
+    setQuery('')
+    void applyFilters({ q: '' })
+  }
 
-    return sorted
-  }, [analysisMap, query, sort, state.tests, subject])
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true)
+    setLoadMessage(null)
+    const outcome = await loadMoreTests()
+    setIsLoadingMore(false)
+    if (!outcome.ok) {
+      setLoadMessage(outcome.message ?? 'Unable to load more tests.')
+    }
+  }
 
   return (
     <div className="space-y-6">
@@ -146,13 +155,18 @@ export const Tests = () => {
                 <label className="text-xs text-muted-foreground">Search</label>
                 <Input
                   value={query}
-                  onChange={(event) => setQuery(event.target.value)}
+                  onChange={(event) => handleQueryChange(event.target.value)}
                   placeholder="Search by test name"
                 />
               </div>
               <div className="space-y-2">
                 <label className="text-xs text-muted-foreground">Subject</label>
-                <Select value={subject} onValueChange={(value) => setSubject(value as SubjectFilter)}>
+                <Select
+                  value={subject}
+                  onValueChange={(value) =>
+                    void applyFilters({ subject: value === 'ALL' ? '' : value })
+                  }
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="All subjects" />
                   </SelectTrigger>
@@ -167,7 +181,10 @@ export const Tests = () => {
               </div>
               <div className="space-y-2">
                 <label className="text-xs text-muted-foreground">Sort by</label>
-                <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+                <Select
+                  value={testFilters.sort}
+                  onValueChange={(value) => void applyFilters({ sort: value as TestListSort })}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Sort" />
                   </SelectTrigger>
@@ -185,22 +202,23 @@ export const Tests = () => {
           </Card>
 
           <div className="space-y-4">
-            {visibleTests.map((test) => {
-              const analysis = analysisMap.get(test.id)
-              const canResync = Boolean(test.externalExamId && account && !isSyncing)
-              const firstQuestionId = questionOrderMap.get(test.id) ?? ''
+            {state.testSummaries.map((test) => {
+              const account = accounts.find((item) => item.provider === test.provider)
+              const canResync = Boolean(
+                test.externalExamId && account && account.syncStatus !== 'syncing',
+              )
               return (
                 <TestSummaryCard
                   key={test.id}
                   test={test}
-                  analysis={analysis}
+                  analysis={test.analysis}
                   actions={
                     <>
                       <Button asChild variant="outline" size="sm">
                         <Link to={`/app/tests/${test.id}`}>Open review</Link>
                       </Button>
                       <Button asChild size="sm">
-                        <Link to={`/app/questions/${test.id}/${firstQuestionId}`}>
+                        <Link to={`/app/questions/${test.id}`}>
                           Open questions
                         </Link>
                       </Button>
@@ -223,18 +241,36 @@ export const Tests = () => {
                 />
               )
             })}
-            {visibleTests.length === 0 ? (
+            {state.testSummaries.length === 0 ? (
               <Card className="app-panel">
                 <CardContent className="space-y-2 p-6">
                   <p className="text-sm text-muted-foreground">
                     No tests match the current filters.
                   </p>
-                  <Button onClick={() => setQuery('')} variant="outline">
+                  <Button onClick={clearSearch} variant="outline">
                     Clear search
                   </Button>
                 </CardContent>
               </Card>
             ) : null}
+            {hasMore ? (
+              <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-muted-foreground">
+                <span>
+                  Showing {state.testSummaries.length} of {state.testsTotal} tests.
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isLoadingMore}
+                  onClick={() => void handleLoadMore()}
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            ) : null}
+            {loadMessage ? (
+              <p className="text-xs text-muted-foreground">{loadMessage}</p>
+            ) : null}
           </div>
         </div>
       </section>
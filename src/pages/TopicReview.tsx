@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import type { TopicModelInfo, TopicSuggestion } from '@/lib/types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { cn, formatQuestionType } from '@/lib/utils'
+
+export const TopicReview = () => {
+  const {
+    state,
+    currentUser,
+    isAdmin,
+    loadTopicSuggestions,
+    reviewTopicSuggestion,
+    trainTopicModel,
+  } = useAppStore()
+  const mode = currentUser?.preferences.mode ?? state.ui.mode
+  const [model, setModel] = useState<TopicModelInfo | null>(null)
+  const [suggestions, setSuggestions] = useState<TopicSuggestion[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isTraining, setIsTraining] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const showSuggestions = useCallback(
+    (outcome: Awaited<ReturnType<typeof loadTopicSuggestions>>) => {
+      setModel(outcome.model)
+      setSuggestions(outcome.suggestions)
+      setIsLoading(false)
+      if (!outcome.ok) {
+        setMessage(outcome.message ?? 'Unable to load topic suggestions.')
+      }
+    },
+    [],
+  )
+
+  const refresh = async () => {
+    showSuggestions(await loadTopicSuggestions())
+  }
+
+  useEffect(() => {
+    if (!isAdmin) {
+      return
+    }
+    let cancelled = false
+    void loadTopicSuggestions().then((outcome) => {
+      if (!cancelled) {
+        showSuggestions(outcome)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isAdmin, loadTopicSuggestions, showSuggestions])
+
+  const handleTrain = async () => {
+    setIsTraining(true)
+    setMessage(null)
+    const outcome = await trainTopicModel()
+    setIsTraining(false)
+    if (!outcome.ok) {
+      setMessage(outcome.message ?? 'Unable to train the topic model.')
+      return
+    }
+    setMessage(`Model retrained. ${outcome.suggested ?? 0} questions have suggestions.`)
+    await refresh()
+  }
+
+  const handleReview = async (
+    suggestion: TopicSuggestion,
+    decision: 'accept' | 'reject',
+  ) => {
+    setPendingId(suggestion.id)
+    const outcome = await reviewTopicSuggestion({ suggestionId: suggestion.id, decision })
+    setPendingId(null)
+    if (!outcome.ok) {
+      setMessage(outcome.message ?? 'Unable to review the suggestion.')
+      return
+    }
+    setSuggestions((prev) => prev.filter((item) => item.id !== suggestion.id))
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="app-surface p-8 text-sm text-muted-foreground">
+        Only admins can review topic suggestions.
+      </section>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="app-surface space-y-6 p-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">
+              Topics
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold">Review topic suggestions</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {model
+                ? `Model trained ${new Date(model.trainedAt).toLocaleString()} from ${model.documentCount} tagged questions across ${model.topicCount} topics.`
+                : 'No model yet. Tag some questions on a test, then train the model.'}
+            </p>
+          </div>
+          <Button type="button" disabled={isTraining} onClick={() => void handleTrain()}>
+            {isTraining ? 'Training...' : 'Retrain model'}
+          </Button>
+        </div>
+
+        {message ? <p className="text-sm text-muted-foreground">{message}</p> : null}
+
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : 'No suggestions waiting for review.'}
+          </p>
+        ) : (
+          <div className="grid gap-3">
+            {suggestions.map((suggestion) => (
+              <Card key={suggestion.id} className="app-panel">
+                <CardContent className="space-y-3 p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="font-semibold text-foreground">
+                      {suggestion.examTitle} - Q{suggestion.questionNumber}
+                    </span>
+                    <span>
+                      {suggestion.subject} - {formatQuestionType(suggestion.qtype)}
+                    </span>
+                  </div>
+                  <div
+                    className={cn(
+                      'question-html line-clamp-4 text-sm leading-relaxed',
+                      mode === 'dark'
+                        ? 'question-html--blend-dark'
+                        : 'question-html--blend-light',
+                    )}
+                    dangerouslySetInnerHTML={{ __html: suggestion.questionContent }}
+                  />
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-semibold">{suggestion.topicName}</span>
+                      <Badge variant="outline">
+                        {Math.round(suggestion.confidence * 100)}% match
+                      </Badge>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={pendingId === suggestion.id}
+                        onClick={() => void handleReview(suggestion, 'reject')}
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        disabled={pendingId === suggestion.id}
+                        onClick={() => void handleReview(suggestion, 'accept')}
+                      >
+                        Accept
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}